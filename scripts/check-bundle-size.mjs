@@ -9,8 +9,8 @@ import { build } from 'vite';
 const repoRoot = resolve(dirname(fileURLToPath(import.meta.url)), '..');
 const packageRoot = resolve(process.cwd(), process.argv[2] ?? '.');
 const distEntry = resolve(packageRoot, 'dist/index.js');
-const targetGzipKiB = parsePositiveKiB('TINYVECTORS_TARGET_GZIP_KIB', 11);
-const maxGzipKiB = parsePositiveKiB('TINYVECTORS_MAX_GZIP_KIB', 12);
+const targetGzipKiB = parsePositiveKiB('TINYVECTORS_TARGET_GZIP_KIB', 34);
+const maxGzipKiB = parsePositiveKiB('TINYVECTORS_MAX_GZIP_KIB', 36);
 const trackedConsumerModules = ['dist/core/InteractionField.js'];
 
 if (maxGzipKiB < targetGzipKiB) {
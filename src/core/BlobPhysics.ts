@@ -12,11 +12,72 @@
 
 
 
-import type { ConvexBlob, GravityVector, TiltVector } from './types.js';
+import type {
+	BlobColorSource,
+	BlobLifecycle,
+	ControlPoint,
+	ControlPointVelocity,
+	ConvexBlob,
+	GravityVector,
+	PullForce,
+	TiltVector,
+} from './types.js';
+import { BlobStore } from './BlobStore.js';
 import { SpatialHash } from './SpatialHash.js';
 import { GaussianKernel } from './GaussianKernel.js';
-import { SpringSystem, DEFAULT_SPRING_CONFIG, type SpringConfig } from './SpringSystem.js';
-import { directionalBiasField } from './InteractionField.js';
+import {
+	SpringSystem,
+	DEFAULT_SPRING_CONFIG,
+	computePolygonArea,
+	type SpringConfig,
+} from './SpringSystem.js';
+import {
+	clampFieldVectorInto,
+	directionalBiasField,
+	directionalBiasFieldInto,
+	isValidFieldAnchor,
+	linearDistanceFalloff,
+	pointAttractorFieldInto,
+	smoothDistanceFalloff,
+	type FieldAnchor,
+	type FieldFalloff,
+	type FieldVector,
+} from './InteractionField.js';
+import {
+	getZoneDistanceInto,
+	isValidExclusionZone,
+	type ExclusionZone,
+	type ZoneDistance,
+} from './exclusion-zones.js';
+import type {
+	BounceEventData,
+	CollisionEventData,
+	SettleEventData,
+	TinyVectorsEvent,
+	WallSide,
+} from './schema.js';
+import {
+	createSeededRandom,
+	isSeededRandomSource,
+	type ClockSource,
+	type RandomSource,
+} from './random.js';
+import { createCurlNoiseField, type CurlNoiseField } from './CurlNoise.js';
+import {
+	getDepthScale,
+	isValidDepthLayers,
+	resolveDepthLayers,
+	type DepthLayer,
+	type DepthLayersConfig,
+	type DepthLayersOverride,
+} from './depth-layers.js';
+import type { ThemeColor } from './theme-presets.js';
+import {
+	DEFAULT_PHYSICS_WORLD,
+	getWorldCenter,
+	isValidPhysicsWorld,
+	type PhysicsWorld,
+} from './world.js';
 
 const ACCELEROMETER_STRENGTH = 0.0008;
 const ACCELEROMETER_MAX_FORCE = 0.003;
@@ -35,8 +96,103 @@ export interface BlobPhysicsConfig {
 	useSpringSystem: boolean;
 	
 	springConfig: Partial<SpringConfig>;
+	
+	topology?: Partial<BlobTopologyConfig>;
+	/** Base radius range for blobs created from now on, in physics units. Defaults to 15..27. */
+	minRadius?: number;
+	maxRadius?: number;
+	/** Control points per blob outline, an integer in 3..64. Changing it resamples every outline. Defaults to 8. */
+	controlPoints?: number;
+	/** Speed cap in physics units per step. Defaults to uncapped. */
+	maxVelocity?: number;
+	/** Constant downward acceleration in physics units per second squared. Defaults to 0. */
+	gravity?: number;
+	/** Clamp on the summed addField() fields per blob, in units per step². Defaults to 0.003. */
+	maxFieldForce?: number;
+	/** How blobs respond to the pointer. Omitted keys fall back to DEFAULT_POINTER_FIELD_CONFIG. */
+	pointerField?: Partial<PointerFieldConfig>;
+	/** Idle drift. Omitted keys fall back to DEFAULT_AMBIENT_FIELD_CONFIG. */
+	ambientField?: Partial<AmbientFieldConfig>;
+	/** Per-layer speed and drawn size for blobs whose theme colour names a depth layer. Omitted keys fall back to DEFAULT_DEPTH_LAYERS; leave unset to keep one plane. */
+	depthLayers?: DepthLayersOverride;
+}
+
+// attract pulls blobs toward the pointer and repel pushes them away; swirl
+// circles them around it (counter-clockwise for positive strength); wake
+// pushes blobs near the pointer along its velocity, so a quick sweep parts
+// them and a resting pointer leaves them alone.
+export type PointerFieldMode = 'attract' | 'repel' | 'swirl' | 'wake';
+
+export const POINTER_FIELD_MODES: readonly PointerFieldMode[] = ['attract', 'repel', 'swirl', 'wake'];
+
+export interface PointerFieldConfig {
+	mode: PointerFieldMode;
+	/** Reach in physics units. */
+	radius: number;
+	/** 1 is the default pull; 0 disables the field. */
+	strength: number;
+	falloff: FieldFalloff;
+	/** Blobs whose current colour (as assigned by setPalette()) is listed ignore the pointer. */
+	ignoreColors: string[];
+}
+
+export const DEFAULT_POINTER_FIELD_CONFIG: PointerFieldConfig = {
+	mode: 'attract',
+	radius: 34,
+	strength: 1,
+	falloff: 'smooth',
+	ignoreColors: [],
+};
+
+// random is the original per-blob drift: white noise plus a slow sine
+// wander. curl samples a seeded curl-noise flow over position and
+// simulation time instead, so nearby blobs drift together in slow
+// currents. The territory pull bounds both the same way.
+export type AmbientFieldMode = 'random' | 'curl';
+
+export const AMBIENT_FIELD_MODES: readonly AmbientFieldMode[] = ['random', 'curl'];
+
+export interface AmbientFieldConfig {
+	mode: AmbientFieldMode;
+	/** Width of a curl current in physics units. */
+	scale: number;
+	/** How fast the curl flow evolves, in noise units per second. */
+	speed: number;
+	/** 1 is the default drift; 0 stills it. */
+	strength: number;
+	/** Curl noise seed. Defaults to the BlobPhysics seed, or 0 when unseeded. */
+	seed?: number;
 }
 
+export const DEFAULT_AMBIENT_FIELD_CONFIG: AmbientFieldConfig = {
+	mode: 'random',
+	scale: 40,
+	speed: 0.05,
+	strength: 1,
+};
+
+// Opt-in merging and splitting. Off unless `enabled` is set, so the blob
+// count only ever changes through addBlob()/removeBlob()/setBlobCount().
+export interface BlobTopologyConfig {
+	enabled: boolean;
+	/** Merges stop once the live blob count is down to this. */
+	minBlobs: number;
+	/** Splits stop once the live blob count is up to this. */
+	maxBlobs: number;
+	/** Seconds two blobs must stay within their merge distance before coalescing. */
+	mergeDwellSeconds: number;
+	/** Seconds a blob sits out of topology changes after merging or splitting. */
+	cooldownSeconds: number;
+}
+
+export const DEFAULT_BLOB_TOPOLOGY_CONFIG: BlobTopologyConfig = {
+	enabled: false,
+	minBlobs: 3,
+	maxBlobs: 16,
+	mergeDwellSeconds: 0.75,
+	cooldownSeconds: 3,
+};
+
 export const DEFAULT_BLOB_PHYSICS_CONFIG: BlobPhysicsConfig = {
 	antiClusteringStrength: 0.15,
 	bounceDamping: 0.7,
@@ -49,6 +205,132 @@ export const DEFAULT_BLOB_PHYSICS_CONFIG: BlobPhysicsConfig = {
 	springConfig: {},
 };
 
+export interface BlobPhysicsOptions {
+	/** Seeds a deterministic RNG (and a simulation-time clock unless `now` is given). */
+	seed?: number;
+	/** Custom [0, 1) random source. Takes precedence over `seed`. */
+	random?: RandomSource;
+	/** Custom millisecond clock used for repulsion/bounce timestamps. Defaults to Date.now. */
+	now?: ClockSource;
+	/** Physics bounds. Defaults to the legacy -40..140 square. */
+	world?: PhysicsWorld;
+}
+
+export interface SetConfigOptions {
+	/** Resolve against the defaults instead of the current config, so omitted keys revert. */
+	reset?: boolean;
+}
+
+export interface AddBlobOptions {
+	/** Spawn position in physics units. Defaults to the freest spot in the world. */
+	x?: number;
+	y?: number;
+	/** Grow in from zero presence; false appears at full presence at once. Defaults to true. */
+	animate?: boolean;
+}
+
+export interface BlobCountOptions {
+	/** Grow new blobs in and fade removed ones out. Defaults to true. */
+	animate?: boolean;
+}
+
+// What a custom field sees each fixed step, besides the blob itself.
+// Shared by every blob and updated in place each step, so fields must not
+// hold on to it.
+export interface FieldContext {
+	/** Simulation clock in seconds. */
+	time: number;
+	deltaTime: number;
+	world: Readonly<PhysicsWorld>;
+	pointer: { x: number; y: number; velocityX: number; velocityY: number };
+	gravity: Readonly<GravityVector>;
+	tilt: Readonly<TiltVector>;
+	scrollStickiness: number;
+}
+
+// Returns the velocity change for one blob this step, in physics units per
+// step². Non-finite results are ignored.
+export type ForceField = (blob: Readonly<ConvexBlob>, context: FieldContext) => FieldVector;
+
+// One active pointer (finger, pen or mouse) for setPointers(), in physics
+// coordinates.
+export interface PointerInput {
+	id: number;
+	x: number;
+	y: number;
+	/** Multiplies the pointer field for this pointer, e.g. from pen pressure. Defaults to 1. */
+	strength?: number;
+}
+
+// The scroll handler's state for setScrollField(): its live pull-force
+// impulses and the direction of the latest scroll.
+export interface ScrollFieldInput {
+	/** 1 while scrolling down, -1 up, 0 when idle. */
+	direction: number;
+	/** e.g. ScrollHandler.getPullForces(); an empty list is neutral. */
+	forces: readonly PullForce[];
+}
+
+interface TrackedPointer {
+	x: number;
+	y: number;
+	velocityX: number;
+	velocityY: number;
+	strength: number;
+}
+
+export interface ForceFieldOptions {
+	/** Clamp on this field alone, applied before the global maxFieldForce clamp. */
+	maxMagnitude?: number;
+}
+
+export interface BlobPhysicsEventMap {
+	collision: CollisionEventData;
+	bounce: BounceEventData;
+	settle: SettleEventData;
+	wake: SettleEventData;
+}
+
+export type BlobPhysicsEventType = keyof BlobPhysicsEventMap;
+
+export const BLOB_PHYSICS_EVENT_TYPES: readonly BlobPhysicsEventType[] = [
+	'collision',
+	'bounce',
+	'settle',
+	'wake',
+];
+
+// Discriminated union of every event BlobPhysics emits, for consumers
+// that funnel all of them through one callback.
+export type BlobPhysicsEvent = {
+	[K in BlobPhysicsEventType]: TinyVectorsEvent<BlobPhysicsEventMap[K]> & { type: K };
+}[BlobPhysicsEventType];
+
+export type BlobPhysicsEventHandler<K extends BlobPhysicsEventType = BlobPhysicsEventType> = (
+	event: Extract<BlobPhysicsEvent, { type: K }>,
+) => void;
+
+// Bump whenever the snapshot shape or the meaning of a stored field changes;
+// importState() refuses anything else rather than half-restoring it.
+// 2: snapshots carry the physics world.
+// 3: blobs carry stable ids and snapshots carry nextBlobId.
+export const BLOB_PHYSICS_SNAPSHOT_VERSION = 3;
+
+export interface BlobPhysicsSnapshot {
+	version: typeof BLOB_PHYSICS_SNAPSHOT_VERSION;
+	blobs: ConvexBlob[];
+	accumulatedTime: number;
+	simulationClock: number;
+	nextBlobId: number;
+	world: PhysicsWorld;
+	/** Stream position of a seeded RNG (createSeededRandom); absent for other sources. */
+	randomState?: number;
+	mouse: { x: number; y: number; velocityX: number; velocityY: number };
+	gravity: GravityVector;
+	tilt: TiltVector;
+	scrollStickiness: number;
+}
+
 // Fixed simulation quantum. Physics previously integrated directly on the
 // caller-supplied per-frame deltaTime/time, but nothing inside
 // updateScreensaverPhysics actually scaled by deltaTime — velocity adds,
@@ -60,11 +342,98 @@ const FIXED_TIMESTEP_SECONDS = 1 / 60;
 // after a paused/backgrounded tab resumes), so a long real-time gap can't
 // spiral into an unbounded number of substeps in one frame.
 const MAX_PHYSICS_SUBSTEPS = 8;
+// Seconds of simulation time a runtime-added blob takes to grow from zero
+// presence, and a removed one to shrink/fade before it leaves the array.
+const BLOB_ENTER_SECONDS = 0.8;
+const BLOB_EXIT_SECONDS = 0.8;
+// Candidate spawn points sampled when looking for free space.
+const SPAWN_CANDIDATES = 24;
+const DEFAULT_MIN_RADIUS = 15;
+const DEFAULT_MAX_RADIUS = 27;
+export const DEFAULT_CONTROL_POINTS = 8;
+const MIN_CONTROL_POINTS = 3;
+const MAX_CONTROL_POINTS = 64;
+// Per-step velocity retention at the default viscosity, and the viscosity
+// and deformationSpeed it was tuned for. Drag scales linearly with
+// viscosity, so retention is this base raised to viscosity/default per
+// step; at the defaults the exponent is exactly 1 and the historic
+// `*= 0.992` (and spring dt) come out bit-identical.
+const BASE_VELOCITY_RETENTION = 0.992;
+const BASE_VISCOSITY = 0.3;
+const BASE_DEFORMATION_SPEED = 0.5;
+const SPRING_DT = 0.016;
+// Exclusion zones act as a soft wall: within this many units of a blob's
+// edge reaching the zone (plus its padding) the outward push ramps up
+// quadratically, and inward speed bleeds off so blobs slide along the
+// outline. Depth is capped so a blob caught deep inside eases out rather
+// than being launched.
+const EXCLUSION_BAND = 12;
+const EXCLUSION_PUSH = 0.003;
+const EXCLUSION_BRAKE = 0.15;
+const EXCLUSION_MAX_DEPTH = 1.5;
+// Custom fields are summed per blob and clamped to this by default: the
+// same ceiling as the device-motion field, and a fraction of typical
+// ambient speeds, so plugins bias the drift rather than replace it.
+const DEFAULT_MAX_FIELD_FORCE = 0.003;
+// Scroll pull forces sum to a few units while scrolling (up to ~80 for a
+// long explosive burst). Ordinary forces push blobs against the scroll
+// direction and stretch their rendered outline along it (the spring
+// outline responds far too slowly for a transient scroll, so the stretch
+// is applied when drawing, like presence); explosive ones scatter blobs away
+// from the world center. Both are capped well under ambient speeds per
+// step, weighted by each blob's scrollAffinity so the motion never turns
+// fully coherent, and fade per step if the caller stops refreshing them.
+const SCROLL_LAG_GAIN = 0.0008;
+const SCROLL_LAG_MAX = 0.005;
+const SCROLL_STRETCH_GAIN = 0.02;
+const SCROLL_STRETCH_MAX = 0.15;
+const SCROLL_STRETCH_EASE = 0.08;
+const SCROLL_BURST_GAIN = 0.0005;
+const SCROLL_BURST_MAX = 0.005;
+const SCROLL_FIELD_DECAY = 0.98;
+// Pointer and anchor strength 1 pulls this hard at the field's center.
+const POINTER_FIELD_STRENGTH = 0.0014;
+// In wake mode a pointer moving this many units per event pushes as hard
+// as strength 1 attracts; faster sweeps push harder, up to WAKE_MAX_BOOST.
+const WAKE_REFERENCE_SPEED = 1;
+const WAKE_MAX_BOOST = 3;
+// Curl drift at strength 1 pushes this hard where the flow is fastest;
+// tuned so idle speeds match the random drift's.
+const AMBIENT_CURL_GAIN = 0.0012;
+// A moving blob's trailing edge lags its center by roughly this many steps
+// of travel, scaled by its stretchability; that lag plus its widest control
+// radius is the extent compared against splitThreshold.
+const SPLIT_STRETCH_LAG_STEPS = 30;
+// Split halves are kicked apart along the stretch axis by this much
+// velocity, and a blob too small to leave two halves at least
+// MIN_SPLIT_SIZE wide never splits.
+const SPLIT_SEPARATION_VELOCITY = 0.04;
+const MIN_SPLIT_SIZE = 8;
+// Repeated merges would otherwise nest color-mix() without bound.
+const MAX_COLOR_SOURCES = 4;
+// Per-blob settle/wake hysteresis, in physics units per step. Ambient drift
+// stays well under WAKE_SPEED, so only real disturbances (flings, scroll
+// bursts, hard repulsion) wake a blob, and it settles once it has spent
+// SETTLE_SECONDS back under SETTLE_SPEED.
+const SETTLE_SPEED = 0.15;
+const WAKE_SPEED = 0.3;
+const SETTLE_SECONDS = 0.5;
 
 export class BlobPhysics {
 	private blobs: ConvexBlob[] = [];
 	private config: BlobPhysicsConfig;
+	private topology: BlobTopologyConfig;
+	private pointerField: PointerFieldConfig;
+	private ambientField: AmbientFieldConfig;
+	// Built only in curl mode; seeded from ambientField.seed or the
+	// constructor seed so a seeded instance flows the same way every time.
+	private ambientNoise: CurlNoiseField | null = null;
+	private readonly noiseSeed: number;
+	private depthLayers: DepthLayersConfig | null;
+	// Set by setPalette(); null leaves blob colours and behaviour alone.
+	private palette: (string | ThemeColor)[] | null = null;
 	private numBlobs: number;
+	private nextBlobId = 0;
 	private initialized = false;
 
 	// Fixed-timestep accumulator state (TIN-853): tick() is still called once
@@ -78,14 +447,19 @@ export class BlobPhysics {
 	// simulation clock at exactly 0, so the `time % 45 < 0.1` territory
 	// reshuffle in updateTerritorialMovement() fires deterministically at the
 	// same wall-clock offset on every page load instead of the varied timing
-	// the pre-fixed-timestep implementation had. Seeded-RNG tests re-seed
-	// Math.random() immediately before construction, so this draw is still
-	// fully deterministic there.
-	private simulationClock = Math.random() * 45;
+	// the pre-fixed-timestep implementation had. The draw goes through the
+	// injected RNG, so a seeded instance still gets a reproducible phase.
+	private simulationClock: number;
+
+	// Every stochastic draw and timestamp in the simulation goes through
+	// these, never Math.random()/Date.now() directly, so two instances built
+	// with the same seed and fed the same inputs stay bit-identical.
+	private readonly random: RandomSource;
+	private readonly now: ClockSource;
 
 	
-	private mouseX = 50;
-	private mouseY = 50;
+	private mouseX: number;
+	private mouseY: number;
 	private mouseVelX = 0;
 	private mouseVelY = 0;
 
@@ -93,21 +467,81 @@ export class BlobPhysics {
 	private gravity: GravityVector = { x: 0, y: 0 };
 	private gravityField: GravityVector = { x: 0, y: 0 };
 	private tilt: TiltVector = { x: 0, y: 0, z: 0 };
+	// Aggregated from setScrollField() once per update, not per blob.
+	private scrollDirection = 0;
+	private scrollLag = 0;
+	private scrollBurst = 0;
 	private scrollStickiness = 0;
+	private exclusionZones: ExclusionZone[] = [];
+	private anchors = new Map<string, FieldAnchor>();
+	private fields = new Map<string, { field: ForceField; maxMagnitude: number }>();
+	private pointers = new Map<number, TrackedPointer>();
 
 	
-	private readonly PHYSICS_MIN = -40;
-	private readonly PHYSICS_MAX = 140;
+	private world: PhysicsWorld;
 
 	
 	private spatialHash: SpatialHash;
 	private gaussianKernel: GaussianKernel;
 	private springSystem: SpringSystem;
 	private controlRadiusScratch: number[] = [];
-
-	constructor(numBlobs: number, config: Partial<BlobPhysicsConfig> = {}) {
+	private controlForceScratch: number[] = [];
+	// Per-step scratch, reused so the step path does not allocate.
+	private fieldScratch: FieldVector = { x: 0, y: 0 };
+	private zoneScratch: ZoneDistance = { distance: 0, normalX: 0, normalY: 0 };
+	private absorbedScratch = new Set<ConvexBlob>();
+	private fieldContext: FieldContext | null = null;
+	// Blobs are views over this store (positions, velocities, control point
+	// radii and angles); set-wide passes like anti-clustering read the
+	// arrays directly. Every change to the blob set goes through bindBlobs().
+	private store = new BlobStore();
+	private neighborScratch = new Int32Array(0);
+	private personalSpaceScratch = new Float64Array(0);
+	private repulsionScratch = new Float64Array(0);
+
+	// Stored widened; on()/emit() keep each handler paired with its own type.
+	private listeners = new Map<BlobPhysicsEventType, Set<BlobPhysicsEventHandler>>();
+	// Pair keys ("lowId:highId") overlapping this step and last step, so a
+	// collision fires once per contact rather than on every step of it.
+	// Only maintained while someone listens for `collision`.
+	private activeContacts = new Set<string>();
+	private previousContacts = new Set<string>();
+
+	constructor(
+		numBlobs: number,
+		config: Partial<BlobPhysicsConfig> = {},
+		options: BlobPhysicsOptions = {},
+	) {
 		this.numBlobs = numBlobs;
 		this.config = { ...DEFAULT_BLOB_PHYSICS_CONFIG, ...config };
+		this.topology = { ...DEFAULT_BLOB_TOPOLOGY_CONFIG, ...this.config.topology };
+		this.pointerField = resolvePointerField(DEFAULT_POINTER_FIELD_CONFIG, this.config.pointerField);
+		this.ambientField = { ...DEFAULT_AMBIENT_FIELD_CONFIG, ...this.config.ambientField };
+		this.depthLayers = this.config.depthLayers ? resolveDepthLayers(this.config.depthLayers) : null;
+		assertConfig(this.config, this.topology, this.pointerField, this.ambientField, this.depthLayers);
+		this.noiseSeed = options.seed ?? 0;
+		this.ambientNoise = this.createAmbientNoise(this.ambientField);
+
+		// Unseeded defaults resolve Math.random/Date.now per call rather than
+		// capturing them, so globals stubbed after construction still apply.
+		this.random =
+			options.random ??
+			(options.seed !== undefined ? createSeededRandom(options.seed) : () => Math.random());
+		// A seed alone must be enough for reproducibility, so seeded instances
+		// without an explicit clock time repulsion/bounce bookkeeping off the
+		// fixed-step simulation clock instead of the wall clock.
+		this.now =
+			options.now ??
+			(options.seed !== undefined ? () => this.simulationClock * 1000 : () => Date.now());
+		this.simulationClock = this.random() * 45;
+
+		this.world = { ...(options.world ?? DEFAULT_PHYSICS_WORLD) };
+		if (!isValidPhysicsWorld(this.world)) {
+			throw new RangeError('BlobPhysics: world must have finite bounds with max > min');
+		}
+		const center = getWorldCenter(this.world);
+		this.mouseX = center.x;
+		this.mouseY = center.y;
 
 		
 		this.spatialHash = new SpatialHash(60); 
@@ -138,7 +572,14 @@ export class BlobPhysics {
 
 
 	dispose(): void {
-		this.blobs = [];
+		this.bindBlobs([]);
+		this.listeners.clear();
+		this.activeContacts.clear();
+		this.previousContacts.clear();
+		this.exclusionZones = [];
+		this.anchors.clear();
+		this.fields.clear();
+		this.pointers.clear();
 		this.initialized = false;
 		this.accumulatedTime = 0;
 		this.simulationClock = 0;
@@ -147,6 +588,335 @@ export class BlobPhysics {
 	
 
 
+	// Deep-copies everything the fixed-step loop reads or writes (blobs with
+	// their control points and territories, accumulator, clock, inputs) into
+	// a plain JSON-safe object. A seeded RNG's stream position travels with
+	// it, so a seeded instance that imports the snapshot continues the exact
+	// trajectory; other RNG and clock sources are not captured and an
+	// importing instance keeps drawing from its own.
+	exportState(): BlobPhysicsSnapshot {
+		return {
+			version: BLOB_PHYSICS_SNAPSHOT_VERSION,
+			blobs: structuredClone(this.blobs),
+			accumulatedTime: this.accumulatedTime,
+			simulationClock: this.simulationClock,
+			nextBlobId: this.nextBlobId,
+			world: { ...this.world },
+			mouse: {
+				x: this.mouseX,
+				y: this.mouseY,
+				velocityX: this.mouseVelX,
+				velocityY: this.mouseVelY,
+			},
+			gravity: { ...this.gravity },
+			tilt: { ...this.tilt },
+			scrollStickiness: this.scrollStickiness,
+			...(isSeededRandomSource(this.random) ? { randomState: this.random.getState() } : {}),
+		};
+	}
+
+	// Replaces the whole simulation with a snapshot from exportState() and
+	// marks the instance ready, so init() afterwards is a no-op instead of
+	// re-running initializeBlobs(). Validation happens before any field is
+	// touched: a rejected snapshot leaves the current state intact.
+	importState(snapshot: BlobPhysicsSnapshot): void {
+		assertSnapshot(snapshot);
+
+		this.bindBlobs(structuredClone(snapshot.blobs));
+		this.numBlobs = this.blobs.filter((blob) => blob.lifecycle !== 'exiting').length;
+		this.accumulatedTime = snapshot.accumulatedTime;
+		this.simulationClock = snapshot.simulationClock;
+		this.nextBlobId = snapshot.nextBlobId;
+		this.world = { ...snapshot.world };
+		this.mouseX = snapshot.mouse.x;
+		this.mouseY = snapshot.mouse.y;
+		this.mouseVelX = snapshot.mouse.velocityX;
+		this.mouseVelY = snapshot.mouse.velocityY;
+		this.setGravity({ ...snapshot.gravity });
+		this.setTilt({ ...snapshot.tilt });
+		this.scrollStickiness = snapshot.scrollStickiness;
+		if (snapshot.randomState !== undefined && isSeededRandomSource(this.random)) {
+			this.random.setState(snapshot.randomState);
+		}
+		this.initialized = true;
+	}
+
+	// Adds a blob at runtime and returns its id. Without an explicit
+	// position the blob spawns at the sampled point with the most clearance
+	// from existing blobs' personal space, and grows in from zero presence.
+	addBlob(options: AddBlobOptions = {}): number {
+		if (!this.initialized) {
+			throw new Error('BlobPhysics: addBlob() requires init(); use setBlobCount() before it');
+		}
+
+		const id = this.nextBlobId++;
+		const blob = this.createBlob(id, 0, 0);
+		const spawn =
+			options.x !== undefined && options.y !== undefined
+				? { x: options.x, y: options.y }
+				: this.findSpawnPoint(blob.personalSpace ?? 50);
+
+		blob.baseX = blob.currentX = blob.territoryX = spawn.x;
+		blob.baseY = blob.currentY = blob.territoryY = spawn.y;
+
+		if (options.animate ?? true) {
+			blob.lifecycle = 'entering';
+			blob.presence = 0;
+		}
+
+		this.bindBlobs([...this.blobs, blob]);
+		this.numBlobs++;
+		return id;
+	}
+
+	// Starts the fade-out for a blob; it leaves getBlobs() once its presence
+	// reaches zero. Returns false for unknown or already-exiting ids.
+	removeBlob(id: number, options: BlobCountOptions = {}): boolean {
+		const index = this.blobs.findIndex((blob) => blob.id === id);
+		if (index === -1 || this.blobs[index].lifecycle === 'exiting') return false;
+
+		this.numBlobs--;
+		if (options.animate ?? true) {
+			this.setLifecycle(this.blobs[index], 'exiting');
+		} else {
+			this.bindBlobs(this.blobs.filter((_, i) => i !== index));
+		}
+		return true;
+	}
+
+	// Converges the live (non-exiting) blob count on `count`: fading blobs
+	// are revived before new ones are spawned, and the newest blobs are the
+	// first to go when shrinking.
+	setBlobCount(count: number, options: BlobCountOptions = {}): void {
+		const target = Math.max(0, Math.floor(Number.isFinite(count) ? count : 0));
+		const animate = options.animate ?? true;
+
+		if (!this.initialized) {
+			this.numBlobs = target;
+			return;
+		}
+
+		for (let i = this.blobs.length - 1; i >= 0 && this.numBlobs < target; i--) {
+			const blob = this.blobs[i];
+			if (blob.lifecycle !== 'exiting') continue;
+			this.setLifecycle(blob, animate ? 'entering' : 'active');
+			this.numBlobs++;
+		}
+
+		while (this.numBlobs < target) {
+			this.addBlob({ animate });
+		}
+
+		for (let i = this.blobs.length - 1; i >= 0 && this.numBlobs > target; i--) {
+			const blob = this.blobs[i];
+			if (blob.lifecycle === 'exiting') continue;
+			this.removeBlob(blob.id ?? -1, { animate });
+		}
+	}
+
+	// Subscribes to a simulation event and returns an unsubscribe function.
+	// Events fire synchronously from inside tick(); `timestamp` is the
+	// simulation clock in seconds, not wall-clock time.
+	on<K extends BlobPhysicsEventType>(
+		type: K,
+		handler: BlobPhysicsEventHandler<K>,
+	): () => void {
+		let handlers = this.listeners.get(type);
+		if (!handlers) {
+			handlers = new Set();
+			this.listeners.set(type, handlers);
+		}
+		handlers.add(handler as unknown as BlobPhysicsEventHandler);
+		return () => this.off(type, handler);
+	}
+
+	off<K extends BlobPhysicsEventType>(
+		type: K,
+		handler: BlobPhysicsEventHandler<K>,
+	): void {
+		this.listeners.get(type)?.delete(handler as unknown as BlobPhysicsEventHandler);
+	}
+
+	getBlobCount(): number {
+		return this.numBlobs;
+	}
+
+	// Retunes the running simulation in place: coefficients and the
+	// useSpatialHash/useGaussianSmoothing/useSpringSystem toggles apply from
+	// the next step, springConfig is forwarded to the live SpringSystem, and
+	// blob state is left alone. Invalid topology bounds or pointer field
+	// settings throw before anything changes.
+	setConfig(config: Partial<BlobPhysicsConfig>, options: SetConfigOptions = {}): void {
+		const reset = options.reset ?? false;
+		const topology: BlobTopologyConfig = {
+			...(reset ? DEFAULT_BLOB_TOPOLOGY_CONFIG : this.topology),
+			...config.topology,
+		};
+		const pointerField = resolvePointerField(
+			reset ? DEFAULT_POINTER_FIELD_CONFIG : this.pointerField,
+			config.pointerField,
+		);
+		const ambientField: AmbientFieldConfig = {
+			...(reset ? DEFAULT_AMBIENT_FIELD_CONFIG : this.ambientField),
+			...config.ambientField,
+		};
+		const springConfig = {
+			...(reset ? {} : this.config.springConfig),
+			...config.springConfig,
+		};
+		const next: BlobPhysicsConfig = {
+			...(reset ? DEFAULT_BLOB_PHYSICS_CONFIG : this.config),
+			...config,
+			springConfig,
+		};
+		if (config.topology) next.topology = { ...config.topology };
+		if (config.pointerField) next.pointerField = { ...config.pointerField };
+		if (config.ambientField) next.ambientField = { ...config.ambientField };
+		if (config.depthLayers) next.depthLayers = copyDepthLayersOverride(config.depthLayers);
+		const depthLayers = next.depthLayers ? resolveDepthLayers(next.depthLayers) : null;
+		assertConfig(next, topology, pointerField, ambientField, depthLayers);
+
+		const controlPoints = next.controlPoints ?? DEFAULT_CONTROL_POINTS;
+		if (controlPoints !== (this.config.controlPoints ?? DEFAULT_CONTROL_POINTS)) {
+			for (const blob of this.blobs) resampleOutline(blob, controlPoints);
+		}
+		this.config = next;
+		this.springSystem.setConfig(reset ? { ...DEFAULT_SPRING_CONFIG, ...springConfig } : springConfig);
+
+		// Stale merge contacts must not carry over into a later re-enable.
+		if (this.topology.enabled && !topology.enabled) {
+			for (const blob of this.blobs) {
+				delete blob.mergePartnerId;
+				delete blob.mergeContactTime;
+			}
+		}
+		this.topology = topology;
+		this.pointerField = pointerField;
+		if (
+			ambientField.mode !== this.ambientField.mode ||
+			ambientField.seed !== this.ambientField.seed
+		) {
+			this.ambientNoise = this.createAmbientNoise(ambientField);
+		}
+		this.ambientField = ambientField;
+		this.depthLayers = depthLayers;
+		this.applyPalette();
+	}
+
+	getConfig(): BlobPhysicsConfig {
+		return {
+			...this.config,
+			springConfig: { ...this.config.springConfig },
+			...(this.config.topology ? { topology: { ...this.config.topology } } : {}),
+			...(this.config.pointerField ? { pointerField: { ...this.config.pointerField } } : {}),
+			...(this.config.ambientField ? { ambientField: { ...this.config.ambientField } } : {}),
+			...(this.config.depthLayers
+				? { depthLayers: copyDepthLayersOverride(this.config.depthLayers) }
+				: {}),
+		};
+	}
+
+	getWorld(): PhysicsWorld {
+		return { ...this.world };
+	}
+
+	// Resizes the world in place (e.g. when the container's aspect ratio
+	// changes). Positions, territories and the pointer anchor are remapped
+	// proportionally so blobs keep their relative layout instead of piling
+	// against the new walls; the next step's wall pass settles any overlap.
+	setWorld(world: PhysicsWorld): void {
+		if (!isValidPhysicsWorld(world)) {
+			throw new RangeError('BlobPhysics: world must have finite bounds with max > min');
+		}
+
+		const previous = this.world;
+		if (
+			previous.minX === world.minX &&
+			previous.minY === world.minY &&
+			previous.maxX === world.maxX &&
+			previous.maxY === world.maxY
+		) {
+			return;
+		}
+
+		const next = { ...world };
+		const scaleX = (next.maxX - next.minX) / (previous.maxX - previous.minX);
+		const scaleY = (next.maxY - next.minY) / (previous.maxY - previous.minY);
+		const mapX = (x: number) => next.minX + (x - previous.minX) * scaleX;
+		const mapY = (y: number) => next.minY + (y - previous.minY) * scaleY;
+
+		const { previousX, previousY } = this.store;
+		for (let i = 0; i < this.blobs.length; i++) {
+			const blob = this.blobs[i];
+			blob.baseX = mapX(blob.baseX);
+			blob.baseY = mapY(blob.baseY);
+			blob.currentX = mapX(blob.currentX);
+			blob.currentY = mapY(blob.currentY);
+			previousX[i] = mapX(previousX[i]);
+			previousY[i] = mapY(previousY[i]);
+			if (blob.territoryX !== undefined) blob.territoryX = mapX(blob.territoryX);
+			if (blob.territoryY !== undefined) blob.territoryY = mapY(blob.territoryY);
+		}
+
+		this.mouseX = mapX(this.mouseX);
+		this.mouseY = mapY(this.mouseY);
+		for (const pointer of this.pointers.values()) {
+			pointer.x = mapX(pointer.x);
+			pointer.y = mapY(pointer.y);
+		}
+		this.world = next;
+	}
+
+	// Replaces the set of regions blobs steer around, in physics coordinates.
+	// Zones are an input like the pointer: they are not part of snapshots and
+	// are not remapped by setWorld(), so callers re-derive them on resize.
+	setExclusionZones(zones: readonly ExclusionZone[]): void {
+		if (!zones.every(isValidExclusionZone)) {
+			throw new RangeError('BlobPhysics: exclusion zones need finite, non-inverted geometry');
+		}
+		this.exclusionZones = zones.map((zone) => ({ ...zone }));
+	}
+
+	getExclusionZones(): ExclusionZone[] {
+		return this.exclusionZones.map((zone) => ({ ...zone }));
+	}
+
+	// Places (or moves) a named attractor/repeller. Like exclusion zones,
+	// anchors are inputs: they are not snapshotted or remapped by setWorld().
+	setAnchor(name: string, anchor: FieldAnchor): void {
+		if (!isValidFieldAnchor(anchor)) {
+			throw new RangeError('BlobPhysics: anchors need a finite position and strength and a positive radius');
+		}
+		this.anchors.set(name, { ...anchor });
+	}
+
+	removeAnchor(name: string): boolean {
+		return this.anchors.delete(name);
+	}
+
+	getAnchors(): Record<string, FieldAnchor> {
+		const anchors: Record<string, FieldAnchor> = {};
+		for (const [name, anchor] of this.anchors) {
+			anchors[name] = { ...anchor };
+		}
+		return anchors;
+	}
+
+	// Registers a custom force field evaluated for every blob on every fixed
+	// step, after the built-in input fields. Re-adding an id replaces it; the
+	// fields run in registration order.
+	addField(id: string, field: ForceField, options: ForceFieldOptions = {}): void {
+		const maxMagnitude = options.maxMagnitude ?? Infinity;
+		if (!(maxMagnitude >= 0)) {
+			throw new RangeError('BlobPhysics: field maxMagnitude must be non-negative');
+		}
+		this.fields.set(id, { field, maxMagnitude });
+	}
+
+	removeField(id: string): boolean {
+		return this.fields.delete(id);
+	}
+
 	setGravity(gravity: GravityVector): void {
 		this.gravity = gravity;
 		this.gravityField = directionalBiasField(
@@ -170,6 +940,31 @@ export class BlobPhysics {
 		this.scrollStickiness = value;
 	}
 
+	// Drives the directional scroll field from ScrollHandler state, meant to
+	// be refreshed every frame. Like pointers, it is an input and not part
+	// of snapshots.
+	setScrollField({ direction, forces }: ScrollFieldInput): void {
+		if (!Number.isFinite(direction) || !forces.every((force) => Number.isFinite(force.strength))) {
+			throw new RangeError('BlobPhysics: scroll field needs a finite direction and force strengths');
+		}
+
+		let lag = 0;
+		let burst = 0;
+		for (const force of forces) {
+			const randomness = Number.isFinite(force.randomness) ? force.randomness : 1;
+			const weighted = Math.max(0, force.strength) * randomness;
+			if (force.explosive) {
+				burst += weighted;
+			} else {
+				lag += weighted;
+			}
+		}
+
+		this.scrollDirection = Math.sign(direction);
+		this.scrollLag = lag;
+		this.scrollBurst = burst;
+	}
+
 	
 
 
@@ -196,6 +991,7 @@ export class BlobPhysics {
 		let substeps = 0;
 		while (this.accumulatedTime >= FIXED_TIMESTEP_SECONDS && substeps < MAX_PHYSICS_SUBSTEPS) {
 			this.simulationClock += FIXED_TIMESTEP_SECONDS;
+			this.store.savePrevious();
 			this.step(FIXED_TIMESTEP_SECONDS, this.simulationClock);
 			this.accumulatedTime -= FIXED_TIMESTEP_SECONDS;
 			substeps++;
@@ -203,6 +999,15 @@ export class BlobPhysics {
 	}
 
 	private step(deltaTime: number, time: number): void {
+		this.updateBlobLifecycles(deltaTime);
+
+		const previousContacts = this.activeContacts;
+		this.activeContacts = this.previousContacts;
+		this.previousContacts = previousContacts;
+		this.activeContacts.clear();
+		if (!this.hasListeners('collision')) {
+			this.previousContacts.clear();
+		}
 
 		if (this.config.useSpatialHash) {
 			this.spatialHash.rebuild(this.blobs);
@@ -216,51 +1021,384 @@ export class BlobPhysics {
 		}
 
 
-		this.blobs.forEach((blob) =>
-			this.updateScreensaverPhysics(blob, deltaTime, time)
-		);
+		const fieldContext = this.fields.size > 0 ? this.updateFieldContext(deltaTime, time) : null;
+		for (const blob of this.blobs) {
+			this.updateScreensaverPhysics(blob, deltaTime, time, fieldContext);
+		}
+
+		if (this.topology.enabled) {
+			this.updateTopology(deltaTime);
+		}
+
+		this.updateSettleState(deltaTime);
 
 
 		this.mouseVelX *= 0.96;
 		this.mouseVelY *= 0.96;
+		this.scrollLag *= SCROLL_FIELD_DECAY;
+		this.scrollBurst *= SCROLL_FIELD_DECAY;
+		if (this.scrollLag < 0.01) this.scrollLag = 0;
+		if (this.scrollBurst < 0.01) this.scrollBurst = 0;
+		for (const pointer of this.pointers.values()) {
+			pointer.velocityX *= 0.96;
+			pointer.velocityY *= 0.96;
+		}
 	}
 
 	
 
 
-	private applyAntiClusteringWithSpatialHash(): void {
-		const maxPersonalSpace = 60; 
+	// Lays the store out for a new blob set. Views keep their identity;
+	// new, cloned and imported blobs come back as views of the store.
+	private bindBlobs(blobs: readonly ConvexBlob[]): void {
+		this.blobs = this.store.bind(blobs);
+		this.applyPalette();
+		if (this.neighborScratch.length < this.blobs.length) {
+			const capacity = Math.max(this.blobs.length, this.neighborScratch.length * 2);
+			this.neighborScratch = new Int32Array(capacity);
+			this.personalSpaceScratch = new Float64Array(capacity);
+			this.repulsionScratch = new Float64Array(capacity);
+		}
+	}
+
+	private hasListeners(type: BlobPhysicsEventType): boolean {
+		return (this.listeners.get(type)?.size ?? 0) > 0;
+	}
+
+	private emit<K extends BlobPhysicsEventType>(type: K, data: BlobPhysicsEventMap[K]): void {
+		const handlers = this.listeners.get(type);
+		if (!handlers || handlers.size === 0) return;
+
+		const event = { type, timestamp: this.simulationClock, data } as BlobPhysicsEvent;
+		// Copy first so a handler can unsubscribe itself mid-dispatch.
+		for (const handler of [...handlers]) {
+			handler(event);
+		}
+	}
+
+	private recordContact(
+		blob: ConvexBlob,
+		other: ConvexBlob,
+		depth: number,
+		dx: number,
+		dy: number,
+	): void {
+		const key = `${blob.id ?? 0}:${other.id ?? 0}`;
+		this.activeContacts.add(key);
+		if (this.previousContacts.has(key)) return;
+
+		this.emit('collision', {
+			blobA: blob.id ?? 0,
+			blobB: other.id ?? 0,
+			depth,
+			x: blob.currentX + dx * 0.5,
+			y: blob.currentY + dy * 0.5,
+		});
+	}
+
+	private updateSettleState(deltaTime: number): void {
+		for (const blob of this.blobs) {
+			const speed = Math.sqrt(blob.velocityX * blob.velocityX + blob.velocityY * blob.velocityY);
+
+			if (blob.isSettled) {
+				if (speed <= WAKE_SPEED) continue;
+				blob.isSettled = false;
+				blob.settleTime = 0;
+				this.emit('wake', { blobId: blob.id ?? 0, x: blob.currentX, y: blob.currentY, speed });
+			} else if (speed < SETTLE_SPEED) {
+				blob.settleTime = (blob.settleTime ?? 0) + deltaTime;
+				if (blob.settleTime < SETTLE_SECONDS) continue;
+				blob.isSettled = true;
+				this.emit('settle', { blobId: blob.id ?? 0, x: blob.currentX, y: blob.currentY, speed });
+			} else {
+				blob.settleTime = 0;
+			}
+		}
+	}
+
+	private updateBlobLifecycles(deltaTime: number): void {
+		let removed = false;
 
 		for (const blob of this.blobs) {
-			const neighbors = this.spatialHash.queryNeighbors(blob, maxPersonalSpace);
+			if (blob.lifecycle === 'entering') {
+				blob.presence = Math.min(1, (blob.presence ?? 0) + deltaTime / BLOB_ENTER_SECONDS);
+				if (blob.presence === 1) this.setLifecycle(blob, 'active');
+			} else if (blob.lifecycle === 'exiting') {
+				blob.presence = Math.max(0, (blob.presence ?? 1) - deltaTime / BLOB_EXIT_SECONDS);
+				removed ||= blob.presence === 0;
+			}
+		}
+
+		if (removed) {
+			this.bindBlobs(
+				this.blobs.filter((blob) => !(blob.lifecycle === 'exiting' && blob.presence === 0)),
+			);
+		}
+	}
+
+	// Fully-present blobs drop the lifecycle fields entirely so mount-time
+	// blobs and grown-in blobs are indistinguishable afterwards.
+	private setLifecycle(blob: ConvexBlob, lifecycle: BlobLifecycle): void {
+		if (lifecycle === 'active') {
+			delete blob.lifecycle;
+			delete blob.presence;
+			return;
+		}
+
+		blob.presence ??= 1;
+		blob.lifecycle = lifecycle;
+	}
 
-			for (const other of neighbors) {
-				const dx = other.currentX - blob.currentX;
-				const dy = other.currentY - blob.currentY;
+	// Merges first, then splits, each bounded by the configured blob count.
+	// Only fully-present blobs outside their cooldown take part, so a blob
+	// that just grew in, is fading out, or just changed shape is left alone.
+	private updateTopology(deltaTime: number): void {
+		const { minBlobs, maxBlobs, mergeDwellSeconds } = this.topology;
+		const absorbed = this.absorbedScratch;
+		absorbed.clear();
+
+		for (let i = 0; i < this.blobs.length; i++) {
+			const blob = this.blobs[i];
+			if (absorbed.has(blob) || !this.isTopologyEligible(blob)) {
+				delete blob.mergePartnerId;
+				delete blob.mergeContactTime;
+				continue;
+			}
+
+			let partner: ConvexBlob | undefined;
+			let closest = Infinity;
+			for (let j = i + 1; j < this.blobs.length; j++) {
+				const other = this.blobs[j];
+				if (absorbed.has(other) || !this.isTopologyEligible(other)) continue;
+
+				const distance = Math.sqrt(
+					(other.currentX - blob.currentX) ** 2 + (other.currentY - blob.currentY) ** 2,
+				);
+				const mergeDistance = Math.max(
+					blob.mergeThreshold ?? blob.size * 0.5,
+					other.mergeThreshold ?? other.size * 0.5,
+				);
+				if (distance < mergeDistance && distance < closest) {
+					partner = other;
+					closest = distance;
+				}
+			}
+
+			if (!partner) {
+				delete blob.mergePartnerId;
+				delete blob.mergeContactTime;
+				continue;
+			}
+
+			blob.mergeContactTime =
+				blob.mergePartnerId === partner.id ? (blob.mergeContactTime ?? 0) + deltaTime : deltaTime;
+			blob.mergePartnerId = partner.id;
+
+			if (blob.mergeContactTime >= mergeDwellSeconds && this.numBlobs > minBlobs) {
+				absorbed.add(this.mergeBlobs(blob, partner));
+			}
+		}
+
+		const survivors = absorbed.size > 0 ? this.blobs.filter((blob) => !absorbed.has(blob)) : this.blobs;
+		absorbed.clear();
+		let halves: ConvexBlob[] | undefined;
+		for (let i = 0; i < survivors.length && this.numBlobs < maxBlobs; i++) {
+			const blob = survivors[i];
+			if (this.isTopologyEligible(blob) && this.isStretchedPastSplit(blob)) {
+				(halves ??= []).push(this.splitBlob(blob));
+			}
+		}
+
+		if (survivors !== this.blobs || halves) {
+			this.bindBlobs(halves ? [...survivors, ...halves] : survivors);
+		}
+	}
+
+	private isTopologyEligible(blob: ConvexBlob): boolean {
+		return (
+			blob.lifecycle === undefined &&
+			(blob.lastTopologyTime === undefined ||
+				this.simulationClock - blob.lastTopologyTime >= this.topology.cooldownSeconds)
+		);
+	}
+
+	// Coalesces two blobs into the larger one and returns the other, which
+	// the caller drops from the array. Area (and so mass) is conserved: the
+	// survivor takes the summed polygon area, the area-weighted centroid and
+	// momentum, and a colour mix weighted by the same areas.
+	private mergeBlobs(first: ConvexBlob, second: ConvexBlob): ConvexBlob {
+		const firstArea = getBlobArea(first);
+		const secondArea = getBlobArea(second);
+		const [survivor, absorbed] = firstArea >= secondArea ? [first, second] : [second, first];
+		const survivorArea = Math.max(firstArea, secondArea);
+		const totalArea = firstArea + secondArea;
+		const absorbedShare = (totalArea - survivorArea) / totalArea;
+
+		survivor.currentX += (absorbed.currentX - survivor.currentX) * absorbedShare;
+		survivor.currentY += (absorbed.currentY - survivor.currentY) * absorbedShare;
+		survivor.velocityX += (absorbed.velocityX - survivor.velocityX) * absorbedShare;
+		survivor.velocityY += (absorbed.velocityY - survivor.velocityY) * absorbedShare;
+		scaleBlob(survivor, Math.sqrt(totalArea / survivorArea));
+
+		survivor.colorSources = mixColorSources(
+			getColorSources(survivor),
+			getColorSources(absorbed),
+			absorbedShare,
+		);
+		survivor.color = `color-mix(in srgb, ${absorbed.color} ${formatPercent(absorbedShare)}, ${survivor.color})`;
+
+		delete survivor.mergePartnerId;
+		delete survivor.mergeContactTime;
+		survivor.lastTopologyTime = this.simulationClock;
+		this.numBlobs--;
+		return absorbed;
+	}
+
+	private isStretchedPastSplit(blob: ConvexBlob): boolean {
+		if (blob.size / Math.SQRT2 < MIN_SPLIT_SIZE) return false;
+
+		let widest = blob.size;
+		if (blob.controlPoints) {
+			for (const point of blob.controlPoints) {
+				widest = Math.max(widest, point.radius);
+			}
+		}
+
+		const speed = Math.sqrt(blob.velocityX * blob.velocityX + blob.velocityY * blob.velocityY);
+		const lag = speed * (blob.stretchability ?? 1) * SPLIT_STRETCH_LAG_STEPS;
+		return widest + lag > (blob.splitThreshold ?? blob.size * 1.5);
+	}
+
+	// Pinches a blob into two equal-area halves along its direction of
+	// travel. The original keeps its id and leads; the new half trails it
+	// and inherits its colour. Both keep the parent's momentum plus an
+	// equal and opposite separation kick. Returns the new half for the
+	// caller to add.
+	private splitBlob(blob: ConvexBlob): ConvexBlob {
+		const speed = Math.sqrt(blob.velocityX * blob.velocityX + blob.velocityY * blob.velocityY);
+		const angle = speed > 0 ? Math.atan2(blob.velocityY, blob.velocityX) : this.random() * Math.PI * 2;
+		const axisX = Math.cos(angle);
+		const axisY = Math.sin(angle);
+
+		scaleBlob(blob, Math.SQRT1_2);
+		delete blob.mergePartnerId;
+		delete blob.mergeContactTime;
+		blob.lastTopologyTime = this.simulationClock;
+
+		const id = this.nextBlobId++;
+		const half: ConvexBlob = {
+			...structuredClone(blob),
+			id,
+			gradientId: `blob-gradient-${id}`,
+			colorSources: getColorSources(blob),
+			phase: this.random() * Math.PI * 2,
+			driftAngle: this.random() * Math.PI * 2,
+		};
+
+		const offset = blob.size * 0.6;
+		blob.currentX += axisX * offset;
+		blob.currentY += axisY * offset;
+		blob.velocityX += axisX * SPLIT_SEPARATION_VELOCITY;
+		blob.velocityY += axisY * SPLIT_SEPARATION_VELOCITY;
+		half.currentX -= axisX * offset;
+		half.currentY -= axisY * offset;
+		half.velocityX -= axisX * SPLIT_SEPARATION_VELOCITY;
+		half.velocityY -= axisY * SPLIT_SEPARATION_VELOCITY;
+		half.baseX = half.territoryX = half.currentX;
+		half.baseY = half.territoryY = half.currentY;
+
+		this.numBlobs++;
+		return half;
+	}
+
+	private findSpawnPoint(personalSpace: number): { x: number; y: number } {
+		const { minX, minY, maxX, maxY } = this.world;
+		let best = getWorldCenter(this.world);
+		let bestClearance = -Infinity;
+
+		for (let i = 0; i < SPAWN_CANDIDATES; i++) {
+			const x = minX + 20 + this.random() * (maxX - minX - 40);
+			const y = minY + 20 + this.random() * (maxY - minY - 40);
+
+			let clearance = Infinity;
+			for (const other of this.blobs) {
+				if (other.lifecycle === 'exiting') continue;
+				const required = Math.max(personalSpace, other.personalSpace || 50);
+				const distance = Math.sqrt((other.currentX - x) ** 2 + (other.currentY - y) ** 2);
+				clearance = Math.min(clearance, distance - required);
+			}
+
+			if (clearance > bestClearance) {
+				best = { x, y };
+				bestClearance = clearance;
+			}
+			if (clearance >= 0) break;
+		}
+
+		return best;
+	}
+
+	private applyAntiClusteringWithSpatialHash(): void {
+		const maxPersonalSpace = 60; 
+		const trackContacts = this.hasListeners('collision');
+		const { blobs, spatialHash } = this;
+		const { positionX, positionY, velocityX, velocityY } = this.store;
+		const neighbors = this.neighborScratch;
+		const personalSpace = this.loadPersonalSpace();
+		const repulsion = this.repulsionScratch;
+		const antiClusteringStrength = this.config.antiClusteringStrength;
+		const now = this.now();
+
+		for (let i = 0; i < blobs.length; i++) {
+			const x = positionX[i];
+			const y = positionY[i];
+			const found = spatialHash.queryIndices(x, y, maxPersonalSpace, i, neighbors);
+			let repelled = false;
+
+			for (let n = 0; n < found; n++) {
+				const j = neighbors[n];
+				const dx = positionX[j] - x;
+				const dy = positionY[j] - y;
 				const distance = Math.sqrt(dx * dx + dy * dy);
 
-				const requiredDistance = Math.max(blob.personalSpace || 50, other.personalSpace || 50);
+				const requiredDistance = Math.max(personalSpace[i], personalSpace[j]);
 
 				if (distance < requiredDistance && distance > 0) {
 					const overlap = requiredDistance - distance;
-					const repulsionForce = (overlap / requiredDistance) * 0.055 * this.config.antiClusteringStrength / 0.15;
+					const repulsionForce = (overlap / requiredDistance) * 0.055 * antiClusteringStrength / 0.15;
 
 					const normalizedDx = dx / distance;
 					const normalizedDy = dy / distance;
 
-					const forceMultiplier = blob.repulsionStrength || 0.03;
+					const forceMultiplier = repulsion[i];
 					const proximityMultiplier = distance < requiredDistance * 0.7 ? 3.5 : 1.0;
 
 					
-					blob.velocityX -= normalizedDx * repulsionForce * forceMultiplier * proximityMultiplier * 0.5;
-					blob.velocityY -= normalizedDy * repulsionForce * forceMultiplier * proximityMultiplier * 0.5;
-
-					blob.lastRepulsionTime = Date.now();
+					velocityX[i] -= normalizedDx * repulsionForce * forceMultiplier * proximityMultiplier * 0.5;
+					velocityY[i] -= normalizedDy * repulsionForce * forceMultiplier * proximityMultiplier * 0.5;
+					repelled = true;
+
+					// Each pair is visited from both sides; report it once.
+					if (trackContacts && (blobs[i].id ?? 0) < (blobs[j].id ?? 0)) {
+						this.recordContact(blobs[i], blobs[j], overlap, dx, dy);
+					}
 				}
 			}
+
+			if (repelled) blobs[i].lastRepulsionTime = now;
 		}
 	}
 
+	// Per-step copies of each blob's personal space and repulsion strength
+	// (with their defaults), indexed like the store.
+	private loadPersonalSpace(): Float64Array {
+		for (let i = 0; i < this.blobs.length; i++) {
+			this.personalSpaceScratch[i] = this.blobs[i].personalSpace || 50;
+			this.repulsionScratch[i] = this.blobs[i].repulsionStrength || 0.03;
+		}
+		return this.personalSpaceScratch;
+	}
+
 	
 
 
@@ -276,32 +1414,208 @@ export class BlobPhysics {
 	
 
 
-	// Mutate blob.color in place when themeColors is supplied — kills the
-	// 300 object spreads/sec the previous .map(blob => ({...blob, color}))
-	// performed at 5 blobs × 60 fps. Return a *shallow copy* so the array
-	// reference is fresh each call: TinyVectors.svelte assigns the result
-	// to a $state rune inside its rAF loop, and Svelte 5's signal compares
-	// by reference — returning the same array would freeze the animation
-	// after frame 1. Same blob object refs across calls; only the outer
-	// array shell is reallocated.
-	getBlobs(themeColors?: string[]): ConvexBlob[] {
-		if (themeColors && themeColors.length > 0) {
-			for (let i = 0; i < this.blobs.length; i++) {
-				this.blobs[i].color = themeColors[i % themeColors.length];
+	// Replaces the set of active pointers; each produces its own pointer
+	// field, so several fingers stir the blobs at once. Velocities are
+	// tracked per id for wake mode. While any pointer is active the first
+	// one also drives the single pointer position (scroll stickiness, field
+	// context); an empty set returns it to neutral. Like anchors, pointers
+	// are inputs and are not part of snapshots.
+	setPointers(pointers: readonly PointerInput[]): void {
+		for (const pointer of pointers) {
+			const strength = pointer.strength ?? 1;
+			const valid =
+				Number.isFinite(pointer.x) &&
+				Number.isFinite(pointer.y) &&
+				Number.isFinite(strength) &&
+				strength >= 0;
+			if (!valid) {
+				throw new RangeError('BlobPhysics: pointers need finite coordinates and a non-negative strength');
 			}
 		}
+
+		const hadPointers = this.pointers.size > 0;
+		const next = new Map<number, TrackedPointer>();
+		for (const pointer of pointers) {
+			const previous = this.pointers.get(pointer.id);
+			next.set(pointer.id, {
+				x: pointer.x,
+				y: pointer.y,
+				velocityX: previous ? pointer.x - previous.x : 0,
+				velocityY: previous ? pointer.y - previous.y : 0,
+				strength: pointer.strength ?? 1,
+			});
+		}
+		this.pointers = next;
+
+		if (pointers.length > 0) {
+			this.updateMousePosition(pointers[0].x, pointers[0].y);
+		} else if (hadPointers) {
+			this.resetMousePosition();
+		}
+	}
+
+	// Returns the pointer anchor to the world center, which the pointer
+	// field treats as "no pointer" — the neutral state stale or exited
+	// pointer input must fall back to.
+	resetMousePosition(): void {
+		const center = getWorldCenter(this.world);
+		this.mouseX = center.x;
+		this.mouseY = center.y;
+		this.mouseVelX = 0;
+		this.mouseVelY = 0;
+	}
+
+	
+	
+	
+	// Return a *shallow copy* so the array reference is fresh each call:
+	// TinyVectors.svelte assigns the result to a $state rune inside its rAF
+	// loop, and Svelte 5's signal compares by reference — returning the same
+	// array would freeze the animation after frame 1. Same blob object refs
+	// across calls; only the outer array shell is reallocated. Colours come
+	// from setPalette(), so reading blobs never changes the simulation.
+	// Passing theme colours is kept for existing callers and is the same as
+	// calling setPalette(themeColors) first.
+	getBlobs(themeColors?: readonly (string | ThemeColor)[]): ConvexBlob[] {
+		if (themeColors) this.setPalette(themeColors);
 		return this.blobs.slice();
 	}
 
+	// Colours the blobs from a theme palette, in place, for now and for every
+	// blob added later. Colours are keyed by blob id, not array index, so
+	// removing a blob never shifts the colours of the blobs after it.
+	// ThemeColor entries also carry behaviour and a depth layer, bound here
+	// so they move with the colour; a merged blob takes its dominant
+	// colour's. Both feed the simulation (pointer attraction, scroll
+	// affinity, layer speed), so a headless or replayed run sets the same
+	// palette as the rendered one. An empty palette is ignored.
+	setPalette(themeColors: readonly (string | ThemeColor)[]): void {
+		if (themeColors.length === 0) return;
+		this.palette = themeColors.map((color) => (typeof color === 'string' ? color : { ...color }));
+		this.applyPalette();
+	}
+
+	// Fraction of a fixed step banked in the accumulator: how far real time
+	// has run past the last stepped state, in [0, 1).
+	getInterpolationAlpha(): number {
+		return Math.min(Math.max(this.accumulatedTime / FIXED_TIMESTEP_SECONDS, 0), 1);
+	}
+
+	// Render state for the current frame. tick() only advances in whole
+	// fixed steps, so on displays faster than 60 Hz getBlobs() repeats the
+	// same positions across frames; this blends the previous step's
+	// positions and control point radii toward the current ones by
+	// getInterpolationAlpha(), trailing the simulation by up to one step.
+	// Returns plain copies with everything else as getBlobs() has it; the
+	// simulation and the blobs from getBlobs() are untouched. The copies
+	// are reused from frame to frame, so each call overwrites the last.
+	// Theme colours are forwarded to setPalette(), as in getBlobs().
+	getInterpolatedBlobs(themeColors?: readonly (string | ThemeColor)[]): ConvexBlob[] {
+		if (themeColors) this.setPalette(themeColors);
+		return this.store.interpolate(this.getInterpolationAlpha()).slice();
+	}
+
+	// How much the scene visibly moved over the last step: per blob, half
+	// the squared displacement of its center plus half the squared change
+	// of each control radius, averaged over the blobs (physics units per
+	// step, squared). Ambient drift sits around 0.002–0.005; flings, bursts
+	// and hard repulsion run well above it. Zero before the first step.
+	getMotionEnergy(): number {
+		const {
+			positionX,
+			positionY,
+			previousX,
+			previousY,
+			radius,
+			previousRadius,
+			pointStride,
+			pointCount,
+		} = this.store;
+		const count = this.blobs.length;
+		if (count === 0) return 0;
+
+		let energy = 0;
+		for (let slot = 0; slot < count; slot++) {
+			const dx = positionX[slot] - previousX[slot];
+			const dy = positionY[slot] - previousY[slot];
+			energy += 0.5 * (dx * dx + dy * dy);
+			const offset = slot * pointStride;
+			for (let i = offset; i < offset + pointCount[slot]; i++) {
+				const dr = radius[i] - previousRadius[i];
+				energy += 0.5 * dr * dr;
+			}
+		}
+		return energy / count;
+	}
+
+	getMousePosition(): { x: number; y: number } {
+		return { x: this.mouseX, y: this.mouseY };
+	}
+
+	private applyPalette(): void {
+		const palette = this.palette;
+		if (!palette) return;
+
+		for (let i = 0; i < this.blobs.length; i++) {
+			const blob = this.blobs[i];
+			const slot = blob.colorSources ? blob.colorSources[0].id : (blob.id ?? i);
+			blob.color = blob.colorSources
+				? blendPaletteColors(blob.colorSources, palette)
+				: colorOf(palette[slot % palette.length]);
+			this.bindColorMetadata(blob, palette, slot);
+		}
+	}
+
+	// Attractive colours feel the pointer and scroll affinity comes from the
+	// colour (blended by weight on merged blobs). A plain colour string
+	// carries no behaviour: the blob stays attractive and keeps its own
+	// affinity.
+	private bindColorMetadata(
+		blob: ConvexBlob,
+		palette: readonly (string | ThemeColor)[],
+		slot: number,
+	): void {
+		const entry = palette[slot % palette.length];
+		let layer: DepthLayer | undefined;
+		if (typeof entry === 'string') {
+			blob.isAttractive = true;
+		} else {
+			layer = entry.layer;
+			blob.isAttractive = entry.attractive;
+			blob.scrollAffinity = blob.colorSources
+				? blendScrollAffinity(blob.colorSources, palette, blob.scrollAffinity)
+				: entry.scrollAffinity;
+		}
+
+		if (layer) {
+			blob.layer = layer;
+		} else if (blob.layer !== undefined) {
+			delete blob.layer;
+		}
+
+		if (this.depthLayers) {
+			blob.depthScale = getDepthScale(this.depthLayers[layer ?? 'mid'], blob.phase);
+		} else if (blob.depthScale !== undefined) {
+			delete blob.depthScale;
+		}
+	}
+
 	
 
 
 	generateSmoothBlobPath(blob: ConvexBlob): string {
+		// Grow-in/fade-out blobs render scaled by their presence, depth
+		// layers scale them by depthScale, and scrolling stretches the
+		// outline vertically at constant area; the simulated size and radii
+		// stay untouched.
+		const presence = (blob.presence ?? 1) * (blob.depthScale ?? 1);
+		const stretchY = 1 + (blob.scrollStretch ?? 0);
+
 		if (!blob.controlPoints || blob.controlPoints.length < 3) {
 			
 			const displayX = blob.currentX;
 			const displayY = blob.currentY;
-			const displaySize = blob.size;
+			const displaySize = blob.size * presence;
 
 			return `M ${displayX - displaySize},${displayY}
 					A ${displaySize},${displaySize} 0 1,1 ${displayX + displaySize},${displayY}
@@ -313,8 +1627,8 @@ export class BlobPhysics {
 
 		
 		const points = blob.controlPoints.map((point) => {
-			const x = displayX + Math.cos(point.angle) * point.radius;
-			const y = displayY + Math.sin(point.angle) * point.radius;
+			const x = displayX + (Math.cos(point.angle) * point.radius * presence) / stretchY;
+			const y = displayY + Math.sin(point.angle) * point.radius * presence * stretchY;
 			return { x, y };
 		});
 
@@ -349,128 +1663,144 @@ export class BlobPhysics {
 	
 
 	private initializeBlobs(): void {
-		this.blobs = [];
+		const blobs: ConvexBlob[] = [];
+		this.nextBlobId = 0;
+
+		const { minX, minY, maxX, maxY } = this.world;
+		const aspect = (maxX - minX) / (maxY - minY);
 
 		for (let i = 0; i < this.numBlobs; i++) {
-			
-			const cols = Math.ceil(Math.sqrt(this.numBlobs));
+			// Grid columns follow the world's aspect ratio (sqrt(n) for the
+			// square default) so wide and tall worlds get evenly sized cells.
+			const cols = Math.min(this.numBlobs, Math.ceil(Math.sqrt(this.numBlobs * aspect)));
 			const rows = Math.ceil(this.numBlobs / cols);
 			const col = i % cols;
 			const row = Math.floor(i / cols);
 
 			
-			const cellWidth = (this.PHYSICS_MAX - this.PHYSICS_MIN - 40) / cols;
-			const cellHeight = (this.PHYSICS_MAX - this.PHYSICS_MIN - 40) / rows;
+			const cellWidth = (maxX - minX - 40) / cols;
+			const cellHeight = (maxY - minY - 40) / rows;
 
 			
-			const baseX = this.PHYSICS_MIN + 20 + col * cellWidth + cellWidth / 2 + (Math.random() - 0.5) * cellWidth * 0.5;
-			const baseY = this.PHYSICS_MIN + 20 + row * cellHeight + cellHeight / 2 + (Math.random() - 0.5) * cellHeight * 0.5;
+			const baseX = minX + 20 + col * cellWidth + cellWidth / 2 + (this.random() - 0.5) * cellWidth * 0.5;
+			const baseY = minY + 20 + row * cellHeight + cellHeight / 2 + (this.random() - 0.5) * cellHeight * 0.5;
 
 			
-			const clampedX = Math.max(this.PHYSICS_MIN + 20, Math.min(this.PHYSICS_MAX - 20, baseX));
-			const clampedY = Math.max(this.PHYSICS_MIN + 20, Math.min(this.PHYSICS_MAX - 20, baseY));
+			const clampedX = Math.max(minX + 20, Math.min(maxX - 20, baseX));
+			const clampedY = Math.max(minY + 20, Math.min(maxY - 20, baseY));
 
-			
-			const baseSize = 15 + Math.random() * 12;
+			blobs.push(this.createBlob(this.nextBlobId++, clampedX, clampedY));
+		}
 
-			
-			const numControlPoints = 8;
-			const controlPoints = [];
-			const controlVelocities = [];
-
-			for (let j = 0; j < numControlPoints; j++) {
-				const pointAngle = (j / numControlPoints) * Math.PI * 2;
-				const radiusVariation = 0.8 + Math.random() * 0.35;
-				const pointRadius = baseSize * radiusVariation;
-
-				controlPoints.push({
-					radius: pointRadius,
-					angle: pointAngle,
-					targetRadius: pointRadius,
-					baseRadius: pointRadius,
-					pressure: 1.0,
-					adhesion: 0.15 + Math.random() * 0.1,
-					tension: 0.3 + Math.random() * 0.15,
-				});
-
-				controlVelocities.push({
-					radialVelocity: 0,
-					angularVelocity: (Math.random() - 0.5) * 0.0004,
-					pressureVelocity: 0,
-				});
-			}
+		this.bindBlobs(blobs);
+	}
+
+	private createBlob(id: number, x: number, y: number): ConvexBlob {
+		
+		const minRadius = this.config.minRadius ?? DEFAULT_MIN_RADIUS;
+		const maxRadius = this.config.maxRadius ?? DEFAULT_MAX_RADIUS;
+		const baseSize = minRadius + this.random() * (maxRadius - minRadius);
+		
+		const numControlPoints = this.config.controlPoints ?? DEFAULT_CONTROL_POINTS;
+		const controlPoints = [];
+		const controlVelocities = [];
+
+		for (let j = 0; j < numControlPoints; j++) {
+			const pointAngle = (j / numControlPoints) * Math.PI * 2;
+			const radiusVariation = 0.8 + this.random() * 0.35;
+			const pointRadius = baseSize * radiusVariation;
+
+			controlPoints.push({
+				radius: pointRadius,
+				angle: pointAngle,
+				targetRadius: pointRadius,
+				baseRadius: pointRadius,
+				pressure: 1.0,
+				adhesion: 0.15 + this.random() * 0.1,
+				tension: 0.3 + this.random() * 0.15,
+			});
 
-			this.blobs.push({
-				baseX: clampedX,
-				baseY: clampedY,
-				currentX: clampedX,
-				currentY: clampedY,
-				velocityX: (Math.random() - 0.5) * 0.02,
-				velocityY: (Math.random() - 0.5) * 0.02,
-				size: baseSize,
-				elasticity: 0.0004 + Math.random() * 0.0002,
-				viscosity: 0.995 + Math.random() * 0.003,
-				phase: Math.random() * Math.PI * 2,
-				speed: 0.003 + Math.random() * 0.002,
-				color: `hsl(${(i * 30) % 360}, 70%, 60%)`,
-				gradientId: `blob-gradient-${i}`,
-				intensity: 0.65 + Math.random() * 0.2,
-				stickiness: 2,
-				isAttractive: i % 2 === 0,
-				mouseDistance: 100,
-				isStuck: false,
-				radiusVariations: [],
-				fluidMass: 0.5 + Math.random() * 0.25,
-				scrollAffinity: 0.3 + Math.random() * 0.5,
-				surfaceTension: 0.02 + Math.random() * 0.01,
-				density: 0.4 + Math.random() * 0.1,
-				flowResistance: 0.002 + Math.random() * 0.001,
-				controlPoints,
-				controlVelocities,
-				deformationStrength: 0.3 + Math.random() * 0.15,
-				cohesion: 0.05 + Math.random() * 0.03,
-				stretchability: 0.8 + Math.random() * 0.3,
-				lastCollisionTime: 0,
-				mergeThreshold: baseSize * 0.5,
-				splitThreshold: baseSize * 1.5,
-				isSettled: false,
-				settleTime: 0,
-				groundContactPoints: [],
-				restHeight: baseSize * 0.7,
-				wetting: 0.15 + Math.random() * 0.1,
-				contactAngle: 70 + Math.random() * 30,
-				pressureDistribution: new Array(numControlPoints).fill(1.0),
-				chaosLevel: 0,
-				turbulenceDecay: 0.985,
-				expansionPhase: false,
-				expansionTime: 0,
-				maxExpansionTime: 20 + Math.random() * 40,
-				wallBounceCount: 0,
-				lastBounceTime: 0,
-				driftAngle: Math.random() * Math.PI * 2,
-				driftSpeed: 0.01 + Math.random() * 0.015,
-				territoryRadius: 100 + Math.random() * 60,
-				territoryX: clampedX,
-				territoryY: clampedY,
-				personalSpace: 35 + Math.random() * 20,
-				repulsionStrength: 0.025 + Math.random() * 0.015,
-				lastRepulsionTime: 0,
+			controlVelocities.push({
+				radialVelocity: 0,
+				angularVelocity: (this.random() - 0.5) * 0.0004,
+				pressureVelocity: 0,
 			});
 		}
+
+		return {
+			id,
+			baseX: x,
+			baseY: y,
+			currentX: x,
+			currentY: y,
+			velocityX: (this.random() - 0.5) * 0.02,
+			velocityY: (this.random() - 0.5) * 0.02,
+			size: baseSize,
+			elasticity: 0.0004 + this.random() * 0.0002,
+			viscosity: 0.995 + this.random() * 0.003,
+			phase: this.random() * Math.PI * 2,
+			speed: 0.003 + this.random() * 0.002,
+			color: `hsl(${(id * 30) % 360}, 70%, 60%)`,
+			gradientId: `blob-gradient-${id}`,
+			intensity: 0.65 + this.random() * 0.2,
+			stickiness: 2,
+			// Every blob answers the pointer until a ThemeColor says otherwise.
+			isAttractive: true,
+			mouseDistance: 100,
+			isStuck: false,
+			radiusVariations: [],
+			fluidMass: 0.5 + this.random() * 0.25,
+			scrollAffinity: 0.3 + this.random() * 0.5,
+			surfaceTension: 0.02 + this.random() * 0.01,
+			density: 0.4 + this.random() * 0.1,
+			flowResistance: 0.002 + this.random() * 0.001,
+			controlPoints,
+			controlVelocities,
+			deformationStrength: 0.3 + this.random() * 0.15,
+			cohesion: 0.05 + this.random() * 0.03,
+			stretchability: 0.8 + this.random() * 0.3,
+			lastCollisionTime: 0,
+			mergeThreshold: baseSize * 0.5,
+			splitThreshold: baseSize * 1.5,
+			isSettled: true,
+			settleTime: 0,
+			groundContactPoints: [],
+			restHeight: baseSize * 0.7,
+			wetting: 0.15 + this.random() * 0.1,
+			contactAngle: 70 + this.random() * 30,
+			pressureDistribution: new Array(numControlPoints).fill(1.0),
+			chaosLevel: 0,
+			turbulenceDecay: 0.985,
+			expansionPhase: false,
+			expansionTime: 0,
+			maxExpansionTime: 20 + this.random() * 40,
+			wallBounceCount: 0,
+			lastBounceTime: 0,
+			driftAngle: this.random() * Math.PI * 2,
+			driftSpeed: 0.01 + this.random() * 0.015,
+			territoryRadius: 100 + this.random() * 60,
+			territoryX: x,
+			territoryY: y,
+			personalSpace: 35 + this.random() * 20,
+			repulsionStrength: 0.025 + this.random() * 0.015,
+			lastRepulsionTime: 0,
+		};
 	}
 
 	private applyEnhancedAntiClustering(): void {
-		for (let i = 0; i < this.blobs.length; i++) {
-			const blob1 = this.blobs[i];
+		const trackContacts = this.hasListeners('collision');
+		const { positionX, positionY, velocityX, velocityY } = this.store;
+		const personalSpace = this.loadPersonalSpace();
+		const repulsion = this.repulsionScratch;
+		const now = this.now();
 
+		for (let i = 0; i < this.blobs.length; i++) {
 			for (let j = i + 1; j < this.blobs.length; j++) {
-				const blob2 = this.blobs[j];
-
-				const dx = blob2.currentX - blob1.currentX;
-				const dy = blob2.currentY - blob1.currentY;
+				const dx = positionX[j] - positionX[i];
+				const dy = positionY[j] - positionY[i];
 				const distance = Math.sqrt(dx * dx + dy * dy);
 
-				const requiredDistance = Math.max(blob1.personalSpace || 50, blob2.personalSpace || 50);
+				const requiredDistance = Math.max(personalSpace[i], personalSpace[j]);
 
 				if (distance < requiredDistance && distance > 0) {
 					const overlap = requiredDistance - distance;
@@ -479,26 +1809,39 @@ export class BlobPhysics {
 					const normalizedDx = dx / distance;
 					const normalizedDy = dy / distance;
 
-					const force1Multiplier = blob1.repulsionStrength || 0.03;
-					const force2Multiplier = blob2.repulsionStrength || 0.03;
+					const force1Multiplier = repulsion[i];
+					const force2Multiplier = repulsion[j];
 
 					
 					const proximityMultiplier = distance < requiredDistance * 0.7 ? 3.5 : 1.0;
 
-					blob1.velocityX -= normalizedDx * repulsionForce * force1Multiplier * proximityMultiplier;
-					blob1.velocityY -= normalizedDy * repulsionForce * force1Multiplier * proximityMultiplier;
+					velocityX[i] -= normalizedDx * repulsionForce * force1Multiplier * proximityMultiplier;
+					velocityY[i] -= normalizedDy * repulsionForce * force1Multiplier * proximityMultiplier;
+
+					velocityX[j] += normalizedDx * repulsionForce * force2Multiplier * proximityMultiplier;
+					velocityY[j] += normalizedDy * repulsionForce * force2Multiplier * proximityMultiplier;
 
-					blob2.velocityX += normalizedDx * repulsionForce * force2Multiplier * proximityMultiplier;
-					blob2.velocityY += normalizedDy * repulsionForce * force2Multiplier * proximityMultiplier;
+					const blob1 = this.blobs[i];
+					const blob2 = this.blobs[j];
+					blob1.lastRepulsionTime = now;
+					blob2.lastRepulsionTime = now;
 
-					blob1.lastRepulsionTime = Date.now();
-					blob2.lastRepulsionTime = Date.now();
+					if (trackContacts) {
+						const [first, second] = (blob1.id ?? 0) < (blob2.id ?? 0) ? [blob1, blob2] : [blob2, blob1];
+						const sign = first === blob1 ? 1 : -1;
+						this.recordContact(first, second, overlap, dx * sign, dy * sign);
+					}
 				}
 			}
 		}
 	}
 
-	private updateScreensaverPhysics(blob: ConvexBlob, deltaTime: number, time: number): void {
+	private updateScreensaverPhysics(
+		blob: ConvexBlob,
+		deltaTime: number,
+		time: number,
+		fieldContext: FieldContext | null,
+	): void {
 		
 		blob.mouseDistance = Math.sqrt(
 			Math.pow(blob.currentX - this.mouseX, 2) + Math.pow(blob.currentY - this.mouseY, 2)
@@ -513,6 +1856,18 @@ export class BlobPhysics {
 
 		this.applyPointerField(blob);
 
+		if (this.anchors.size > 0) {
+			this.applyAnchorFields(blob);
+		}
+
+		if (fieldContext) {
+			this.applyCustomFields(blob, fieldContext);
+		}
+
+		if (this.exclusionZones.length > 0) {
+			this.applyExclusionZones(blob);
+		}
+
 		
 		this.updateMovementWithAccelerometer(blob, time);
 
@@ -520,23 +1875,50 @@ export class BlobPhysics {
 		this.addEscapeVelocity(blob);
 
 		
-		this.updateSafeOrganicDeformation(blob, time);
+		this.updateSafeOrganicDeformation(blob, deltaTime, time);
 
 		
 		if (this.scrollStickiness > 0.01) {
 			this.applyScrollEffect(blob);
 		}
 
-		
-		blob.currentX += blob.velocityX;
-		blob.currentY += blob.velocityY;
+		if (this.scrollLag > 0 || this.scrollBurst > 0 || blob.scrollStretch !== undefined) {
+			this.applyScrollField(blob);
+		}
+
+		// Depth layers change how far a blob travels, not its velocity, so
+		// forces and collisions read the same in every layer.
+		if (this.depthLayers) {
+			const { speed } = this.depthLayers[blob.layer ?? 'mid'];
+			blob.currentX += blob.velocityX * speed;
+			blob.currentY += blob.velocityY * speed;
+		} else {
+			blob.currentX += blob.velocityX;
+			blob.currentY += blob.velocityY;
+		}
 
 		
 		this.handleWallBouncing(blob);
 
-		
-		blob.velocityX *= 0.992;
-		blob.velocityY *= 0.992;
+		const steps = deltaTime / FIXED_TIMESTEP_SECONDS;
+		const retention = Math.pow(BASE_VELOCITY_RETENTION, (this.config.viscosity / BASE_VISCOSITY) * steps);
+		blob.velocityX *= retention;
+		blob.velocityY *= retention;
+
+		// Velocities are in units per step, so an acceleration in units/s²
+		// contributes gravity·dt per second, i.e. gravity·dt² per step.
+		if (this.config.gravity) {
+			blob.velocityY += this.config.gravity * deltaTime * deltaTime;
+		}
+
+		const maxVelocity = this.config.maxVelocity;
+		if (maxVelocity !== undefined) {
+			const speed = Math.sqrt(blob.velocityX * blob.velocityX + blob.velocityY * blob.velocityY);
+			if (speed > maxVelocity) {
+				blob.velocityX *= maxVelocity / speed;
+				blob.velocityY *= maxVelocity / speed;
+			}
+		}
 	}
 
 	private applyAccelerometerForces(blob: ConvexBlob): void {
@@ -551,41 +1933,230 @@ export class BlobPhysics {
 	}
 
 	private applyPointerField(blob: ConvexBlob): void {
-		if (this.mouseX === 50 && this.mouseY === 50) return;
+		const { strength, ignoreColors } = this.pointerField;
+		if (strength === 0 || !blob.isAttractive || ignoreColors.includes(blob.color)) return;
+
+		if (this.pointers.size > 0) {
+			for (const pointer of this.pointers.values()) {
+				this.applyPointerSource(
+					blob,
+					pointer.x,
+					pointer.y,
+					pointer.velocityX,
+					pointer.velocityY,
+					pointer.strength,
+				);
+			}
+			return;
+		}
+
+		// The neutral anchor is the world center; compared inline since this
+		// runs for every blob on every step.
+		const { minX, minY, maxX, maxY } = this.world;
+		if (this.mouseX === (minX + maxX) / 2 && this.mouseY === (minY + maxY) / 2) return;
+
+		this.applyPointerSource(blob, this.mouseX, this.mouseY, this.mouseVelX, this.mouseVelY, 1);
+	}
+
+	private applyPointerSource(
+		blob: ConvexBlob,
+		targetX: number,
+		targetY: number,
+		velocityX: number,
+		velocityY: number,
+		scale: number,
+	): void {
+		const { mode, radius, strength, falloff } = this.pointerField;
+		const originX = blob.currentX;
+		const originY = blob.currentY;
+		const gain = strength * scale * POINTER_FIELD_STRENGTH;
+		if (gain === 0) return;
+
+		if (mode === 'wake') {
+			const dx = targetX - originX;
+			const dy = targetY - originY;
+			const distance = Math.sqrt(dx * dx + dy * dy);
+			const weight =
+				falloff === 'linear'
+					? linearDistanceFalloff(distance, radius)
+					: smoothDistanceFalloff(distance, radius);
+			if (weight === 0) return;
+
+			const push = directionalBiasFieldInto(
+				this.fieldScratch,
+				velocityX,
+				velocityY,
+				(weight * gain) / WAKE_REFERENCE_SPEED,
+				Math.abs(weight * gain) * WAKE_MAX_BOOST,
+			);
+			blob.velocityX += push.x;
+			blob.velocityY += push.y;
+			return;
+		}
+
+		const field = pointAttractorFieldInto(
+			this.fieldScratch,
+			originX,
+			originY,
+			targetX,
+			targetY,
+			radius,
+			mode === 'repel' ? -gain : gain,
+			falloff,
+		);
+		if (mode === 'swirl') {
+			// The attraction rotated a quarter turn: tangential to the pointer.
+			blob.velocityX -= field.y;
+			blob.velocityY += field.x;
+			return;
+		}
+		blob.velocityX += field.x;
+		blob.velocityY += field.y;
+	}
+
+	private applyAnchorFields(blob: ConvexBlob): void {
+		const originX = blob.currentX;
+		const originY = blob.currentY;
+		for (const anchor of this.anchors.values()) {
+			const field = pointAttractorFieldInto(
+				this.fieldScratch,
+				originX,
+				originY,
+				anchor.x,
+				anchor.y,
+				anchor.radius,
+				anchor.strength * POINTER_FIELD_STRENGTH,
+				anchor.falloff,
+			);
+			blob.velocityX += field.x;
+			blob.velocityY += field.y;
+		}
+	}
+
+	// Refreshes the one context object custom fields see, copying the inputs
+	// so a field cannot reach back into the simulation through it.
+	private updateFieldContext(deltaTime: number, time: number): FieldContext {
+		const context = (this.fieldContext ??= {
+			time: 0,
+			deltaTime: 0,
+			world: { ...this.world },
+			pointer: { x: 0, y: 0, velocityX: 0, velocityY: 0 },
+			gravity: { ...this.gravity },
+			tilt: { ...this.tilt },
+			scrollStickiness: 0,
+		});
+		context.time = time;
+		context.deltaTime = deltaTime;
+		Object.assign(context.world, this.world);
+		context.pointer.x = this.mouseX;
+		context.pointer.y = this.mouseY;
+		context.pointer.velocityX = this.mouseVelX;
+		context.pointer.velocityY = this.mouseVelY;
+		Object.assign(context.gravity, this.gravity);
+		Object.assign(context.tilt, this.tilt);
+		context.scrollStickiness = this.scrollStickiness;
+		return context;
+	}
 
-		const dx = this.mouseX - blob.currentX;
-		const dy = this.mouseY - blob.currentY;
-		const distance = Math.sqrt(dx * dx + dy * dy);
-		if (distance === 0 || distance >= 34) return;
+	// Sums the fields in registration order, clamping each to its own
+	// maxMagnitude and the sum to maxFieldForce.
+	private applyCustomFields(blob: ConvexBlob, context: FieldContext): void {
+		const scratch = this.fieldScratch;
+		let totalX = 0;
+		let totalY = 0;
+		for (const { field, maxMagnitude } of this.fields.values()) {
+			const vector = field(blob, context);
+			if (!Number.isFinite(vector.x) || !Number.isFinite(vector.y)) continue;
+			if (Number.isFinite(maxMagnitude)) {
+				clampFieldVectorInto(scratch, vector.x, vector.y, maxMagnitude);
+				totalX += scratch.x;
+				totalY += scratch.y;
+			} else {
+				totalX += vector.x;
+				totalY += vector.y;
+			}
+		}
 
-		const normalized = 1 - distance / 34;
-		const scale = (normalized * normalized * 0.0014) / distance;
-		blob.velocityX += dx * scale;
-		blob.velocityY += dy * scale;
+		const total = clampFieldVectorInto(
+			scratch,
+			totalX,
+			totalY,
+			this.config.maxFieldForce ?? DEFAULT_MAX_FIELD_FORCE,
+		);
+		blob.velocityX += total.x;
+		blob.velocityY += total.y;
+	}
+
+	private applyExclusionZones(blob: ConvexBlob): void {
+		for (const zone of this.exclusionZones) {
+			const { distance, normalX, normalY } = getZoneDistanceInto(
+				this.zoneScratch,
+				zone,
+				blob.currentX,
+				blob.currentY,
+			);
+			const clearance = distance - blob.size * 0.8 - (zone.padding ?? 0);
+			if (clearance >= EXCLUSION_BAND) continue;
+
+			const depth = Math.min(EXCLUSION_MAX_DEPTH, 1 - clearance / EXCLUSION_BAND);
+			const strength = zone.strength ?? 1;
+			const push = depth * depth * EXCLUSION_PUSH * strength;
+			blob.velocityX += normalX * push;
+			blob.velocityY += normalY * push;
+
+			const inward = blob.velocityX * normalX + blob.velocityY * normalY;
+			if (inward < 0) {
+				const brake = inward * Math.min(1, depth * EXCLUSION_BRAKE * strength);
+				blob.velocityX -= normalX * brake;
+				blob.velocityY -= normalY * brake;
+			}
+		}
+	}
+
+	private createAmbientNoise(ambientField: AmbientFieldConfig): CurlNoiseField | null {
+		return ambientField.mode === 'curl'
+			? createCurlNoiseField(ambientField.seed ?? this.noiseSeed)
+			: null;
 	}
 
 	private updateMovementWithAccelerometer(blob: ConvexBlob, time: number): void {
-		
-		const neutralDriftX = (Math.random() - 0.5) * 0.001;
-		const neutralDriftY = (Math.random() - 0.5) * 0.001;
+		const { strength } = this.ambientField;
+		if (this.ambientNoise) {
+			this.applyCurlDrift(blob, time);
+			return;
+		}
+
+		const neutralDriftX = (this.random() - 0.5) * 0.001 * strength;
+		const neutralDriftY = (this.random() - 0.5) * 0.001 * strength;
 
 		blob.velocityX += neutralDriftX;
 		blob.velocityY += neutralDriftY;
 
 		
 		const brownianTime = time * 0.1 + blob.phase;
-		const brownianX = Math.sin(brownianTime + (blob.driftAngle || 0)) * 0.0005;
-		const brownianY = Math.cos(brownianTime * 1.3 + (blob.driftAngle || 0)) * 0.0005;
+		const brownianX = Math.sin(brownianTime + (blob.driftAngle || 0)) * 0.0005 * strength;
+		const brownianY = Math.cos(brownianTime * 1.3 + (blob.driftAngle || 0)) * 0.0005 * strength;
 
 		blob.velocityX += brownianX;
 		blob.velocityY += brownianY;
 
 		
-		if (Math.random() < 0.002) {
-			blob.driftAngle = Math.random() * Math.PI * 2;
+		if (this.random() < 0.002) {
+			blob.driftAngle = this.random() * Math.PI * 2;
 		}
 	}
 
+	// Samples the flow at the blob's center; the noise's z axis is simulation
+	// time, so the currents shift slowly instead of standing still.
+	private applyCurlDrift(blob: ConvexBlob, time: number): void {
+		const { scale, speed, strength } = this.ambientField;
+		const flow = this.ambientNoise!(blob.currentX / scale, blob.currentY / scale, time * speed);
+		const gain = AMBIENT_CURL_GAIN * strength;
+
+		blob.velocityX += flow.x * gain;
+		blob.velocityY += flow.y * gain;
+	}
+
 	private updateTerritorialMovement(blob: ConvexBlob, time: number): void {
 		const territoryX = blob.territoryX || blob.baseX;
 		const territoryY = blob.territoryY || blob.baseY;
@@ -604,40 +2175,43 @@ export class BlobPhysics {
 			blob.velocityY += Math.sin(angleToTerritory) * pullStrength;
 		}
 
-		
-		blob.velocityX += (Math.random() - 0.5) * 0.003;
-		blob.velocityY += (Math.random() - 0.5) * 0.003;
+		// Random-mode jitter; curl mode's drift replaces it.
+		if (!this.ambientNoise) {
+			const { strength } = this.ambientField;
+			blob.velocityX += (this.random() - 0.5) * 0.003 * strength;
+			blob.velocityY += (this.random() - 0.5) * 0.003 * strength;
+		}
 
 		
 		if (time % 45 < 0.1) {
 			const randomOffset = 35;
 			blob.territoryX = Math.max(
-				this.PHYSICS_MIN + 35,
-				Math.min(this.PHYSICS_MAX - 35, territoryX + (Math.random() - 0.5) * randomOffset)
+				this.world.minX + 35,
+				Math.min(this.world.maxX - 35, territoryX + (this.random() - 0.5) * randomOffset)
 			);
 			blob.territoryY = Math.max(
-				this.PHYSICS_MIN + 35,
-				Math.min(this.PHYSICS_MAX - 35, territoryY + (Math.random() - 0.5) * randomOffset)
+				this.world.minY + 35,
+				Math.min(this.world.maxY - 35, territoryY + (this.random() - 0.5) * randomOffset)
 			);
 		}
 	}
 
 	private addEscapeVelocity(blob: ConvexBlob): void {
-		if (blob.lastRepulsionTime && Date.now() - blob.lastRepulsionTime < 3000) {
+		if (blob.lastRepulsionTime && this.now() - blob.lastRepulsionTime < 3000) {
 			const escapeStrength = 0.01;
-			const escapeAngle = Math.random() * Math.PI * 2;
+			const escapeAngle = this.random() * Math.PI * 2;
 
 			blob.velocityX += Math.cos(escapeAngle) * escapeStrength;
 			blob.velocityY += Math.sin(escapeAngle) * escapeStrength;
 		}
 	}
 
-	private updateSafeOrganicDeformation(blob: ConvexBlob, time: number): void {
+	private updateSafeOrganicDeformation(blob: ConvexBlob, deltaTime: number, time: number): void {
 		if (!blob.controlPoints || !blob.controlVelocities) return;
 
 		if (this.config.useSpringSystem) {
 			
-			this.updateSpringDeformation(blob, time);
+			this.updateSpringDeformation(blob, deltaTime);
 		} else {
 			
 			this.updateSinusoidalDeformation(blob, time);
@@ -645,7 +2219,13 @@ export class BlobPhysics {
 
 		
 		if (this.config.useGaussianSmoothing) {
-			this.gaussianKernel.convolve(blob.controlPoints);
+			const slot = this.store.slotOf(blob);
+			if (slot === -1) {
+				this.gaussianKernel.convolve(blob.controlPoints);
+			} else {
+				const { radius, pointStride } = this.store;
+				this.gaussianKernel.convolveRange(radius, slot * pointStride, blob.controlPoints.length);
+			}
 		} else {
 			this.smoothControlPoints(blob);
 		}
@@ -654,7 +2234,7 @@ export class BlobPhysics {
 	
 
 
-	private updateSpringDeformation(blob: ConvexBlob, time: number): void {
+	private updateSpringDeformation(blob: ConvexBlob, deltaTime: number): void {
 		if (!blob.controlPoints || !blob.controlVelocities) return;
 
 		
@@ -662,34 +2242,70 @@ export class BlobPhysics {
 		const velocityAngle = Math.atan2(blob.velocityY, blob.velocityX);
 
 		
-		const externalForces: number[] = blob.controlPoints.map((point) => {
-			
-			const alignment = Math.cos(point.angle - velocityAngle);
-			return -alignment * velocityMag * 0.5;
-		});
+		const pointCount = blob.controlPoints.length;
+		const externalForces = this.controlForceScratch;
+		externalForces.length = pointCount;
+		// Views of the store run on its arrays directly; plain blobs (tests,
+		// callers driving the helpers by hand) take the object path.
+		const slot = this.store.slotOf(blob);
+		const offset = slot * this.store.pointStride;
+		const { angle } = this.store;
+		for (let i = 0; i < pointCount; i++) {
+			const pointAngle = slot === -1 ? blob.controlPoints[i].angle : angle[offset + i];
+			const alignment = Math.cos(pointAngle - velocityAngle);
+			externalForces[i] = -alignment * velocityMag * 0.5;
+		}
 
 		
 		if (blob.chaosLevel && blob.chaosLevel > 0.01) {
-			for (let i = 0; i < externalForces.length; i++) {
-				externalForces[i] += (Math.random() - 0.5) * blob.chaosLevel * 0.3;
+			for (let i = 0; i < pointCount; i++) {
+				externalForces[i] += (this.random() - 0.5) * blob.chaosLevel * 0.3;
 			}
 		}
 
 		
-		this.springSystem.updateAllControlPoints(
-			blob.controlPoints,
-			blob.controlVelocities,
-			externalForces,
-			0.016 
-		);
+		// deformationSpeed plays the same role as on the sinusoidal path:
+		// it scales how fast the outline evolves relative to the default.
+		const springDt =
+			SPRING_DT * (this.config.deformationSpeed / BASE_DEFORMATION_SPEED) * (deltaTime / FIXED_TIMESTEP_SECONDS);
+		if (slot === -1) {
+			this.springSystem.updateAllControlPoints(
+				blob.controlPoints,
+				blob.controlVelocities,
+				externalForces,
+				springDt
+			);
+		} else {
+			const { radius, baseRadius, radialVelocity } = this.store;
+			this.springSystem.updateRadii(
+				radius,
+				baseRadius,
+				radialVelocity,
+				externalForces,
+				offset,
+				pointCount,
+				springDt
+			);
+		}
 
 		
-		for (let i = 0; i < blob.controlPoints.length; i++) {
-			const velocity = blob.controlVelocities[i];
-			velocity.angularVelocity += (Math.random() - 0.5) * 0.00002;
-			velocity.angularVelocity *= 0.998;
-			velocity.angularVelocity = Math.max(-0.0006, Math.min(0.0006, velocity.angularVelocity));
-			blob.controlPoints[i].angle += velocity.angularVelocity;
+		if (slot === -1) {
+			for (let i = 0; i < blob.controlPoints.length; i++) {
+				const velocity = blob.controlVelocities[i];
+				velocity.angularVelocity += (this.random() - 0.5) * 0.00002;
+				velocity.angularVelocity *= 0.998;
+				velocity.angularVelocity = Math.max(-0.0006, Math.min(0.0006, velocity.angularVelocity));
+				blob.controlPoints[i].angle += velocity.angularVelocity;
+			}
+		} else {
+			const { angularVelocity } = this.store;
+			for (let i = offset; i < offset + pointCount; i++) {
+				let velocity = angularVelocity[i] + (this.random() - 0.5) * 0.00002;
+				velocity *= 0.998;
+				velocity = Math.max(-0.0006, Math.min(0.0006, velocity));
+				angularVelocity[i] = velocity;
+				angle[i] += velocity;
+			}
 		}
 
 		
@@ -704,9 +2320,10 @@ export class BlobPhysics {
 	private updateSinusoidalDeformation(blob: ConvexBlob, time: number): void {
 		if (!blob.controlPoints || !blob.controlVelocities) return;
 
-		blob.controlPoints.forEach((point, i) => {
-			
-			const pulseTime = time * 0.15 * this.config.deformationSpeed / 0.5 + i * 0.4 + blob.phase;
+		for (let i = 0; i < blob.controlPoints.length; i++) {
+			const point = blob.controlPoints[i];
+
+			const pulseTime = time * 0.15 * this.config.deformationSpeed / BASE_DEFORMATION_SPEED + i * 0.4 + blob.phase;
 			const pulseAmount = Math.sin(pulseTime) * 0.02;
 
 			
@@ -722,7 +2339,7 @@ export class BlobPhysics {
 
 			
 			if (blob.controlVelocities && blob.controlVelocities[i]) {
-				blob.controlVelocities[i].angularVelocity += (Math.random() - 0.5) * 0.00003;
+				blob.controlVelocities[i].angularVelocity += (this.random() - 0.5) * 0.00003;
 				blob.controlVelocities[i].angularVelocity *= 0.999;
 				blob.controlVelocities[i].angularVelocity = Math.max(
 					-0.0008,
@@ -730,7 +2347,7 @@ export class BlobPhysics {
 				);
 				point.angle += blob.controlVelocities[i].angularVelocity;
 			}
-		});
+		}
 	}
 
 	private smoothControlPoints(blob: ConvexBlob): void {
@@ -776,50 +2393,95 @@ export class BlobPhysics {
 		}
 	}
 
+	private applyScrollField(blob: ConvexBlob): void {
+		const affinity = blob.scrollAffinity ?? 0.5;
+		const lagging = this.scrollLag > 0 && this.scrollDirection !== 0;
+
+		if (lagging) {
+			const lag = Math.min(this.scrollLag * SCROLL_LAG_GAIN, SCROLL_LAG_MAX) * affinity;
+			blob.velocityY -= this.scrollDirection * lag;
+		}
+
+		const targetStretch = lagging
+			? Math.min(this.scrollLag * SCROLL_STRETCH_GAIN, SCROLL_STRETCH_MAX) * affinity
+			: 0;
+		const currentStretch = blob.scrollStretch ?? 0;
+		const stretch = currentStretch + (targetStretch - currentStretch) * SCROLL_STRETCH_EASE;
+		if (targetStretch === 0 && stretch < 0.001) {
+			delete blob.scrollStretch;
+		} else {
+			blob.scrollStretch = stretch;
+		}
+
+		if (this.scrollBurst > 0) {
+			const center = getWorldCenter(this.world);
+			let dx = blob.currentX - center.x;
+			let dy = blob.currentY - center.y;
+			let distance = Math.sqrt(dx * dx + dy * dy);
+			if (distance === 0) {
+				// A blob dead center still needs a direction; spread by id.
+				const angle = (blob.id ?? 0) * 2.399963;
+				dx = Math.cos(angle);
+				dy = Math.sin(angle);
+				distance = 1;
+			}
+			const burst = Math.min(this.scrollBurst * SCROLL_BURST_GAIN, SCROLL_BURST_MAX) * affinity;
+			blob.velocityX += (dx / distance) * burst;
+			blob.velocityY += (dy / distance) * burst;
+			blob.chaosLevel = Math.min((blob.chaosLevel || 0) + burst * 2, 0.2);
+		}
+	}
+
 	private handleWallBouncing(blob: ConvexBlob): void {
 		const margin = blob.size * 0.8;
 		const damping = this.config.bounceDamping;
-		const currentTime = Date.now();
+		const currentTime = this.now();
+		const { minX, minY, maxX, maxY } = this.world;
 
 		
-		if (blob.currentX < this.PHYSICS_MIN + margin) {
-			blob.currentX = this.PHYSICS_MIN + margin;
-			blob.velocityX = Math.abs(blob.velocityX) * damping;
-			this.recordBounce(blob, currentTime);
+		if (blob.currentX < minX + margin) {
+			const speed = Math.abs(blob.velocityX);
+			blob.currentX = minX + margin;
+			blob.velocityX = speed * damping;
+			this.recordBounce(blob, currentTime, 'left', speed);
 		}
 
 		
-		if (blob.currentX > this.PHYSICS_MAX - margin) {
-			blob.currentX = this.PHYSICS_MAX - margin;
-			blob.velocityX = -Math.abs(blob.velocityX) * damping;
-			this.recordBounce(blob, currentTime);
+		if (blob.currentX > maxX - margin) {
+			const speed = Math.abs(blob.velocityX);
+			blob.currentX = maxX - margin;
+			blob.velocityX = -speed * damping;
+			this.recordBounce(blob, currentTime, 'right', speed);
 		}
 
 		
-		if (blob.currentY < this.PHYSICS_MIN + margin * 1.5) {
-			blob.currentY = this.PHYSICS_MIN + margin * 1.5;
-			blob.velocityY = Math.abs(blob.velocityY) * damping;
-			this.recordBounce(blob, currentTime);
+		if (blob.currentY < minY + margin * 1.5) {
+			const speed = Math.abs(blob.velocityY);
+			blob.currentY = minY + margin * 1.5;
+			blob.velocityY = speed * damping;
+			this.recordBounce(blob, currentTime, 'top', speed);
 		}
 
 		
-		if (blob.currentY > this.PHYSICS_MAX - margin * 1.5) {
-			blob.currentY = this.PHYSICS_MAX - margin * 1.5;
-			blob.velocityY = -Math.abs(blob.velocityY) * damping;
-			this.recordBounce(blob, currentTime);
+		if (blob.currentY > maxY - margin * 1.5) {
+			const speed = Math.abs(blob.velocityY);
+			blob.currentY = maxY - margin * 1.5;
+			blob.velocityY = -speed * damping;
+			this.recordBounce(blob, currentTime, 'bottom', speed);
 		}
 	}
 
-	private recordBounce(blob: ConvexBlob, currentTime: number): void {
+	private recordBounce(blob: ConvexBlob, currentTime: number, wall: WallSide, speed: number): void {
 		blob.wallBounceCount = (blob.wallBounceCount || 0) + 1;
 		blob.lastBounceTime = currentTime;
+		this.emit('bounce', { blobId: blob.id ?? 0, wall, x: blob.currentX, y: blob.currentY, speed });
 
 		
-		blob.velocityX += (Math.random() - 0.5) * 0.05;
-		blob.velocityY += (Math.random() - 0.5) * 0.05;
+		blob.velocityX += (this.random() - 0.5) * 0.05;
+		blob.velocityY += (this.random() - 0.5) * 0.05;
 
 		
-		blob.driftAngle = Math.random() * Math.PI * 2;
+		blob.driftAngle = this.random() * Math.PI * 2;
 
 		
 		if (blob.controlPoints) {
@@ -873,3 +2535,293 @@ export class BlobPhysics {
 		return (p2.x - p1.x) * (p3.y - p1.y) - (p2.y - p1.y) * (p3.x - p1.x) > 0;
 	}
 }
+
+// Shared by the constructor and setConfig(), so a bad live update throws
+// before anything is applied.
+function assertConfig(
+	config: BlobPhysicsConfig,
+	topology: BlobTopologyConfig,
+	pointerField: PointerFieldConfig,
+	ambientField: AmbientFieldConfig,
+	depthLayers: DepthLayersConfig | null,
+): void {
+	if (topology.minBlobs > topology.maxBlobs) {
+		throw new RangeError('BlobPhysics: topology.minBlobs must not exceed topology.maxBlobs');
+	}
+
+	if (!POINTER_FIELD_MODES.includes(pointerField.mode)) {
+		throw new RangeError(`BlobPhysics: unknown pointerField.mode '${pointerField.mode}'`);
+	}
+	if (pointerField.falloff !== 'smooth' && pointerField.falloff !== 'linear') {
+		throw new RangeError(`BlobPhysics: unknown pointerField.falloff '${pointerField.falloff}'`);
+	}
+	if (!(pointerField.radius > 0) || !Number.isFinite(pointerField.radius)) {
+		throw new RangeError('BlobPhysics: pointerField.radius must be finite and positive');
+	}
+	if (!Number.isFinite(pointerField.strength)) {
+		throw new RangeError('BlobPhysics: pointerField.strength must be finite');
+	}
+
+	if (!AMBIENT_FIELD_MODES.includes(ambientField.mode)) {
+		throw new RangeError(`BlobPhysics: unknown ambientField.mode '${ambientField.mode}'`);
+	}
+	if (!(ambientField.scale > 0) || !Number.isFinite(ambientField.scale)) {
+		throw new RangeError('BlobPhysics: ambientField.scale must be finite and positive');
+	}
+	if (
+		!Number.isFinite(ambientField.speed) ||
+		!Number.isFinite(ambientField.strength) ||
+		(ambientField.seed !== undefined && !Number.isFinite(ambientField.seed))
+	) {
+		throw new RangeError('BlobPhysics: ambientField speed, strength and seed must be finite');
+	}
+
+	if (depthLayers && !isValidDepthLayers(depthLayers)) {
+		throw new RangeError(
+			'BlobPhysics: depthLayers need 0 < sizeRange[0] <= sizeRange[1], non-negative blur and speed, opacity in 0..1 and finite parallax',
+		);
+	}
+
+	const minRadius = config.minRadius ?? DEFAULT_MIN_RADIUS;
+	const maxRadius = config.maxRadius ?? DEFAULT_MAX_RADIUS;
+	if (!(minRadius > 0) || !(maxRadius >= minRadius) || !Number.isFinite(maxRadius)) {
+		throw new RangeError('BlobPhysics: minRadius/maxRadius must be finite with 0 < min <= max');
+	}
+
+	const controlPoints = config.controlPoints ?? DEFAULT_CONTROL_POINTS;
+	if (
+		!Number.isInteger(controlPoints) ||
+		controlPoints < MIN_CONTROL_POINTS ||
+		controlPoints > MAX_CONTROL_POINTS
+	) {
+		throw new RangeError(
+			`BlobPhysics: controlPoints must be an integer in ${MIN_CONTROL_POINTS}..${MAX_CONTROL_POINTS}`,
+		);
+	}
+
+	if (!(config.viscosity >= 0) || !(config.deformationSpeed >= 0)) {
+		throw new RangeError('BlobPhysics: viscosity and deformationSpeed must be non-negative');
+	}
+	if (config.maxVelocity !== undefined && !(config.maxVelocity > 0)) {
+		throw new RangeError('BlobPhysics: maxVelocity must be positive');
+	}
+	if (config.maxFieldForce !== undefined && !(config.maxFieldForce >= 0)) {
+		throw new RangeError('BlobPhysics: maxFieldForce must be non-negative');
+	}
+	if (config.gravity !== undefined && !Number.isFinite(config.gravity)) {
+		throw new RangeError('BlobPhysics: gravity must be finite');
+	}
+}
+
+// Replaces a blob's outline with `count` evenly spaced points, starting at
+// its first point's angle. Radii and radial velocities are read off the old
+// outline by linear interpolation around the circle, so the shape and its
+// wobble carry over; the other per-point fields come from the nearest old
+// point.
+function resampleOutline(blob: ConvexBlob, count: number): void {
+	const points = blob.controlPoints;
+	const velocities = blob.controlVelocities;
+	if (!points || points.length === 0 || points.length === count) return;
+
+	const TAU = Math.PI * 2;
+	const start = points[0].angle;
+	// Old points by their angle past the first one, ascending.
+	const order = points
+		.map((point, index) => ({ index, offset: (((point.angle - start) % TAU) + TAU) % TAU }))
+		.sort((a, b) => a.offset - b.offset);
+
+	const nextPoints: ControlPoint[] = [];
+	const nextVelocities: ControlPointVelocity[] = [];
+	for (let k = 0; k < count; k++) {
+		const offset = (k / count) * TAU;
+		let after = order.findIndex((entry) => entry.offset >= offset);
+		if (after === -1) after = 0;
+		const before = (after - 1 + order.length) % order.length;
+		const from = order[before];
+		const to = order[after];
+		const span = (((to.offset - from.offset) % TAU) + TAU) % TAU || TAU;
+		const t = ((((offset - from.offset) % TAU) + TAU) % TAU) / span;
+		const lerp = (a: number, b: number) => a + (b - a) * t;
+		const a = points[from.index];
+		const b = points[to.index];
+		const nearest = t < 0.5 ? from.index : to.index;
+
+		nextPoints.push({
+			...points[nearest],
+			angle: start + offset,
+			radius: lerp(a.radius, b.radius),
+			baseRadius: lerp(a.baseRadius, b.baseRadius),
+		});
+		const va = velocities?.[from.index];
+		const vb = velocities?.[to.index];
+		nextVelocities.push({
+			...velocities?.[nearest],
+			radialVelocity: lerp(va?.radialVelocity ?? 0, vb?.radialVelocity ?? 0),
+			angularVelocity: lerp(va?.angularVelocity ?? 0, vb?.angularVelocity ?? 0),
+		});
+	}
+
+	blob.controlPoints = nextPoints;
+	if (velocities) blob.controlVelocities = nextVelocities;
+}
+
+function resolvePointerField(
+	base: PointerFieldConfig,
+	overrides: Partial<PointerFieldConfig> = {},
+): PointerFieldConfig {
+	const resolved = { ...base, ...overrides };
+	return { ...resolved, ignoreColors: [...(resolved.ignoreColors ?? [])] };
+}
+
+function getBlobArea(blob: ConvexBlob): number {
+	if (blob.controlPoints && blob.controlPoints.length >= 3) {
+		return computePolygonArea(blob.controlPoints);
+	}
+	return Math.PI * blob.size * blob.size;
+}
+
+// Scales every length on a blob by `factor` (area by its square). Control
+// radii scale with their base so the spring/pulse limits stay consistent.
+function scaleBlob(blob: ConvexBlob, factor: number): void {
+	blob.size *= factor;
+	if (blob.mergeThreshold !== undefined) blob.mergeThreshold *= factor;
+	if (blob.splitThreshold !== undefined) blob.splitThreshold *= factor;
+	if (blob.restHeight !== undefined) blob.restHeight *= factor;
+
+	for (const point of blob.controlPoints ?? []) {
+		point.radius *= factor;
+		point.targetRadius *= factor;
+		point.baseRadius *= factor;
+	}
+}
+
+function getColorSources(blob: ConvexBlob): BlobColorSource[] {
+	return blob.colorSources ?? [{ id: blob.id ?? 0, weight: 1 }];
+}
+
+// Combines two source lists, `share` of the result coming from `added`.
+// Only the MAX_COLOR_SOURCES heaviest slots are kept, renormalised.
+function mixColorSources(
+	base: BlobColorSource[],
+	added: BlobColorSource[],
+	share: number,
+): BlobColorSource[] {
+	const weights = new Map<number, number>();
+	for (const source of base) {
+		weights.set(source.id, (weights.get(source.id) ?? 0) + source.weight * (1 - share));
+	}
+	for (const source of added) {
+		weights.set(source.id, (weights.get(source.id) ?? 0) + source.weight * share);
+	}
+
+	const kept = [...weights]
+		.map(([id, weight]) => ({ id, weight }))
+		.sort((a, b) => b.weight - a.weight)
+		.slice(0, MAX_COLOR_SOURCES);
+	const total = kept.reduce((sum, source) => sum + source.weight, 0);
+	return kept.map((source) => ({ id: source.id, weight: source.weight / total }));
+}
+
+function colorOf(entry: string | ThemeColor): string {
+	return typeof entry === 'string' ? entry : entry.color;
+}
+
+function copyDepthLayersOverride(override: DepthLayersOverride): DepthLayersOverride {
+	const copy: DepthLayersOverride = {};
+	for (const layer of Object.keys(override) as DepthLayer[]) {
+		const settings = override[layer];
+		if (!settings) continue;
+		copy[layer] = settings.sizeRange
+			? { ...settings, sizeRange: [settings.sizeRange[0], settings.sizeRange[1]] }
+			: { ...settings };
+	}
+	return copy;
+}
+
+// Weighted mean over the sources whose palette entry is a ThemeColor;
+// `fallback` when none is.
+function blendScrollAffinity(
+	sources: BlobColorSource[],
+	palette: readonly (string | ThemeColor)[],
+	fallback: number,
+): number {
+	let affinity = 0;
+	let weight = 0;
+	for (const source of sources) {
+		const entry = palette[source.id % palette.length];
+		if (typeof entry === 'string') continue;
+		affinity += entry.scrollAffinity * source.weight;
+		weight += source.weight;
+	}
+	return weight > 0 ? affinity / weight : fallback;
+}
+
+function blendPaletteColors(
+	sources: BlobColorSource[],
+	palette: readonly (string | ThemeColor)[],
+): string {
+	let color = colorOf(palette[sources[0].id % palette.length]);
+	let weight = sources[0].weight;
+
+	for (let i = 1; i < sources.length; i++) {
+		const source = sources[i];
+		weight += source.weight;
+		color = `color-mix(in srgb, ${colorOf(palette[source.id % palette.length])} ${formatPercent(source.weight / weight)}, ${color})`;
+	}
+
+	return color;
+}
+
+function formatPercent(share: number): string {
+	return `${Math.round(share * 1000) / 10}%`;
+}
+
+function assertSnapshot(snapshot: unknown): asserts snapshot is BlobPhysicsSnapshot {
+	if (typeof snapshot !== 'object' || snapshot === null) {
+		throw new TypeError('BlobPhysics: snapshot must be an object');
+	}
+
+	const candidate = snapshot as Partial<BlobPhysicsSnapshot>;
+	if (candidate.version !== BLOB_PHYSICS_SNAPSHOT_VERSION) {
+		throw new RangeError(
+			`BlobPhysics: unsupported snapshot version ${String(candidate.version)} (expected ${BLOB_PHYSICS_SNAPSHOT_VERSION})`,
+		);
+	}
+
+	const finite = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value);
+	const malformed =
+		!Array.isArray(candidate.blobs) ||
+		candidate.blobs.some(
+			(blob) =>
+				typeof blob !== 'object' ||
+				blob === null ||
+				!finite(blob.currentX) ||
+				!finite(blob.currentY) ||
+				!finite(blob.velocityX) ||
+				!finite(blob.velocityY) ||
+				!finite(blob.size),
+		) ||
+		!finite(candidate.accumulatedTime) ||
+		!finite(candidate.simulationClock) ||
+		!finite(candidate.nextBlobId) ||
+		!finite(candidate.scrollStickiness) ||
+		!candidate.world ||
+		!isValidPhysicsWorld(candidate.world) ||
+		!finite(candidate.mouse?.x) ||
+		!finite(candidate.mouse?.y) ||
+		!finite(candidate.mouse?.velocityX) ||
+		!finite(candidate.mouse?.velocityY) ||
+		!finite(candidate.gravity?.x) ||
+		!finite(candidate.gravity?.y) ||
+		!finite(candidate.tilt?.x) ||
+		!finite(candidate.tilt?.y) ||
+		!finite(candidate.tilt?.z) ||
+		(candidate.randomState !== undefined &&
+			!(Number.isInteger(candidate.randomState) &&
+				candidate.randomState >= 0 &&
+				candidate.randomState <= 0xffffffff));
+
+	if (malformed) {
+		throw new TypeError('BlobPhysics: snapshot is malformed');
+	}
+}
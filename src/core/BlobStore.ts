@@ -0,0 +1,444 @@
+import type { ControlPoint, ControlPointVelocity, ConvexBlob } from './types.js';
+
+// Structure-of-arrays storage for the state BlobPhysics touches every step.
+// Positions and velocities live in one Float64Array per field indexed by
+// slot, and control points in per-point arrays strided by `pointStride`.
+// The ConvexBlob objects BlobPhysics hands out are views: their hot fields
+// are accessors onto these arrays, so the renderer, snapshots and existing
+// callers keep reading and writing plain-looking objects while the inner
+// loops run over contiguous memory. Float64 keeps the simulation
+// bit-identical to the object layout it replaced.
+//
+// Slots are dense and follow the order of the array passed to bind():
+// slot i is blobs[i], so loops over the arrays and over the blobs agree.
+
+const HANDLE = Symbol('BlobStore.handle');
+const POINTS = Symbol('BlobStore.points');
+const VELOCITIES = Symbol('BlobStore.velocities');
+
+interface BlobHandle {
+	store: BlobStore;
+	slot: number;
+}
+
+interface PointHandle {
+	blob: BlobHandle;
+	index: number;
+}
+
+type BlobView = ConvexBlob & {
+	[HANDLE]: BlobHandle;
+	[POINTS]: ControlPoint[] | undefined;
+	[VELOCITIES]: ControlPointVelocity[] | undefined;
+};
+
+type PointView = ControlPoint & { [HANDLE]: PointHandle };
+type VelocityView = ControlPointVelocity & { [HANDLE]: PointHandle };
+
+type BlobField = 'positionX' | 'positionY' | 'velocityX' | 'velocityY';
+type PointField = 'radius' | 'baseRadius' | 'angle' | 'radialVelocity' | 'angularVelocity';
+
+const BLOB_FIELDS: readonly BlobField[] = ['positionX', 'positionY', 'velocityX', 'velocityY'];
+const POINT_FIELDS: readonly PointField[] = [
+	'radius',
+	'baseRadius',
+	'angle',
+	'radialVelocity',
+	'angularVelocity',
+];
+
+export class BlobStore {
+	positionX = new Float64Array(0);
+	positionY = new Float64Array(0);
+	velocityX = new Float64Array(0);
+	velocityY = new Float64Array(0);
+
+	// Point p of the blob in slot s sits at s * pointStride + p; pointCount
+	// holds how many of the stride each blob uses.
+	radius = new Float64Array(0);
+	baseRadius = new Float64Array(0);
+	angle = new Float64Array(0);
+	radialVelocity = new Float64Array(0);
+	angularVelocity = new Float64Array(0);
+	pointCount = new Int32Array(0);
+	pointStride = 0;
+
+	// Positions and radii as of the start of the last step, for render
+	// interpolation. Laid out like the live arrays; blobs that join the
+	// set start with their current values.
+	previousX = new Float64Array(0);
+	previousY = new Float64Array(0);
+	previousRadius = new Float64Array(0);
+
+	private views: BlobView[] = [];
+	// Render copies for interpolate(), one per slot with its own control
+	// points, refreshed in place every frame.
+	private renderBlobs: ConvexBlob[] = [];
+	private renderPoints: ControlPoint[][] = [];
+
+	constructor(pointStride = 0) {
+		this.pointStride = pointStride;
+	}
+
+	// Lays the store out for `blobs` in order and returns the blobs as views
+	// of it. Views of this store keep their identity and move to their new
+	// slot; anything else (fresh, cloned or imported blobs) is copied into a
+	// new view. Runs when the blob set changes, never per step.
+	bind(blobs: readonly ConvexBlob[], minStride = this.pointStride): ConvexBlob[] {
+		// Views leaving the set move to a store of their own with their last
+		// values, so they never alias a slot that now belongs to another blob.
+		const kept = new Set(blobs);
+		const dropped = this.views.filter((view) => !kept.has(view));
+		if (dropped.length > 0) new BlobStore().layout(dropped, 0, true);
+
+		this.layout(blobs, minStride, false);
+		return this.views.slice();
+	}
+
+	private layout(blobs: readonly ConvexBlob[], minStride: number, adopt: boolean): void {
+		let stride = minStride;
+		for (const blob of blobs) {
+			stride = Math.max(stride, blob.controlPoints?.length ?? 0);
+		}
+
+		const count = blobs.length;
+		const next = {
+			positionX: new Float64Array(count),
+			positionY: new Float64Array(count),
+			velocityX: new Float64Array(count),
+			velocityY: new Float64Array(count),
+			radius: new Float64Array(count * stride),
+			baseRadius: new Float64Array(count * stride),
+			angle: new Float64Array(count * stride),
+			radialVelocity: new Float64Array(count * stride),
+			angularVelocity: new Float64Array(count * stride),
+			pointCount: new Int32Array(count),
+			previousX: new Float64Array(count),
+			previousY: new Float64Array(count),
+			previousRadius: new Float64Array(count * stride),
+		};
+
+		// Read everything through the current layout before switching.
+		for (let slot = 0; slot < count; slot++) {
+			const blob = blobs[slot];
+			next.positionX[slot] = blob.currentX;
+			next.positionY[slot] = blob.currentY;
+			next.velocityX[slot] = blob.velocityX;
+			next.velocityY[slot] = blob.velocityY;
+			const from = this.owns(blob) ? blob[HANDLE].slot : -1;
+			next.previousX[slot] = from >= 0 ? this.previousX[from] : blob.currentX;
+			next.previousY[slot] = from >= 0 ? this.previousY[from] : blob.currentY;
+
+			const points = blob.controlPoints ?? [];
+			const velocities = blob.controlVelocities ?? [];
+			next.pointCount[slot] = points.length;
+			for (let i = 0; i < points.length; i++) {
+				const offset = slot * stride + i;
+				next.previousRadius[offset] =
+					from >= 0 ? this.previousRadius[from * this.pointStride + i] : points[i].radius;
+				next.radius[offset] = points[i].radius;
+				next.baseRadius[offset] = points[i].baseRadius;
+				next.angle[offset] = points[i].angle;
+				next.radialVelocity[offset] = velocities[i]?.radialVelocity ?? 0;
+				next.angularVelocity[offset] = velocities[i]?.angularVelocity ?? 0;
+			}
+		}
+
+		for (const field of BLOB_FIELDS) this[field] = next[field];
+		for (const field of POINT_FIELDS) this[field] = next[field];
+		this.pointCount = next.pointCount;
+		this.previousX = next.previousX;
+		this.previousY = next.previousY;
+		this.previousRadius = next.previousRadius;
+		this.pointStride = stride;
+
+		this.views = blobs.map((blob, slot) => {
+			if (this.owns(blob) || (adopt && HANDLE in blob)) {
+				const view = blob as BlobView;
+				view[HANDLE].store = this;
+				view[HANDLE].slot = slot;
+				return view;
+			}
+			return createBlobView({ store: this, slot }, blob);
+		});
+	}
+
+	// The blob's slot, or -1 for objects that are not views of this store.
+	slotOf(blob: ConvexBlob): number {
+		return this.owns(blob) ? blob[HANDLE].slot : -1;
+	}
+
+	clear(): void {
+		this.bind([]);
+	}
+
+	// Records the current positions and radii as the previous state.
+	savePrevious(): void {
+		this.previousX.set(this.positionX);
+		this.previousY.set(this.positionY);
+		this.previousRadius.set(this.radius);
+	}
+
+	// Plain copies of the views in slot order, with positions and control
+	// point radii blended from the previous state toward the current one by
+	// `alpha`. The copies are reused: each call overwrites the values the
+	// last one returned, and writing to them never reaches the store.
+	interpolate(alpha: number): readonly ConvexBlob[] {
+		const { positionX, positionY, previousX, previousY, radius, previousRadius, pointStride } =
+			this;
+		const count = this.views.length;
+		this.renderBlobs.length = count;
+		this.renderPoints.length = count;
+
+		for (let slot = 0; slot < count; slot++) {
+			const view = this.views[slot];
+			const render = (this.renderBlobs[slot] ??= {} as ConvexBlob);
+			copyFields(render, view);
+			render.currentX = previousX[slot] + (positionX[slot] - previousX[slot]) * alpha;
+			render.currentY = previousY[slot] + (positionY[slot] - previousY[slot]) * alpha;
+
+			const points = view[POINTS];
+			if (!points) {
+				render.controlPoints = undefined;
+				continue;
+			}
+			const renderPoints = (this.renderPoints[slot] ??= []);
+			renderPoints.length = points.length;
+			const offset = slot * pointStride;
+			for (let i = 0; i < points.length; i++) {
+				const point = (renderPoints[i] ??= {} as ControlPoint);
+				copyFields(point, points[i]);
+				point.radius =
+					previousRadius[offset + i] + (radius[offset + i] - previousRadius[offset + i]) * alpha;
+			}
+			render.controlPoints = renderPoints;
+		}
+
+		return this.renderBlobs;
+	}
+
+	private owns(blob: ConvexBlob): blob is BlobView {
+		return (blob as Partial<BlobView>)[HANDLE]?.store === this;
+	}
+
+	// Replacing a view's control point or velocity array copies the new
+	// entries in; a longer outline than the stride re-lays every blob out.
+	adoptControlPoints(handle: BlobHandle, points: ControlPoint[] | undefined): void {
+		this.reserveStride(points?.length ?? 0);
+		const base = handle.slot * this.pointStride;
+		points?.forEach((point, i) => {
+			this.radius[base + i] = point.radius;
+			this.previousRadius[base + i] = point.radius;
+			this.baseRadius[base + i] = point.baseRadius;
+			this.angle[base + i] = point.angle;
+		});
+		this.pointCount[handle.slot] = points?.length ?? 0;
+		this.views[handle.slot][POINTS] = points?.map((point, index) =>
+			createPointView({ blob: handle, index }, point),
+		);
+	}
+
+	adoptControlVelocities(
+		handle: BlobHandle,
+		velocities: ControlPointVelocity[] | undefined,
+	): void {
+		this.reserveStride(velocities?.length ?? 0);
+		const base = handle.slot * this.pointStride;
+		velocities?.forEach((velocity, i) => {
+			this.radialVelocity[base + i] = velocity.radialVelocity;
+			this.angularVelocity[base + i] = velocity.angularVelocity;
+		});
+		this.views[handle.slot][VELOCITIES] = velocities?.map((velocity, index) =>
+			createVelocityView({ blob: handle, index }, velocity),
+		);
+	}
+
+	private reserveStride(length: number): void {
+		if (length > this.pointStride) this.bind(this.views, length);
+	}
+}
+
+// One shared descriptor set per field, so every view has the same shape and
+// property reads stay monomorphic. Accessors are enumerable own properties:
+// spreading, structuredClone(), JSON and deep equality all see the values.
+const BLOB_ACCESSORS: PropertyDescriptorMap = {
+	currentX: {
+		enumerable: true,
+		get(this: BlobView) {
+			const handle = this[HANDLE];
+			return handle.store.positionX[handle.slot];
+		},
+		set(this: BlobView, value: number) {
+			const handle = this[HANDLE];
+			handle.store.positionX[handle.slot] = value;
+		},
+	},
+	currentY: {
+		enumerable: true,
+		get(this: BlobView) {
+			const handle = this[HANDLE];
+			return handle.store.positionY[handle.slot];
+		},
+		set(this: BlobView, value: number) {
+			const handle = this[HANDLE];
+			handle.store.positionY[handle.slot] = value;
+		},
+	},
+	velocityX: {
+		enumerable: true,
+		get(this: BlobView) {
+			const handle = this[HANDLE];
+			return handle.store.velocityX[handle.slot];
+		},
+		set(this: BlobView, value: number) {
+			const handle = this[HANDLE];
+			handle.store.velocityX[handle.slot] = value;
+		},
+	},
+	velocityY: {
+		enumerable: true,
+		get(this: BlobView) {
+			const handle = this[HANDLE];
+			return handle.store.velocityY[handle.slot];
+		},
+		set(this: BlobView, value: number) {
+			const handle = this[HANDLE];
+			handle.store.velocityY[handle.slot] = value;
+		},
+	},
+	controlPoints: {
+		enumerable: true,
+		get(this: BlobView) {
+			return this[POINTS];
+		},
+		set(this: BlobView, points: ControlPoint[] | undefined) {
+			const handle = this[HANDLE];
+			handle.store.adoptControlPoints(handle, points);
+		},
+	},
+	controlVelocities: {
+		enumerable: true,
+		get(this: BlobView) {
+			return this[VELOCITIES];
+		},
+		set(this: BlobView, velocities: ControlPointVelocity[] | undefined) {
+			const handle = this[HANDLE];
+			handle.store.adoptControlVelocities(handle, velocities);
+		},
+	},
+};
+
+// Point accessors are spelled out per field, like the blob ones: a shared
+// getter indexing `store[field]` is a keyed load V8 will not inline.
+const POINT_ACCESSORS: PropertyDescriptorMap = {
+	radius: {
+		enumerable: true,
+		get(this: PointView) {
+			const { blob, index } = this[HANDLE];
+			return blob.store.radius[blob.slot * blob.store.pointStride + index];
+		},
+		set(this: PointView, value: number) {
+			const { blob, index } = this[HANDLE];
+			blob.store.radius[blob.slot * blob.store.pointStride + index] = value;
+		},
+	},
+	baseRadius: {
+		enumerable: true,
+		get(this: PointView) {
+			const { blob, index } = this[HANDLE];
+			return blob.store.baseRadius[blob.slot * blob.store.pointStride + index];
+		},
+		set(this: PointView, value: number) {
+			const { blob, index } = this[HANDLE];
+			blob.store.baseRadius[blob.slot * blob.store.pointStride + index] = value;
+		},
+	},
+	angle: {
+		enumerable: true,
+		get(this: PointView) {
+			const { blob, index } = this[HANDLE];
+			return blob.store.angle[blob.slot * blob.store.pointStride + index];
+		},
+		set(this: PointView, value: number) {
+			const { blob, index } = this[HANDLE];
+			blob.store.angle[blob.slot * blob.store.pointStride + index] = value;
+		},
+	},
+};
+
+const VELOCITY_ACCESSORS: PropertyDescriptorMap = {
+	radialVelocity: {
+		enumerable: true,
+		get(this: VelocityView) {
+			const { blob, index } = this[HANDLE];
+			return blob.store.radialVelocity[blob.slot * blob.store.pointStride + index];
+		},
+		set(this: VelocityView, value: number) {
+			const { blob, index } = this[HANDLE];
+			blob.store.radialVelocity[blob.slot * blob.store.pointStride + index] = value;
+		},
+	},
+	angularVelocity: {
+		enumerable: true,
+		get(this: VelocityView) {
+			const { blob, index } = this[HANDLE];
+			return blob.store.angularVelocity[blob.slot * blob.store.pointStride + index];
+		},
+		set(this: VelocityView, value: number) {
+			const { blob, index } = this[HANDLE];
+			blob.store.angularVelocity[blob.slot * blob.store.pointStride + index] = value;
+		},
+	},
+};
+
+// Makes `target` hold the enumerable fields of `source` and nothing else,
+// leaving its control points to the caller.
+function copyFields(target: object, source: object): void {
+	const to = target as Record<string, unknown>;
+	const from = source as Record<string, unknown>;
+	for (const key in to) {
+		if (!(key in from)) delete to[key];
+	}
+	for (const key in from) {
+		if (key !== 'controlPoints') to[key] = from[key];
+	}
+}
+
+function createBlobView(handle: BlobHandle, blob: ConvexBlob): BlobView {
+	const {
+		currentX: _x,
+		currentY: _y,
+		velocityX: _vx,
+		velocityY: _vy,
+		controlPoints,
+		controlVelocities,
+		...rest
+	} = blob;
+	const view = rest as BlobView;
+	Object.defineProperty(view, HANDLE, { value: handle });
+	Object.defineProperty(view, POINTS, {
+		value: controlPoints?.map((point, index) => createPointView({ blob: handle, index }, point)),
+		writable: true,
+	});
+	Object.defineProperty(view, VELOCITIES, {
+		value: controlVelocities?.map((velocity, index) =>
+			createVelocityView({ blob: handle, index }, velocity),
+		),
+		writable: true,
+	});
+	return Object.defineProperties(view, BLOB_ACCESSORS);
+}
+
+function createPointView(handle: PointHandle, point: ControlPoint): PointView {
+	const { radius: _radius, baseRadius: _baseRadius, angle: _angle, ...rest } = point;
+	const view = rest as PointView;
+	Object.defineProperty(view, HANDLE, { value: handle });
+	return Object.defineProperties(view, POINT_ACCESSORS);
+}
+
+function createVelocityView(handle: PointHandle, velocity: ControlPointVelocity): VelocityView {
+	const { radialVelocity: _radial, angularVelocity: _angular, ...rest } = velocity;
+	const view = rest as VelocityView;
+	Object.defineProperty(view, HANDLE, { value: handle });
+	return Object.defineProperties(view, VELOCITY_ACCESSORS);
+}
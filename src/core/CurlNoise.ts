@@ -0,0 +1,126 @@
+import type { FieldVector } from './InteractionField.js';
+import { createSeededRandom } from './random.js';
+
+// Seeded 3D simplex noise and the 2D curl of it. Treating the noise as a
+// stream function over (x, y) and advancing z with time gives a smooth,
+// divergence-free flow: neighbouring points move together and nothing
+// piles up or drains away, which is what reads as slow currents rather
+// than per-blob jitter.
+
+export type SimplexNoise3D = (x: number, y: number, z: number) => number;
+
+export type CurlNoiseField = (x: number, y: number, z: number) => FieldVector;
+
+const GRADIENTS_3D = [
+	[1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+	[1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+	[0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+// Central differences in noise space; small next to a feature (~1 unit) and
+// far above float noise.
+const CURL_EPSILON = 1e-3;
+// The noise's gradient peaks a little under 7 per unit, so this keeps the
+// curl's magnitude inside [0, 1].
+const CURL_NORMALIZATION = 1 / 7;
+
+export function createSimplexNoise3D(seed = 0): SimplexNoise3D {
+	const random = createSeededRandom(seed);
+	const permutation = new Uint8Array(256);
+	for (let i = 0; i < 256; i++) permutation[i] = i;
+	for (let i = 255; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		const swap = permutation[i];
+		permutation[i] = permutation[j];
+		permutation[j] = swap;
+	}
+	const perm = new Uint8Array(512);
+	const gradientIndex = new Uint8Array(512);
+	for (let i = 0; i < 512; i++) {
+		perm[i] = permutation[i & 255];
+		gradientIndex[i] = perm[i] % 12;
+	}
+
+	const corner = (t: number, gi: number, x: number, y: number, z: number): number => {
+		if (t < 0) return 0;
+		const g = GRADIENTS_3D[gi];
+		const t2 = t * t;
+		return t2 * t2 * (g[0] * x + g[1] * y + g[2] * z);
+	};
+
+	return (x, y, z) => {
+		const s = (x + y + z) * F3;
+		const i = Math.floor(x + s);
+		const j = Math.floor(y + s);
+		const k = Math.floor(z + s);
+		const t = (i + j + k) * G3;
+		const x0 = x - (i - t);
+		const y0 = y - (j - t);
+		const z0 = z - (k - t);
+
+		// Which of the six tetrahedra in the skewed cube holds the point.
+		let i1: number, j1: number, k1: number, i2: number, j2: number, k2: number;
+		if (x0 >= y0) {
+			if (y0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 1, 0];
+			else if (x0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 0, 1];
+			else [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 1, 0, 1];
+		} else if (y0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 0, 1, 1];
+		else if (x0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 0, 1, 1];
+		else [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 1, 1, 0];
+
+		const x1 = x0 - i1 + G3;
+		const y1 = y0 - j1 + G3;
+		const z1 = z0 - k1 + G3;
+		const x2 = x0 - i2 + 2 * G3;
+		const y2 = y0 - j2 + 2 * G3;
+		const z2 = z0 - k2 + 2 * G3;
+		const x3 = x0 - 1 + 3 * G3;
+		const y3 = y0 - 1 + 3 * G3;
+		const z3 = z0 - 1 + 3 * G3;
+
+		const ii = i & 255;
+		const jj = j & 255;
+		const kk = k & 255;
+
+		const n =
+			corner(0.6 - x0 * x0 - y0 * y0 - z0 * z0, gradientIndex[ii + perm[jj + perm[kk]]], x0, y0, z0) +
+			corner(
+				0.6 - x1 * x1 - y1 * y1 - z1 * z1,
+				gradientIndex[ii + i1 + perm[jj + j1 + perm[kk + k1]]],
+				x1,
+				y1,
+				z1,
+			) +
+			corner(
+				0.6 - x2 * x2 - y2 * y2 - z2 * z2,
+				gradientIndex[ii + i2 + perm[jj + j2 + perm[kk + k2]]],
+				x2,
+				y2,
+				z2,
+			) +
+			corner(
+				0.6 - x3 * x3 - y3 * y3 - z3 * z3,
+				gradientIndex[ii + 1 + perm[jj + 1 + perm[kk + 1]]],
+				x3,
+				y3,
+				z3,
+			);
+
+		// Scales the sum into roughly [-1, 1].
+		return 32 * n;
+	};
+}
+
+// (∂n/∂y, -∂n/∂x) of the noise at (x, y), with z as the time axis.
+export function createCurlNoiseField(seed = 0): CurlNoiseField {
+	const noise = createSimplexNoise3D(seed);
+	const scale = CURL_NORMALIZATION / (2 * CURL_EPSILON);
+
+	return (x, y, z) => ({
+		x: (noise(x, y + CURL_EPSILON, z) - noise(x, y - CURL_EPSILON, z)) * scale,
+		y: -(noise(x + CURL_EPSILON, y, z) - noise(x - CURL_EPSILON, y, z)) * scale,
+	});
+}
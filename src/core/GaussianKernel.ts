@@ -11,6 +11,8 @@ export class GaussianKernel {
 	private weights: Float32Array;
 	private halfSize: number;
 	private size: number;
+	// Reused across convolve() calls; Float32 like the weights.
+	private scratch = new Float32Array(0);
 
 	
 
@@ -57,7 +59,8 @@ export class GaussianKernel {
 		if (n < 3) return;
 
 		
-		const originalRadii = new Float32Array(n);
+		if (this.scratch.length < n) this.scratch = new Float32Array(n);
+		const originalRadii = this.scratch;
 		for (let i = 0; i < n; i++) {
 			originalRadii[i] = points[i].radius;
 		}
@@ -76,6 +79,29 @@ export class GaussianKernel {
 		}
 	}
 
+	// convolve() for structure-of-arrays storage: smooths `count` radii
+	// starting at `offset` in place, with the same Float32 rounding.
+	convolveRange(radii: Float64Array, offset: number, count: number): void {
+		if (count < 3) return;
+
+		if (this.scratch.length < count) this.scratch = new Float32Array(count);
+		const originalRadii = this.scratch;
+		for (let i = 0; i < count; i++) {
+			originalRadii[i] = radii[offset + i];
+		}
+
+		for (let i = 0; i < count; i++) {
+			let smoothedRadius = 0;
+
+			for (let j = 0; j < this.size; j++) {
+				const idx = (i + j - this.halfSize + count) % count;
+				smoothedRadius += originalRadii[idx] * this.weights[j];
+			}
+
+			radii[offset + i] = smoothedRadius;
+		}
+	}
+
 	
 
 
@@ -3,11 +3,36 @@ export interface FieldVector {
 	y: number;
 }
 
+export type FieldFalloff = 'smooth' | 'linear';
+
 export interface PointFieldOptions {
 	origin: FieldVector;
 	target: FieldVector;
 	radius: number;
 	strength: number;
+	/** Defaults to 'smooth' (quadratic). */
+	falloff?: FieldFalloff;
+}
+
+// A named point of influence BlobPhysics samples every step, alongside the
+// pointer field. Positive strength attracts and negative repels; 1 matches
+// the pointer field's pull.
+export interface FieldAnchor {
+	x: number;
+	y: number;
+	radius: number;
+	strength: number;
+	falloff?: FieldFalloff;
+}
+
+export function isValidFieldAnchor(anchor: FieldAnchor): boolean {
+	return (
+		Number.isFinite(anchor.x) &&
+		Number.isFinite(anchor.y) &&
+		Number.isFinite(anchor.strength) &&
+		Number.isFinite(anchor.radius) &&
+		anchor.radius > 0
+	);
 }
 
 const magnitude = (vector: FieldVector): number =>
@@ -45,20 +70,44 @@ export function directionalBiasField(
 	input: FieldVector,
 	strength: number,
 	maxMagnitude = 1,
+): FieldVector {
+	return directionalBiasFieldInto({ x: 0, y: 0 }, input.x, input.y, strength, maxMagnitude);
+}
+
+// The *Into variants write into a caller-owned vector and take scalars, so
+// the per-step paths in BlobPhysics run without allocating.
+export function directionalBiasFieldInto(
+	out: FieldVector,
+	inputX: number,
+	inputY: number,
+	strength: number,
+	maxMagnitude = 1,
 ): FieldVector {
 	const max = Math.max(0, maxMagnitude);
-	const x = input.x * strength;
-	const y = input.y * strength;
+	const x = inputX * strength;
+	const y = inputY * strength;
 	const currentMagnitude = Math.sqrt(x * x + y * y);
 
-	if (max === 0 || currentMagnitude === 0) return { x: 0, y: 0 };
-	if (currentMagnitude <= max) return { x, y };
+	if (max === 0 || currentMagnitude === 0) return setVector(out, 0, 0);
+	if (currentMagnitude <= max) return setVector(out, x, y);
 
 	const scale = max / currentMagnitude;
-	return {
-		x: x * scale,
-		y: y * scale,
-	};
+	return setVector(out, x * scale, y * scale);
+}
+
+export function clampFieldVectorInto(
+	out: FieldVector,
+	x: number,
+	y: number,
+	maxMagnitude = 1,
+): FieldVector {
+	const max = Math.max(0, maxMagnitude);
+	const currentMagnitude = Math.sqrt(x * x + y * y);
+	if (max === 0 || currentMagnitude === 0) return setVector(out, 0, 0);
+	if (currentMagnitude <= max) return setVector(out, x, y);
+
+	const scale = max / currentMagnitude;
+	return setVector(out, x * scale, y * scale);
 }
 
 export function smoothDistanceFalloff(distance: number, radius: number): number {
@@ -69,22 +118,57 @@ export function smoothDistanceFalloff(distance: number, radius: number): number
 	return normalized * normalized;
 }
 
+export function linearDistanceFalloff(distance: number, radius: number): number {
+	const boundedDistance = Math.max(0, distance);
+	if (radius <= 0 || boundedDistance >= radius) return 0;
+
+	return 1 - boundedDistance / radius;
+}
+
 export function pointAttractorField({
 	origin,
 	target,
 	radius,
 	strength,
+	falloff = 'smooth',
 }: PointFieldOptions): FieldVector {
-	const dx = target.x - origin.x;
-	const dy = target.y - origin.y;
+	return pointAttractorFieldInto(
+		{ x: 0, y: 0 },
+		origin.x,
+		origin.y,
+		target.x,
+		target.y,
+		radius,
+		strength,
+		falloff,
+	);
+}
+
+export function pointAttractorFieldInto(
+	out: FieldVector,
+	originX: number,
+	originY: number,
+	targetX: number,
+	targetY: number,
+	radius: number,
+	strength: number,
+	falloff: FieldFalloff = 'smooth',
+): FieldVector {
+	const dx = targetX - originX;
+	const dy = targetY - originY;
 	const distance = Math.sqrt(dx * dx + dy * dy);
-	if (distance === 0 || radius <= 0 || distance >= radius) return { x: 0, y: 0 };
+	if (distance === 0 || radius <= 0 || distance >= radius) return setVector(out, 0, 0);
 
-	const normalized = 1 - distance / radius;
-	const falloff = normalized * normalized;
-	const scale = (falloff * strength) / distance;
-	return {
-		x: dx * scale,
-		y: dy * scale,
-	};
+	const weight =
+		falloff === 'linear'
+			? linearDistanceFalloff(distance, radius)
+			: smoothDistanceFalloff(distance, radius);
+	const scale = (weight * strength) / distance;
+	return setVector(out, dx * scale, dy * scale);
+}
+
+function setVector(out: FieldVector, x: number, y: number): FieldVector {
+	out.x = x;
+	out.y = y;
+	return out;
 }
@@ -1,179 +1,203 @@
+import type { ConvexBlob } from './types.js';
 
+// Uniform grid over blob centers. Cells are keyed by their packed integer
+// coordinates in an open-addressed table, and each cell's entries are an
+// index list threaded through typed arrays in insertion order, so a
+// rebuild and the index queries allocate nothing once the arrays have
+// grown to the blob count.
 
+const EMPTY = -1;
+// Cell coordinates are packed into 16 bits each; the grid wraps past
+// ±32768 cells, which only merges cells no blob can reach.
+const CELL_MASK = 0xffff;
 
-
-
-
-
-
-
-
-
-
-import type { ConvexBlob } from './types.js';
+const NEIGHBOR_OFFSETS = [
+	[1, 0],
+	[1, 1],
+	[0, 1],
+	[-1, 1],
+];
 
 export class SpatialHash {
 	private cellSize: number;
-	private cells: Map<string, ConvexBlob[]>;
-	private blobToCell: Map<ConvexBlob, string>;
-
-	
-
-
+	private items: readonly ConvexBlob[] = [];
+	private count = 0;
+	private x = new Float64Array(0);
+	private y = new Float64Array(0);
+	private next = new Int32Array(0);
+
+	// Table slots hold a cell key plus the head and tail of its entry list;
+	// a slot is live only when its stamp matches the current generation, so
+	// clearing is a counter bump rather than a fill.
+	private tableMask = 0;
+	private tableKey = new Int32Array(0);
+	private tableStamp = new Uint32Array(0);
+	private tableHead = new Int32Array(0);
+	private tableTail = new Int32Array(0);
+	private generation = 0;
+	// Live table slots in the order their cells were first filled.
+	private occupied = new Int32Array(0);
+	private occupiedCount = 0;
+	private scratch = new Int32Array(0);
 
 	constructor(cellSize: number = 50) {
 		this.cellSize = cellSize;
-		this.cells = new Map();
-		this.blobToCell = new Map();
 	}
 
-	
-
-
-	private hash(x: number, y: number): string {
-		const cellX = Math.floor(x / this.cellSize);
-		const cellY = Math.floor(y / this.cellSize);
-		return `${cellX},${cellY}`;
+	private cellKey(cellX: number, cellY: number): number {
+		return ((cellX & CELL_MASK) << 16) | (cellY & CELL_MASK);
 	}
 
-	
-
-
-	private parseKey(key: string): { cellX: number; cellY: number } {
-		const [cellX, cellY] = key.split(',').map(Number);
-		return { cellX, cellY };
+	// Table slot for `key`, or the empty slot where it would go.
+	private findSlot(key: number): number {
+		let slot = Math.imul(key ^ (key >>> 15), 0x2c1b3c6d) & this.tableMask;
+		while (this.tableStamp[slot] === this.generation && this.tableKey[slot] !== key) {
+			slot = (slot + 1) & this.tableMask;
+		}
+		return slot;
 	}
 
-	
-
-
-
-
-
-	rebuild(blobs: ConvexBlob[]): void {
-		this.cells.clear();
-		this.blobToCell.clear();
-
-		for (const blob of blobs) {
-			const key = this.hash(blob.currentX, blob.currentY);
-
-			if (!this.cells.has(key)) {
-				this.cells.set(key, []);
-			}
+	private reserve(count: number): void {
+		if (count > this.next.length) {
+			const capacity = Math.max(count, this.next.length * 2);
+			this.x = new Float64Array(capacity);
+			this.y = new Float64Array(capacity);
+			this.next = new Int32Array(capacity);
+			this.occupied = new Int32Array(capacity);
+			this.scratch = new Int32Array(capacity);
+		}
 
-			this.cells.get(key)!.push(blob);
-			this.blobToCell.set(blob, key);
+		// At most one cell per entry; keep the table at most half full.
+		let tableSize = 16;
+		while (tableSize < count * 2) tableSize *= 2;
+		if (tableSize > this.tableKey.length) {
+			this.tableKey = new Int32Array(tableSize);
+			this.tableStamp = new Uint32Array(tableSize);
+			this.tableHead = new Int32Array(tableSize);
+			this.tableTail = new Int32Array(tableSize);
+			this.tableMask = tableSize - 1;
+			this.generation = 0;
 		}
 	}
 
-	
-
-
-
-
+	private beginRebuild(count: number): void {
+		this.reserve(count);
+		this.count = count;
+		this.occupiedCount = 0;
+		this.generation = (this.generation + 1) >>> 0;
+		if (this.generation === 0) {
+			this.tableStamp.fill(0);
+			this.generation = 1;
+		}
+	}
 
+	private insert(index: number, x: number, y: number): void {
+		this.x[index] = x;
+		this.y[index] = y;
+		this.next[index] = EMPTY;
+
+		const key = this.cellKey(Math.floor(x / this.cellSize), Math.floor(y / this.cellSize));
+		const slot = this.findSlot(key);
+		if (this.tableStamp[slot] !== this.generation) {
+			this.tableStamp[slot] = this.generation;
+			this.tableKey[slot] = key;
+			this.tableHead[slot] = index;
+			this.occupied[this.occupiedCount++] = slot;
+		} else {
+			this.next[this.tableTail[slot]] = index;
+		}
+		this.tableTail[slot] = index;
+	}
 
+	private cellHead(cellX: number, cellY: number): number {
+		if (this.count === 0) return EMPTY;
+		const slot = this.findSlot(this.cellKey(cellX, cellY));
+		return this.tableStamp[slot] === this.generation ? this.tableHead[slot] : EMPTY;
+	}
 
+	rebuild(blobs: readonly ConvexBlob[]): void {
+		this.beginRebuild(blobs.length);
+		this.items = blobs;
+		for (let i = 0; i < blobs.length; i++) {
+			this.insert(i, blobs[i].currentX, blobs[i].currentY);
+		}
+	}
 
-	query(x: number, y: number, radius: number, excludeBlob?: ConvexBlob): ConvexBlob[] {
-		const results: ConvexBlob[] = [];
-		const cellRadius = Math.ceil(radius / this.cellSize);
+	// Writes the indices (into the rebuilt array) of entries within `radius`
+	// of (x, y) into `out`, sized for at least the entry count, and returns
+	// how many it wrote. Cells are visited column by column and entries in
+	// insertion order.
+	queryIndices(x: number, y: number, radius: number, exclude: number, out: Int32Array): number {
+		const { cellSize, next } = this;
+		const entryX = this.x;
+		const entryY = this.y;
+		const cellRadius = Math.ceil(radius / cellSize);
 		const radiusSquared = radius * radius;
+		const centerCellX = Math.floor(x / cellSize);
+		const centerCellY = Math.floor(y / cellSize);
+		let found = 0;
 
-		const centerCellX = Math.floor(x / this.cellSize);
-		const centerCellY = Math.floor(y / this.cellSize);
-
-		
 		for (let dx = -cellRadius; dx <= cellRadius; dx++) {
 			for (let dy = -cellRadius; dy <= cellRadius; dy++) {
-				const key = `${centerCellX + dx},${centerCellY + dy}`;
-				const cell = this.cells.get(key);
-
-				if (cell) {
-					for (const blob of cell) {
-						if (blob === excludeBlob) continue;
-
-						
-						const blobDx = blob.currentX - x;
-						const blobDy = blob.currentY - y;
-						const distSquared = blobDx * blobDx + blobDy * blobDy;
-
-						if (distSquared < radiusSquared) {
-							results.push(blob);
-						}
+				for (let i = this.cellHead(centerCellX + dx, centerCellY + dy); i !== EMPTY; i = next[i]) {
+					if (i === exclude) continue;
+					const entryDx = entryX[i] - x;
+					const entryDy = entryY[i] - y;
+					if (entryDx * entryDx + entryDy * entryDy < radiusSquared) {
+						out[found++] = i;
 					}
 				}
 			}
 		}
 
-		return results;
+		return found;
 	}
 
-	
-
-
-
-
-
+	query(x: number, y: number, radius: number, excludeBlob?: ConvexBlob): ConvexBlob[] {
+		const exclude = excludeBlob ? this.items.indexOf(excludeBlob) : EMPTY;
+		const found = this.queryIndices(x, y, radius, exclude, this.scratch);
+		const results: ConvexBlob[] = [];
+		for (let i = 0; i < found; i++) {
+			results.push(this.items[this.scratch[i]]);
+		}
+		return results;
+	}
 
 	queryNeighbors(blob: ConvexBlob, radius: number): ConvexBlob[] {
 		return this.query(blob.currentX, blob.currentY, radius, blob);
 	}
 
-	
-
-
-
-
-
-
+	// Pairs closer than `interactionRadius`, each once: within a cell, then
+	// against the four forward neighbours of every cell.
 	getAllPairs(interactionRadius: number): Array<[ConvexBlob, ConvexBlob, number]> {
 		const pairs: Array<[ConvexBlob, ConvexBlob, number]> = [];
-		const processed = new Set<string>();
 		const radiusSquared = interactionRadius * interactionRadius;
+		const visit = (first: number, second: number) => {
+			const dx = this.x[second] - this.x[first];
+			const dy = this.y[second] - this.y[first];
+			const distSquared = dx * dx + dy * dy;
+			if (distSquared < radiusSquared) {
+				pairs.push([this.items[first], this.items[second], Math.sqrt(distSquared)]);
+			}
+		};
 
-		for (const [key, blobs] of this.cells) {
-			const { cellX, cellY } = this.parseKey(key);
-
-			
-			for (let i = 0; i < blobs.length; i++) {
-				for (let j = i + 1; j < blobs.length; j++) {
-					const b1 = blobs[i];
-					const b2 = blobs[j];
-
-					const dx = b2.currentX - b1.currentX;
-					const dy = b2.currentY - b1.currentY;
-					const distSquared = dx * dx + dy * dy;
+		for (let c = 0; c < this.occupiedCount; c++) {
+			const slot = this.occupied[c];
+			const head = this.tableHead[slot];
 
-					if (distSquared < radiusSquared) {
-						pairs.push([b1, b2, Math.sqrt(distSquared)]);
-					}
+			for (let i = head; i !== EMPTY; i = this.next[i]) {
+				for (let j = this.next[i]; j !== EMPTY; j = this.next[j]) {
+					visit(i, j);
 				}
 			}
 
-			
-			const neighborOffsets = [
-				[1, 0],
-				[1, 1],
-				[0, 1],
-				[-1, 1],
-			];
-
-			for (const [dx, dy] of neighborOffsets) {
-				const neighborKey = `${cellX + dx},${cellY + dy}`;
-				const neighborBlobs = this.cells.get(neighborKey);
-
-				if (neighborBlobs) {
-					for (const b1 of blobs) {
-						for (const b2 of neighborBlobs) {
-							const blobDx = b2.currentX - b1.currentX;
-							const blobDy = b2.currentY - b1.currentY;
-							const distSquared = blobDx * blobDx + blobDy * blobDy;
-
-							if (distSquared < radiusSquared) {
-								pairs.push([b1, b2, Math.sqrt(distSquared)]);
-							}
-						}
+			const cellX = Math.floor(this.x[head] / this.cellSize);
+			const cellY = Math.floor(this.y[head] / this.cellSize);
+			for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+				const neighborHead = this.cellHead(cellX + dx, cellY + dy);
+				for (let i = head; i !== EMPTY; i = this.next[i]) {
+					for (let j = neighborHead; j !== EMPTY; j = this.next[j]) {
+						visit(i, j);
 					}
 				}
 			}
@@ -182,33 +206,28 @@ export class SpatialHash {
 		return pairs;
 	}
 
-	
-
-
 	getCellSize(): number {
 		return this.cellSize;
 	}
 
-	
-
-
 	getCellCount(): number {
-		return this.cells.size;
+		return this.occupiedCount;
 	}
 
-	
-
-
 	getCell(x: number, y: number): ConvexBlob[] {
-		const key = this.hash(x, y);
-		return this.cells.get(key) || [];
+		const cell: ConvexBlob[] = [];
+		for (
+			let i = this.cellHead(Math.floor(x / this.cellSize), Math.floor(y / this.cellSize));
+			i !== EMPTY;
+			i = this.next[i]
+		) {
+			cell.push(this.items[i]);
+		}
+		return cell;
 	}
 
-	
-
-
 	clear(): void {
-		this.cells.clear();
-		this.blobToCell.clear();
+		this.beginRebuild(0);
+		this.items = [];
 	}
 }
@@ -172,6 +172,59 @@ export class SpringSystem {
 		}
 	}
 
+	// updateAllControlPoints() for structure-of-arrays storage: integrates
+	// points [offset, offset + count) of the arrays in place, in the same
+	// order and with the same arithmetic.
+	updateRadii(
+		radius: Float64Array,
+		baseRadius: Float64Array,
+		radialVelocity: Float64Array,
+		externalForces: ArrayLike<number>,
+		offset: number,
+		count: number,
+		dt: number
+	): void {
+		if (count < 3) return;
+		const {
+			springConstant,
+			dampingCoeff,
+			couplingStrength,
+			surfaceTension,
+			pressure,
+			maxDeformation,
+			maxVelocity,
+		} = this.config;
+
+		for (let i = 0; i < count; i++) {
+			const point = offset + i;
+			const leftRadius = radius[offset + ((i - 1 + count) % count)];
+			const rightRadius = radius[offset + ((i + 1) % count)];
+			const base = baseRadius[point];
+			const current = radius[point];
+
+			const F_spring = -springConstant * (current - base);
+			const F_tension = -surfaceTension * (current - (leftRadius + rightRadius) / 2);
+			const F_pressure = (pressure - 1.0) * base * 0.01;
+			const F_coupling = couplingStrength * (leftRadius - current + (rightRadius - current)) * 0.5;
+			const F_damping = -dampingCoeff * radialVelocity[point];
+			const F_total =
+				F_spring + F_tension + F_pressure + F_coupling + F_damping + (externalForces[i] || 0);
+
+			let velocity = radialVelocity[point] + F_total * dt;
+			velocity = Math.max(-maxVelocity, Math.min(maxVelocity, velocity));
+
+			const minRadius = base * (1 - maxDeformation);
+			const maxRadius = base * (1 + maxDeformation);
+			const next = Math.max(minRadius, Math.min(maxRadius, current + velocity * dt));
+			if (next === minRadius || next === maxRadius) {
+				velocity *= 0.3;
+			}
+
+			radius[point] = next;
+			radialVelocity[point] = velocity;
+		}
+	}
+
 	
 
 
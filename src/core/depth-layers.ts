@@ -0,0 +1,103 @@
+import { clampFieldVector, type FieldVector } from './InteractionField.js';
+
+// Depth layers come from ThemeColor.layer: every preset colour names the
+// plane its blobs live in. BlobPhysics scales how far each layer's blobs
+// move and how large they draw; BlobSVG draws the layers back to front
+// with their own blur and opacity, shifted by a parallax offset so the
+// foreground reacts to input more than the background.
+
+export type DepthLayer = 'background' | 'mid' | 'foreground';
+
+/** Back-to-front draw order. */
+export const DEPTH_LAYERS: readonly DepthLayer[] = ['background', 'mid', 'foreground'];
+
+export interface DepthLayerConfig {
+	/** Drawn size multiplier range; each blob keeps a stable pick inside it. */
+	sizeRange: [number, number];
+	/** Extra Gaussian blur (SVG stdDeviation) over the whole layer. */
+	blur: number;
+	/** Layer opacity, 0..1. */
+	opacity: number;
+	/** Multiplier on how far the layer's blobs travel per step. */
+	speed: number;
+	/** Parallax travel in physics units at full pointer or tilt deflection. */
+	parallax: number;
+}
+
+export type DepthLayersConfig = Record<DepthLayer, DepthLayerConfig>;
+
+export type DepthLayersOverride = Partial<Record<DepthLayer, Partial<DepthLayerConfig>>>;
+
+// mid is the neutral plane: blobs whose colour names no layer land there
+// and draw and move exactly as they do without depth layers.
+export const DEFAULT_DEPTH_LAYERS: DepthLayersConfig = {
+	background: { sizeRange: [0.75, 0.95], blur: 1.5, opacity: 0.7, speed: 0.6, parallax: 1.5 },
+	mid: { sizeRange: [1, 1], blur: 0, opacity: 1, speed: 1, parallax: 3 },
+	foreground: { sizeRange: [1.05, 1.25], blur: 0, opacity: 1, speed: 1.3, parallax: 6 },
+};
+
+/** Pointer and tilt in -1..1 from neutral; scroll is progress through the scrollable range, 0..1. */
+export interface ParallaxInput {
+	pointer: FieldVector;
+	tilt: FieldVector;
+	scroll: number;
+}
+
+export const NEUTRAL_PARALLAX_INPUT: ParallaxInput = {
+	pointer: { x: 0, y: 0 },
+	tilt: { x: 0, y: 0 },
+	scroll: 0,
+};
+
+// Scrolling the whole page moves a layer this many times its parallax.
+const SCROLL_PARALLAX = 2;
+
+export function resolveDepthLayers(override: DepthLayersOverride = {}): DepthLayersConfig {
+	const resolved = {} as DepthLayersConfig;
+	for (const layer of DEPTH_LAYERS) {
+		const merged = { ...DEFAULT_DEPTH_LAYERS[layer], ...override[layer] };
+		resolved[layer] = { ...merged, sizeRange: [merged.sizeRange[0], merged.sizeRange[1]] };
+	}
+	return resolved;
+}
+
+export function isValidDepthLayers(layers: DepthLayersConfig): boolean {
+	return DEPTH_LAYERS.every((layer) => {
+		const { sizeRange, blur, opacity, speed, parallax } = layers[layer];
+		return (
+			sizeRange[0] > 0 &&
+			sizeRange[1] >= sizeRange[0] &&
+			Number.isFinite(sizeRange[1]) &&
+			blur >= 0 &&
+			Number.isFinite(blur) &&
+			opacity >= 0 &&
+			opacity <= 1 &&
+			speed >= 0 &&
+			Number.isFinite(speed) &&
+			Number.isFinite(parallax)
+		);
+	});
+}
+
+// Layers shift against the pointer and tilt, the way nearer planes slide
+// further when the viewer moves, and drift up as the page scrolls down.
+export function getParallaxOffset(layer: DepthLayerConfig, input: ParallaxInput): FieldVector {
+	const lean = clampFieldVector(
+		{ x: input.pointer.x + input.tilt.x, y: input.pointer.y + input.tilt.y },
+		1,
+	);
+	const scroll = Math.min(Math.max(input.scroll, 0), 1);
+	return {
+		x: -lean.x * layer.parallax,
+		y: -lean.y * layer.parallax - scroll * layer.parallax * SCROLL_PARALLAX,
+	};
+}
+
+// A stable pick inside the layer's size range, keyed off the blob's phase
+// so a blob keeps its size from frame to frame.
+export function getDepthScale(layer: DepthLayerConfig, phase: number): number {
+	const [min, max] = layer.sizeRange;
+	const turn = Math.PI * 2;
+	const t = (((phase % turn) + turn) % turn) / turn;
+	return min + (max - min) * t;
+}
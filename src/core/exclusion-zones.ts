@@ -0,0 +1,132 @@
+// Regions blobs should keep out of, in physics coordinates. BlobPhysics
+// samples the signed distance to each zone and pushes blobs away with a soft
+// wall field, so copy laid over the background stays legible without blobs
+// snapping at the zone's edge.
+
+export interface ExclusionZoneOptions {
+	/** Extra clearance kept between a blob's edge and the zone, in physics units. */
+	padding?: number;
+	/** Multiplier on the repulsive field. Defaults to 1. */
+	strength?: number;
+}
+
+export interface RectExclusionZone extends ExclusionZoneOptions {
+	shape: 'rect';
+	minX: number;
+	minY: number;
+	maxX: number;
+	maxY: number;
+}
+
+export interface RoundedRectExclusionZone extends ExclusionZoneOptions {
+	shape: 'roundedRect';
+	minX: number;
+	minY: number;
+	maxX: number;
+	maxY: number;
+	/** Corner radius, clamped to half the shorter side. */
+	radius: number;
+}
+
+export interface CircleExclusionZone extends ExclusionZoneOptions {
+	shape: 'circle';
+	x: number;
+	y: number;
+	radius: number;
+}
+
+export type ExclusionZone = RectExclusionZone | RoundedRectExclusionZone | CircleExclusionZone;
+
+// Signed distance from a point to the zone's outline (negative inside) and
+// the outward unit normal at the closest outline point.
+export interface ZoneDistance {
+	distance: number;
+	normalX: number;
+	normalY: number;
+}
+
+export function getZoneDistance(zone: ExclusionZone, x: number, y: number): ZoneDistance {
+	return getZoneDistanceInto({ distance: 0, normalX: 0, normalY: 0 }, zone, x, y);
+}
+
+// getZoneDistance() writing into a caller-owned result, for the per-step path.
+export function getZoneDistanceInto(
+	out: ZoneDistance,
+	zone: ExclusionZone,
+	x: number,
+	y: number,
+): ZoneDistance {
+	if (zone.shape === 'circle') {
+		const dx = x - zone.x;
+		const dy = y - zone.y;
+		const length = Math.sqrt(dx * dx + dy * dy);
+		// The exact center has no preferred direction; push upward.
+		if (length === 0) return setZoneDistance(out, -zone.radius, 0, -1);
+		return setZoneDistance(out, length - zone.radius, dx / length, dy / length);
+	}
+
+	const halfWidth = (zone.maxX - zone.minX) / 2;
+	const halfHeight = (zone.maxY - zone.minY) / 2;
+	const radius =
+		zone.shape === 'roundedRect' ? Math.max(0, Math.min(zone.radius, halfWidth, halfHeight)) : 0;
+	const dx = x - (zone.minX + zone.maxX) / 2;
+	const dy = y - (zone.minY + zone.maxY) / 2;
+	const signX = dx < 0 ? -1 : 1;
+	const signY = dy < 0 ? -1 : 1;
+	const qx = Math.abs(dx) - (halfWidth - radius);
+	const qy = Math.abs(dy) - (halfHeight - radius);
+
+	if (qx > 0 || qy > 0) {
+		const ox = Math.max(qx, 0);
+		const oy = Math.max(qy, 0);
+		const length = Math.sqrt(ox * ox + oy * oy);
+		return setZoneDistance(out, length - radius, (signX * ox) / length, (signY * oy) / length);
+	}
+
+	// Inside the core rectangle: leave through the nearest side.
+	return qx > qy
+		? setZoneDistance(out, qx - radius, signX, 0)
+		: setZoneDistance(out, qy - radius, 0, signY);
+}
+
+function setZoneDistance(
+	out: ZoneDistance,
+	distance: number,
+	normalX: number,
+	normalY: number,
+): ZoneDistance {
+	out.distance = distance;
+	out.normalX = normalX;
+	out.normalY = normalY;
+	return out;
+}
+
+export function isValidExclusionZone(zone: ExclusionZone): boolean {
+	const optionsValid =
+		(zone.padding === undefined || (Number.isFinite(zone.padding) && zone.padding >= 0)) &&
+		(zone.strength === undefined || (Number.isFinite(zone.strength) && zone.strength >= 0));
+	if (!optionsValid) return false;
+
+	switch (zone.shape) {
+		case 'circle':
+			return (
+				Number.isFinite(zone.x) &&
+				Number.isFinite(zone.y) &&
+				Number.isFinite(zone.radius) &&
+				zone.radius >= 0
+			);
+		case 'rect':
+		case 'roundedRect':
+			return (
+				Number.isFinite(zone.minX) &&
+				Number.isFinite(zone.minY) &&
+				Number.isFinite(zone.maxX) &&
+				Number.isFinite(zone.maxY) &&
+				zone.maxX >= zone.minX &&
+				zone.maxY >= zone.minY &&
+				(zone.shape === 'rect' || (Number.isFinite(zone.radius) && zone.radius >= 0))
+			);
+		default:
+			return false;
+	}
+}
@@ -4,7 +4,109 @@
 // changing it.
 
 // — Physics core —
-export { BlobPhysics, type BlobPhysicsConfig } from './BlobPhysics.js';
+export {
+	BlobPhysics,
+	type BlobPhysicsConfig,
+	type BlobPhysicsOptions,
+	type BlobPhysicsSnapshot,
+	type AddBlobOptions,
+	type BlobCountOptions,
+	type BlobTopologyConfig,
+	type PointerFieldConfig,
+	type PointerFieldMode,
+	type AmbientFieldConfig,
+	type AmbientFieldMode,
+	type SetConfigOptions,
+	type BlobPhysicsEvent,
+	type BlobPhysicsEventHandler,
+	type BlobPhysicsEventMap,
+	type BlobPhysicsEventType,
+	type FieldContext,
+	type ForceField,
+	type ForceFieldOptions,
+	type PointerInput,
+	type ScrollFieldInput,
+	BLOB_PHYSICS_EVENT_TYPES,
+	BLOB_PHYSICS_SNAPSHOT_VERSION,
+	DEFAULT_BLOB_TOPOLOGY_CONFIG,
+	DEFAULT_POINTER_FIELD_CONFIG,
+	POINTER_FIELD_MODES,
+	DEFAULT_AMBIENT_FIELD_CONFIG,
+	AMBIENT_FIELD_MODES,
+} from './BlobPhysics.js';
+
+// — World geometry —
+export {
+	DEFAULT_PHYSICS_WORLD,
+	DEFAULT_WORLD_VIEW_FRAMING,
+	createPhysicsWorld,
+	getWorldCenter,
+	getWorldViewBox,
+	getWorldViewRect,
+	isValidPhysicsWorld,
+	type PhysicsWorld,
+	type WorldViewBox,
+	type WorldViewFraming,
+} from './world.js';
+
+// — Interaction fields —
+export {
+	clampFieldVector,
+	combineFieldVectors,
+	directionalBiasField,
+	isValidFieldAnchor,
+	linearDistanceFalloff,
+	pointAttractorField,
+	smoothDistanceFalloff,
+	type FieldAnchor,
+	type FieldFalloff,
+	type FieldVector,
+	type PointFieldOptions,
+} from './InteractionField.js';
+
+// — Depth layers —
+export {
+	DEFAULT_DEPTH_LAYERS,
+	DEPTH_LAYERS,
+	NEUTRAL_PARALLAX_INPUT,
+	getDepthScale,
+	getParallaxOffset,
+	isValidDepthLayers,
+	resolveDepthLayers,
+	type DepthLayer,
+	type DepthLayerConfig,
+	type DepthLayersConfig,
+	type DepthLayersOverride,
+	type ParallaxInput,
+} from './depth-layers.js';
+
+// — Ambient noise —
+export {
+	createCurlNoiseField,
+	createSimplexNoise3D,
+	type CurlNoiseField,
+	type SimplexNoise3D,
+} from './CurlNoise.js';
+
+// — Exclusion zones —
+export {
+	getZoneDistance,
+	isValidExclusionZone,
+	type ExclusionZone,
+	type ExclusionZoneOptions,
+	type RectExclusionZone,
+	type RoundedRectExclusionZone,
+	type CircleExclusionZone,
+	type ZoneDistance,
+} from './exclusion-zones.js';
+
+// — Deterministic randomness —
+export {
+	createSeededRandom,
+	type RandomSource,
+	type SeededRandomSource,
+	type ClockSource,
+} from './random.js';
 
 // — Path generation —
 export {
@@ -28,12 +130,15 @@ export {
 // — Spatial / kernel utilities —
 export { GaussianKernel } from './GaussianKernel.js';
 export { SpatialHash } from './SpatialHash.js';
+export { BlobStore } from './BlobStore.js';
 
 // — Browser detection —
 export { browser, isBrowser } from './browser.js';
 
 // — Blob and motion types —
 export type {
+	BlobColorSource,
+	BlobLifecycle,
 	ControlPoint,
 	ControlPointVelocity,
 	ConvexBlob,
@@ -83,6 +188,10 @@ export type {
 	TinyVectorsEventHandler,
 	TinyVectorsEvent,
 	FrameEventData,
+	CollisionEventData,
+	BounceEventData,
+	SettleEventData,
+	WallSide,
 	ThemeChangeEventData,
 } from './schema.js';
 
@@ -0,0 +1,39 @@
+// Injectable randomness and time sources for BlobPhysics. The simulation
+// only ever draws through these, so a seeded instance is reproducible
+// without monkey-patching Math.random()/Date.now() globally.
+
+export type RandomSource = () => number;
+
+export type ClockSource = () => number;
+
+// A seeded source that can report and rewind its position in the stream,
+// so a snapshot can carry it and a restored simulation keeps drawing the
+// same numbers.
+export interface SeededRandomSource extends RandomSource {
+	getState(): number;
+	setState(state: number): void;
+}
+
+// mulberry32: 32-bit state, full-period, and well distributed enough for
+// ambient jitter. Unlike xorshift32 it does not degenerate on a zero seed,
+// so any finite number is a usable seed.
+export function createSeededRandom(seed: number): SeededRandomSource {
+	let state = Math.floor(Number.isFinite(seed) ? seed : 0) >>> 0;
+	const random = (() => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	}) as SeededRandomSource;
+	random.getState = () => state;
+	random.setState = (next) => {
+		state = next >>> 0;
+	};
+	return random;
+}
+
+export function isSeededRandomSource(random: RandomSource): random is SeededRandomSource {
+	const candidate = random as Partial<SeededRandomSource>;
+	return typeof candidate.getState === 'function' && typeof candidate.setState === 'function';
+}
@@ -67,6 +67,9 @@ export interface CoreConfig {
 
 	
 	startDelay: number;
+
+	
+	sleepFps: number;
 }
 
 
@@ -166,9 +169,6 @@ export interface FeatureFlags {
 	webWorker: boolean;
 
 	
-	wasmAcceleration: boolean;
-
-	
 	debug: boolean;
 }
 
@@ -365,6 +365,9 @@ export type TinyVectorsEventType =
 	| 'modeChange'
 	| 'resize'
 	| 'collision'
+	| 'bounce'
+	| 'settle'
+	| 'wake'
 	| 'dispose';
 
 
@@ -406,6 +409,41 @@ export interface FrameEventData {
 
 
 
+// Emitted by BlobPhysics once per new contact, when two blobs first come
+// inside each other's personal space.
+export interface CollisionEventData {
+	blobA: number;
+	blobB: number;
+	/** How far inside the required separation the pair is, in physics units. */
+	depth: number;
+	/** Midpoint between the two centers. */
+	x: number;
+	y: number;
+}
+
+export type WallSide = 'left' | 'right' | 'top' | 'bottom';
+
+export interface BounceEventData {
+	blobId: number;
+	wall: WallSide;
+	x: number;
+	y: number;
+	/** Speed into the wall before damping, in physics units per step. */
+	speed: number;
+}
+
+// Shared by `settle` (a blob has calmed down) and `wake` (it was kicked
+// back into fast motion).
+export interface SettleEventData {
+	blobId: number;
+	x: number;
+	y: number;
+	speed: number;
+}
+
+
+
+
 export interface ThemeChangeEventData {
 	
 	from: ThemePresetName;
@@ -427,13 +465,19 @@ export interface ThemeChangeEventData {
 export const DEFAULT_CONFIG: TinyVectorsConfig = {
 	version: '1.0.0',
 
+	// Mirrors what TinyVectors renders with no config at all: radii are in
+	// physics units (the default viewBox spans 133), and the fourth layer
+	// (particles) is opt-in.
 	core: {
-		blobCount: 12,
-		minRadius: 40,
-		maxRadius: 160,
+		blobCount: 8,
+		minRadius: 15,
+		maxRadius: 27,
 		fps: 60,
 		animated: true,
 		startDelay: 0,
+		// Update rate once the scene has been at rest for a while; 0 keeps
+		// rendering at fps forever.
+		sleepFps: 18,
 	},
 
 	physics: {
@@ -447,7 +491,7 @@ export const DEFAULT_CONFIG: TinyVectorsConfig = {
 	},
 
 	rendering: {
-		layers: 4,
+		layers: 3,
 		blurRadius: 1.5,
 		glowRadius: 4.0,
 		glowOpacity: 0.35,
@@ -470,9 +514,8 @@ export const DEFAULT_CONFIG: TinyVectorsConfig = {
 	features: {
 		deviceMotion: true,
 		scrollPhysics: true,
-		lazyLoad: true,
+		lazyLoad: false,
 		webWorker: false,
-		wasmAcceleration: false,
 		debug: false,
 	},
 };
@@ -1,3 +1,5 @@
+import type { DepthLayer } from './depth-layers.js';
+
 export type ThemePresetName = 'tinyland' | 'trans' | 'pride' | 'high-contrast' | 'custom';
 
 export type BlendMode = 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'normal';
@@ -7,7 +9,7 @@ export interface ThemeColor {
 	color: string;
 	attractive: boolean;
 	scrollAffinity: number;
-	layer: 'background' | 'mid' | 'foreground';
+	layer: DepthLayer;
 }
 
 export interface ThemePreset {
@@ -1,3 +1,4 @@
+import type { DepthLayer } from './depth-layers.js';
 
 
 
@@ -28,8 +29,33 @@ export interface ControlPointVelocity {
 
 
 
+export type BlobLifecycle = 'entering' | 'active' | 'exiting';
+
+// A palette slot (keyed like blob ids) and its share of a merged blob's
+// colour. Weights of one blob's sources sum to 1.
+export interface BlobColorSource {
+	id: number;
+	weight: number;
+}
+
+
+
+
 export interface ConvexBlob {
 	
+	id?: number;
+
+	
+	lifecycle?: BlobLifecycle;
+	presence?: number;
+	/** Render-only vertical stretch from the scroll field; 0.1 draws the outline 10% taller. */
+	scrollStretch?: number;
+	/** Depth layer named by the blob's theme colour, set by BlobPhysics.setPalette(). */
+	layer?: DepthLayer;
+	/** Render-only size multiplier from the blob's depth layer. */
+	depthScale?: number;
+
+	
 	baseX: number;
 	baseY: number;
 	currentX: number;
@@ -70,6 +96,10 @@ export interface ConvexBlob {
 	lastCollisionTime?: number;
 	mergeThreshold?: number;
 	splitThreshold?: number;
+	colorSources?: BlobColorSource[];
+	mergePartnerId?: number;
+	mergeContactTime?: number;
+	lastTopologyTime?: number;
 
 	
 	isSettled?: boolean;
@@ -0,0 +1,112 @@
+// Shared geometry for the physics world. BlobPhysics clamps blobs to these
+// bounds, BlobSVG derives its viewBox from them and TinyVectors maps pointer
+// input onto the same visible rectangle, so the three can no longer drift
+// apart when the container is not square.
+
+export interface PhysicsWorld {
+	minX: number;
+	minY: number;
+	maxX: number;
+	maxY: number;
+}
+
+export interface WorldViewBox {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+// How much of the world the viewBox shows, in default-world units: the
+// view starts `margin` before the 0..size content square and ends at its
+// far edge. Same shape as TinyVectorsConfig's rendering.viewBox.
+export interface WorldViewFraming {
+	margin: number;
+	size: number;
+}
+
+export const DEFAULT_PHYSICS_WORLD: PhysicsWorld = {
+	minX: -40,
+	minY: -40,
+	maxX: 140,
+	maxY: 140,
+};
+
+export const DEFAULT_WORLD_VIEW_FRAMING: WorldViewFraming = {
+	margin: 33,
+	size: 100,
+};
+
+// The legacy renderer framed the -40..140 physics square with
+// viewBox="-33 -33 133 133": 7 units of bleed past the near walls and 40
+// past the far ones. Keeping those proportions per axis reproduces that
+// exact viewBox for the default world and the same framing for any other.
+const DEFAULT_SPAN = DEFAULT_PHYSICS_WORLD.maxX - DEFAULT_PHYSICS_WORLD.minX;
+const DEFAULT_WORLD_MARGIN = -DEFAULT_PHYSICS_WORLD.minX;
+
+export function getWorldCenter(world: PhysicsWorld): { x: number; y: number } {
+	return {
+		x: (world.minX + world.maxX) / 2,
+		y: (world.minY + world.maxY) / 2,
+	};
+}
+
+export function getWorldViewBox(
+	world: PhysicsWorld,
+	framing: WorldViewFraming = DEFAULT_WORLD_VIEW_FRAMING,
+): WorldViewBox {
+	const spanX = world.maxX - world.minX;
+	const spanY = world.maxY - world.minY;
+	const nearInset = DEFAULT_WORLD_MARGIN - framing.margin;
+	const viewSpan = framing.margin + framing.size;
+	return {
+		x: world.minX + (spanX * nearInset) / DEFAULT_SPAN,
+		y: world.minY + (spanY * nearInset) / DEFAULT_SPAN,
+		width: (spanX * viewSpan) / DEFAULT_SPAN,
+		height: (spanY * viewSpan) / DEFAULT_SPAN,
+	};
+}
+
+// Same visible rectangle as getWorldViewBox(), in the min/max shape the
+// pointer mapper consumes.
+export function getWorldViewRect(
+	world: PhysicsWorld,
+	framing: WorldViewFraming = DEFAULT_WORLD_VIEW_FRAMING,
+): PhysicsWorld {
+	const view = getWorldViewBox(world, framing);
+	return {
+		minX: view.x,
+		minY: view.y,
+		maxX: view.x + view.width,
+		maxY: view.y + view.height,
+	};
+}
+
+// Area-preserving: an aspect ratio of 1 returns the default world, wider
+// ratios trade height for width (and vice versa) around the same center, so
+// blob density stays the same on ultrawide and tall phone layouts.
+export function createPhysicsWorld(aspectRatio: number): PhysicsWorld {
+	const aspect = Number.isFinite(aspectRatio) && aspectRatio > 0 ? aspectRatio : 1;
+	const scale = Math.sqrt(aspect);
+	const center = getWorldCenter(DEFAULT_PHYSICS_WORLD);
+	const halfWidth = (DEFAULT_SPAN * scale) / 2;
+	const halfHeight = DEFAULT_SPAN / scale / 2;
+
+	return {
+		minX: center.x - halfWidth,
+		minY: center.y - halfHeight,
+		maxX: center.x + halfWidth,
+		maxY: center.y + halfHeight,
+	};
+}
+
+export function isValidPhysicsWorld(world: PhysicsWorld): boolean {
+	return (
+		Number.isFinite(world.minX) &&
+		Number.isFinite(world.minY) &&
+		Number.isFinite(world.maxX) &&
+		Number.isFinite(world.maxY) &&
+		world.maxX > world.minX &&
+		world.maxY > world.minY
+	);
+}
@@ -3,6 +3,39 @@
 
 export {
 	BlobPhysics,
+	BLOB_PHYSICS_EVENT_TYPES,
+	BLOB_PHYSICS_SNAPSHOT_VERSION,
+	DEFAULT_BLOB_TOPOLOGY_CONFIG,
+	DEFAULT_POINTER_FIELD_CONFIG,
+	POINTER_FIELD_MODES,
+	DEFAULT_AMBIENT_FIELD_CONFIG,
+	AMBIENT_FIELD_MODES,
+	createSeededRandom,
+	DEFAULT_PHYSICS_WORLD,
+	DEFAULT_WORLD_VIEW_FRAMING,
+	createPhysicsWorld,
+	getWorldCenter,
+	getWorldViewBox,
+	getWorldViewRect,
+	isValidPhysicsWorld,
+	clampFieldVector,
+	combineFieldVectors,
+	directionalBiasField,
+	isValidFieldAnchor,
+	linearDistanceFalloff,
+	pointAttractorField,
+	smoothDistanceFalloff,
+	createCurlNoiseField,
+	createSimplexNoise3D,
+	DEFAULT_DEPTH_LAYERS,
+	DEPTH_LAYERS,
+	NEUTRAL_PARALLAX_INPUT,
+	getDepthScale,
+	getParallaxOffset,
+	isValidDepthLayers,
+	resolveDepthLayers,
+	getZoneDistance,
+	isValidExclusionZone,
 	generateSmoothBlobPath,
 	generateSmoothBlobPathSync,
 	preInitPathGenerator,
@@ -14,6 +47,7 @@ export {
 	createControlPointVelocities,
 	GaussianKernel,
 	SpatialHash,
+	BlobStore,
 	browser,
 	isBrowser,
 	TRANS_THEME,
@@ -28,6 +62,50 @@ export {
 
 export type {
 	BlobPhysicsConfig,
+	BlobPhysicsOptions,
+	BlobPhysicsSnapshot,
+	AddBlobOptions,
+	BlobCountOptions,
+	BlobTopologyConfig,
+	PointerFieldConfig,
+	PointerFieldMode,
+	AmbientFieldConfig,
+	AmbientFieldMode,
+	SetConfigOptions,
+	BlobPhysicsEvent,
+	BlobPhysicsEventHandler,
+	BlobPhysicsEventMap,
+	BlobPhysicsEventType,
+	FieldContext,
+	ForceField,
+	ForceFieldOptions,
+	PointerInput,
+	ScrollFieldInput,
+	BlobColorSource,
+	BlobLifecycle,
+	RandomSource,
+	SeededRandomSource,
+	ClockSource,
+	PhysicsWorld,
+	WorldViewBox,
+	WorldViewFraming,
+	FieldAnchor,
+	FieldFalloff,
+	FieldVector,
+	PointFieldOptions,
+	CurlNoiseField,
+	SimplexNoise3D,
+	DepthLayer,
+	DepthLayerConfig,
+	DepthLayersConfig,
+	DepthLayersOverride,
+	ParallaxInput,
+	ExclusionZone,
+	ExclusionZoneOptions,
+	RectExclusionZone,
+	RoundedRectExclusionZone,
+	CircleExclusionZone,
+	ZoneDistance,
 	SpringConfig,
 	GelControlPoint,
 	ControlPoint,
@@ -58,19 +136,38 @@ export type {
 	TinyVectorsEventHandler,
 	TinyVectorsEvent,
 	FrameEventData,
+	CollisionEventData,
+	BounceEventData,
+	SettleEventData,
+	WallSide,
 	ThemeChangeEventData,
 } from './core/index.js';
 
 export {
 	DeviceMotion,
+	getPhysicsTargetCenter,
 	mapClientPointToPhysics,
+	mapClientRectToPhysics,
+	createExclusionZoneTracker,
+	DEFAULT_AVOID_SELECTOR,
+	createAnchorTracker,
+	DEFAULT_FOCUS_ANCHOR,
 	createPointerPhysicsController,
 	detectPointerPhysicsCapability,
 	getLatestPointerEvent,
+	getPointerStrength,
 	ScrollHandler,
+	createScrollSource,
+	DEFAULT_SCROLL_SOURCES,
 	prefersReducedMotion,
 	watchReducedMotion,
 	VisibilityGate,
+	SleepPolicy,
+	DEFAULT_SLEEP_FPS,
+	QualityController,
+	QUALITY_LADDER,
+	QUALITY_TIERS,
+	detectQualityTier,
 } from './motion/index.js';
 
 export type {
@@ -78,11 +175,24 @@ export type {
 	DeviceMotionOptions,
 	DeviceMotionPermissionState,
 	MotionVector,
+	AnchorElement,
+	AnchorFieldOptions,
+	AnchorTracker,
+	AnchorTrackerEventName,
+	AnchorTrackerEventTarget,
+	AnchorTrackerOptions,
+	ExclusionZoneElement,
+	ExclusionZoneEventTarget,
+	ExclusionZoneRoot,
+	ExclusionZoneTracker,
+	ExclusionZoneTrackerOptions,
 	PhysicsPoint,
 	PhysicsRange,
+	PhysicsTarget,
 	PointerBounds,
 	PointerCapabilityEnvironment,
 	PointerCancelEventName,
+	PointerContactEventName,
 	PointerExitEventName,
 	PointerExitLikeEvent,
 	PointerLifecycleEventName,
@@ -92,8 +202,21 @@ export type {
 	PointerPhysicsControllerOptions,
 	PointerPhysicsEventTarget,
 	ScrollHandlerConfig,
+	ScrollSource,
+	ScrollSourceElement,
+	ScrollSourceEventName,
+	ScrollSourceEventTarget,
+	ScrollSourceKind,
+	ScrollSourceOptions,
+	ScrollSourceWindow,
 	PullForce,
 	VisibilityGateOptions,
+	SleepPolicyOptions,
+	QualityControllerOptions,
+	QualityEnvironment,
+	QualityPolicy,
+	QualitySettings,
+	QualityTier,
 } from './motion/index.js';
 
 export {
@@ -110,11 +233,19 @@ export {
 	type ThemeCatalogEntry,
 } from './themes/index.js';
 
+export {
+	PhysicsWorkerClient,
+	PHYSICS_WORKER_PROTOCOL_VERSION,
+	type PhysicsWorkerClientOptions,
+	type PhysicsWorkerPort,
+} from './workers/index.js';
+
 export {
 	TinyVectors,
 	BlobSVG,
 } from './svelte/index.js';
 
 export type {
+	TinyVectorsAnchor,
 	TinyVectorsDeviceMotionStatus,
 } from './svelte/index.js';
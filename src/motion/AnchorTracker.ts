@@ -0,0 +1,218 @@
+import type { FieldAnchor } from '../core/InteractionField.js';
+import {
+	mapClientRectToPhysics,
+	type PhysicsTarget,
+	type PointerBounds,
+} from './PointerMapper.js';
+
+// Binds named BlobPhysics anchors to page elements: a fixed element such as
+// a hero call-to-action, or whichever element currently shows
+// :focus-visible, so keyboard users get the same responsiveness the pointer
+// field gives mouse users. Positions are re-read on scroll, resize and
+// element resize, coalesced to one read per frame, and mapped into physics
+// space exactly like pointer input. An element scrolled out of the
+// container reports null rather than pinning blobs to the edge.
+
+export type AnchorFieldOptions = Omit<FieldAnchor, 'x' | 'y'>;
+
+export const DEFAULT_FOCUS_ANCHOR: AnchorFieldOptions = {
+	radius: 45,
+	strength: 2,
+};
+
+export interface AnchorElement {
+	getBoundingClientRect(): PointerBounds;
+	matches?(selector: string): boolean;
+}
+
+export type AnchorTrackerEventName = 'scroll' | 'resize' | 'focusin' | 'focusout';
+
+export interface AnchorTrackerEventTarget {
+	addEventListener(
+		type: AnchorTrackerEventName,
+		listener: EventListener,
+		options?: AddEventListenerOptions,
+	): void;
+	removeEventListener(
+		type: AnchorTrackerEventName,
+		listener: EventListener,
+		options?: EventListenerOptions,
+	): void;
+}
+
+export interface AnchorTrackerOptions {
+	getBounds: () => PointerBounds;
+	/** Receives the mapped anchor, or null once it is unbound or off-screen. */
+	onChange: (name: string, anchor: FieldAnchor | null) => void;
+	range?: PhysicsTarget | (() => PhysicsTarget);
+	/** Receives scroll (captured), resize and focus events. Defaults to `window`. */
+	target?: AnchorTrackerEventTarget;
+	requestFrame?: (callback: FrameRequestCallback) => number;
+	cancelFrame?: (handle: number) => void;
+}
+
+export interface AnchorTracker {
+	/** Anchors `name` to the element's center. Returns an unbind function. */
+	bindElement(name: string, element: AnchorElement, options: AnchorFieldOptions): () => void;
+	/** Anchors `name` to the :focus-visible element, if any. Returns an unbind function. */
+	bindFocus(name: string, options: AnchorFieldOptions): () => void;
+	/** Schedules a re-read, e.g. after the physics world changes. */
+	refresh(): void;
+	/** Re-reads synchronously. */
+	flush(): void;
+	dispose(): void;
+}
+
+type AnchorBinding =
+	| { kind: 'element'; element: AnchorElement; options: AnchorFieldOptions }
+	| { kind: 'focus'; options: AnchorFieldOptions };
+
+// Browsers without :focus-visible throw on the selector; treat every focus
+// as visible there rather than never following the keyboard.
+const isFocusVisible = (element: AnchorElement): boolean => {
+	if (typeof element.matches !== 'function') return true;
+	try {
+		return element.matches(':focus-visible');
+	} catch {
+		return true;
+	}
+};
+
+export function createAnchorTracker(options: AnchorTrackerOptions): AnchorTracker {
+	const target = options.target ?? (typeof window !== 'undefined' ? window : null);
+	const requestFrame = options.requestFrame ?? requestAnimationFrame;
+	const cancelFrame = options.cancelFrame ?? cancelAnimationFrame;
+
+	const getRange = (): PhysicsTarget | undefined =>
+		typeof options.range === 'function' ? options.range() : options.range;
+
+	const bindings = new Map<string, AnchorBinding>();
+	const lastKeys = new Map<string, string>();
+	let focused: AnchorElement | null = null;
+	let frame: number | null = null;
+	let disposed = false;
+
+	const resizeObserver =
+		typeof ResizeObserver !== 'undefined' ? new ResizeObserver(() => refresh()) : null;
+
+	const observeElements = () => {
+		if (!resizeObserver) return;
+		resizeObserver.disconnect();
+		for (const binding of bindings.values()) {
+			if (binding.kind === 'element') resizeObserver.observe(binding.element as Element);
+		}
+	};
+
+	const toAnchor = (
+		element: AnchorElement,
+		fieldOptions: AnchorFieldOptions,
+		bounds: PointerBounds,
+	): FieldAnchor | null => {
+		const rect = element.getBoundingClientRect();
+		const offscreen =
+			rect.left + rect.width < bounds.left ||
+			rect.top + rect.height < bounds.top ||
+			rect.left > bounds.left + bounds.width ||
+			rect.top > bounds.top + bounds.height;
+		if (offscreen) return null;
+
+		const mapped = mapClientRectToPhysics(rect, bounds, getRange());
+		if (!mapped) return null;
+
+		return {
+			...fieldOptions,
+			x: (mapped.minX + mapped.maxX) / 2,
+			y: (mapped.minY + mapped.maxY) / 2,
+		};
+	};
+
+	const report = (name: string, anchor: FieldAnchor | null) => {
+		const key = anchor ? JSON.stringify(anchor) : '';
+		if ((lastKeys.get(name) ?? '') === key) return;
+		if (anchor) {
+			lastKeys.set(name, key);
+		} else {
+			lastKeys.delete(name);
+		}
+		options.onChange(name, anchor);
+	};
+
+	const flush = () => {
+		if (frame !== null) {
+			cancelFrame(frame);
+			frame = null;
+		}
+		if (disposed) return;
+
+		const bounds = options.getBounds();
+		for (const [name, binding] of bindings) {
+			const element = binding.kind === 'element' ? binding.element : focused;
+			report(name, element ? toAnchor(element, binding.options, bounds) : null);
+		}
+	};
+
+	function refresh(): void {
+		if (disposed || frame !== null) return;
+		frame = requestFrame(flush);
+	}
+
+	const bind = (name: string, binding: AnchorBinding): (() => void) => {
+		bindings.set(name, binding);
+		observeElements();
+		flush();
+
+		return () => {
+			if (disposed || bindings.get(name) !== binding) return;
+			bindings.delete(name);
+			observeElements();
+			report(name, null);
+		};
+	};
+
+	const handleLayout: EventListener = () => refresh();
+
+	const handleFocusIn: EventListener = (event) => {
+		const element = event.target as AnchorElement | null;
+		focused = element && typeof element.getBoundingClientRect === 'function' && isFocusVisible(element)
+			? element
+			: null;
+		refresh();
+	};
+
+	const handleFocusOut: EventListener = () => {
+		focused = null;
+		refresh();
+	};
+
+	target?.addEventListener('scroll', handleLayout, { capture: true, passive: true });
+	target?.addEventListener('resize', handleLayout, { passive: true });
+	target?.addEventListener('focusin', handleFocusIn);
+	target?.addEventListener('focusout', handleFocusOut);
+
+	return {
+		bindElement(name, element, fieldOptions) {
+			return bind(name, { kind: 'element', element, options: { ...fieldOptions } });
+		},
+		bindFocus(name, fieldOptions) {
+			return bind(name, { kind: 'focus', options: { ...fieldOptions } });
+		},
+		refresh,
+		flush,
+		dispose() {
+			if (disposed) return;
+			disposed = true;
+			target?.removeEventListener('scroll', handleLayout, { capture: true });
+			target?.removeEventListener('resize', handleLayout);
+			target?.removeEventListener('focusin', handleFocusIn);
+			target?.removeEventListener('focusout', handleFocusOut);
+			resizeObserver?.disconnect();
+			if (frame !== null) {
+				cancelFrame(frame);
+				frame = null;
+			}
+			bindings.clear();
+			lastKeys.clear();
+			focused = null;
+		},
+	};
+}
@@ -0,0 +1,218 @@
+import type { ExclusionZone } from '../core/exclusion-zones.js';
+import {
+	mapClientRectToPhysics,
+	type PhysicsTarget,
+	type PointerBounds,
+} from './PointerMapper.js';
+
+// Keeps BlobPhysics exclusion zones in sync with page elements marked
+// `data-tinyvectors-avoid`. Rects are re-read on scroll, resize, element
+// resize and marker changes, coalesced to one read per frame, and mapped
+// into physics space exactly like pointer input. The attribute value picks
+// the shape: "circle", "rect", or anything else for a rounded rect that
+// follows the element's border-radius.
+
+export const DEFAULT_AVOID_SELECTOR = '[data-tinyvectors-avoid]';
+export const AVOID_ATTRIBUTE = 'data-tinyvectors-avoid';
+
+export interface ExclusionZoneElement {
+	getBoundingClientRect(): PointerBounds;
+	getAttribute(name: string): string | null;
+}
+
+export interface ExclusionZoneRoot {
+	querySelectorAll(selector: string): ArrayLike<ExclusionZoneElement>;
+}
+
+export interface ExclusionZoneEventTarget {
+	addEventListener(
+		type: 'scroll' | 'resize',
+		listener: EventListener,
+		options?: AddEventListenerOptions,
+	): void;
+	removeEventListener(
+		type: 'scroll' | 'resize',
+		listener: EventListener,
+		options?: EventListenerOptions,
+	): void;
+}
+
+export interface ExclusionZoneTrackerOptions {
+	getBounds: () => PointerBounds;
+	onChange: (zones: ExclusionZone[]) => void;
+	range?: PhysicsTarget | (() => PhysicsTarget);
+	/** Where marked elements are looked up. Defaults to `document`. */
+	root?: ExclusionZoneRoot;
+	/** Receives scroll (captured, so nested scrollers count) and resize. Defaults to `window`. */
+	target?: ExclusionZoneEventTarget;
+	/** Elements to track. Defaults to `[data-tinyvectors-avoid]`. */
+	selector?: string;
+	/** DOM changes inside this node, typically the component's own container, never trigger a re-collect. */
+	ignoreWithin?: Pick<Node, 'contains'>;
+	/** Extra clearance applied to every zone, in physics units. */
+	padding?: number;
+	/** Client-pixel corner radius for rounded zones. Defaults to the computed border-radius. */
+	getCornerRadius?: (element: ExclusionZoneElement) => number;
+	requestFrame?: (callback: FrameRequestCallback) => number;
+	cancelFrame?: (handle: number) => void;
+}
+
+export interface ExclusionZoneTracker {
+	/** Schedules a re-read, e.g. after the physics world changes. */
+	refresh(): void;
+	/** Re-reads synchronously. */
+	flush(): void;
+	dispose(): void;
+}
+
+const readComputedCornerRadius = (element: ExclusionZoneElement): number => {
+	if (typeof getComputedStyle === 'undefined') return 0;
+	const radius = Number.parseFloat(getComputedStyle(element as Element).borderTopLeftRadius);
+	return Number.isFinite(radius) ? radius : 0;
+};
+
+export function createExclusionZoneTracker(
+	options: ExclusionZoneTrackerOptions,
+): ExclusionZoneTracker {
+	const root = options.root ?? (typeof document !== 'undefined' ? document : null);
+	const target = options.target ?? (typeof window !== 'undefined' ? window : null);
+	const selector = options.selector ?? DEFAULT_AVOID_SELECTOR;
+	const getCornerRadius = options.getCornerRadius ?? readComputedCornerRadius;
+	const requestFrame = options.requestFrame ?? requestAnimationFrame;
+	const cancelFrame = options.cancelFrame ?? cancelAnimationFrame;
+
+	const getRange = (): PhysicsTarget | undefined =>
+		typeof options.range === 'function' ? options.range() : options.range;
+
+	let elements: ExclusionZoneElement[] = [];
+	let frame: number | null = null;
+	let lastKey = '';
+	let needsCollect = true;
+	let disposed = false;
+
+	const resizeObserver =
+		typeof ResizeObserver !== 'undefined' ? new ResizeObserver(() => refresh()) : null;
+
+	const collect = () => {
+		resizeObserver?.disconnect();
+		elements = root ? Array.from(root.querySelectorAll(selector)) : [];
+		for (const element of elements) {
+			resizeObserver?.observe(element as Element);
+		}
+	};
+
+	const toZone = (element: ExclusionZoneElement, bounds: PointerBounds): ExclusionZone | null => {
+		const rect = element.getBoundingClientRect();
+		if (rect.width <= 0 && rect.height <= 0) return null;
+
+		const mapped = mapClientRectToPhysics(rect, bounds, getRange());
+		if (!mapped) return null;
+
+		const padding = options.padding;
+		const shape = element.getAttribute(AVOID_ATTRIBUTE);
+		if (shape === 'circle') {
+			return {
+				shape: 'circle',
+				x: (mapped.minX + mapped.maxX) / 2,
+				y: (mapped.minY + mapped.maxY) / 2,
+				radius: Math.min(mapped.maxX - mapped.minX, mapped.maxY - mapped.minY) / 2,
+				padding,
+			};
+		}
+		if (shape === 'rect') {
+			return { shape: 'rect', ...mapped, padding };
+		}
+
+		// Corner radii map with the mean axis scale; non-square worlds stretch
+		// the two axes only slightly, and the radius is a soft hint anyway.
+		const scale =
+			((mapped.maxX - mapped.minX) / rect.width + (mapped.maxY - mapped.minY) / rect.height) / 2;
+		return {
+			shape: 'roundedRect',
+			...mapped,
+			radius: Math.max(0, getCornerRadius(element)) * (Number.isFinite(scale) ? scale : 0),
+			padding,
+		};
+	};
+
+	const flush = () => {
+		if (frame !== null) {
+			cancelFrame(frame);
+			frame = null;
+		}
+		if (disposed) return;
+
+		if (needsCollect) {
+			needsCollect = false;
+			collect();
+		}
+
+		const bounds = options.getBounds();
+		const zones: ExclusionZone[] = [];
+		for (const element of elements) {
+			const zone = toZone(element, bounds);
+			if (zone) zones.push(zone);
+		}
+
+		// Scrolling content that moves with the container leaves every zone
+		// where it was; skip handing physics an identical set.
+		const key = JSON.stringify(zones);
+		if (key === lastKey) return;
+		lastKey = key;
+		options.onChange(zones);
+	};
+
+	function refresh(): void {
+		if (disposed || frame !== null) return;
+		frame = requestFrame(flush);
+	}
+
+	const handleChange: EventListener = () => refresh();
+
+	// Marker attributes come and go with the page; re-collect on the next
+	// read after any change that could add or remove a tracked element. The
+	// default selector only depends on the marker attribute; a custom one
+	// can match on anything (a class, an id, another attribute), so every
+	// attribute change counts, except inside `ignoreWithin`: the component
+	// rewrites its own SVG every frame.
+	const ignoreWithin = options.ignoreWithin;
+	const mutationObserver =
+		root && typeof MutationObserver !== 'undefined' && typeof Node !== 'undefined' && root instanceof Node
+			? new MutationObserver((records) => {
+					if (ignoreWithin && records.every((record) => ignoreWithin.contains(record.target))) {
+						return;
+					}
+					needsCollect = true;
+					refresh();
+				})
+			: null;
+	mutationObserver?.observe(root as Node, {
+		childList: true,
+		subtree: true,
+		attributes: true,
+		...(selector === DEFAULT_AVOID_SELECTOR ? { attributeFilter: [AVOID_ATTRIBUTE] } : {}),
+	});
+
+	target?.addEventListener('scroll', handleChange, { capture: true, passive: true });
+	target?.addEventListener('resize', handleChange, { passive: true });
+
+	flush();
+
+	return {
+		refresh,
+		flush,
+		dispose() {
+			if (disposed) return;
+			disposed = true;
+			target?.removeEventListener('scroll', handleChange, { capture: true });
+			target?.removeEventListener('resize', handleChange);
+			mutationObserver?.disconnect();
+			resizeObserver?.disconnect();
+			if (frame !== null) {
+				cancelFrame(frame);
+				frame = null;
+			}
+			elements = [];
+		},
+	};
+}
@@ -1,3 +1,5 @@
+import type { PhysicsWorld } from '../core/world.js';
+
 export interface PointerBounds {
 	left: number;
 	top: number;
@@ -15,29 +17,65 @@ export interface PhysicsRange {
 	max: number;
 }
 
+// A square range maps both axes onto the same span; a rectangle (such as
+// getWorldViewRect() for a non-square world) maps each axis independently.
+export type PhysicsTarget = PhysicsRange | PhysicsWorld;
+
 const DEFAULT_RANGE: PhysicsRange = { min: 0, max: 100 };
 
 const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
 
+const toRect = (target: PhysicsTarget): PhysicsWorld =>
+	'min' in target
+		? { minX: target.min, minY: target.min, maxX: target.max, maxY: target.max }
+		: target;
+
+export function getPhysicsTargetCenter(target: PhysicsTarget = DEFAULT_RANGE): PhysicsPoint {
+	const rect = toRect(target);
+	return {
+		x: (rect.minX + rect.maxX) / 2,
+		y: (rect.minY + rect.maxY) / 2,
+	};
+}
+
 export function mapClientPointToPhysics(
 	clientX: number,
 	clientY: number,
 	bounds: PointerBounds,
-	range: PhysicsRange = DEFAULT_RANGE,
+	range: PhysicsTarget = DEFAULT_RANGE,
 ): PhysicsPoint {
 	if (bounds.width <= 0 || bounds.height <= 0) {
-		return {
-			x: (range.min + range.max) / 2,
-			y: (range.min + range.max) / 2,
-		};
+		return getPhysicsTargetCenter(range);
 	}
 
-	const span = range.max - range.min;
+	const rect = toRect(range);
 	const normalizedX = clamp01((clientX - bounds.left) / bounds.width);
 	const normalizedY = clamp01((clientY - bounds.top) / bounds.height);
 
 	return {
-		x: range.min + normalizedX * span,
-		y: range.min + normalizedY * span,
+		x: rect.minX + normalizedX * (rect.maxX - rect.minX),
+		y: rect.minY + normalizedY * (rect.maxY - rect.minY),
+	};
+}
+
+// Same mapping as mapClientPointToPhysics() without the clamp, so an element
+// hanging off the container's edge keeps its true extent. Null while the
+// container has no size to map against.
+export function mapClientRectToPhysics(
+	rect: PointerBounds,
+	bounds: PointerBounds,
+	range: PhysicsTarget = DEFAULT_RANGE,
+): PhysicsWorld | null {
+	if (bounds.width <= 0 || bounds.height <= 0) return null;
+
+	const target = toRect(range);
+	const scaleX = (target.maxX - target.minX) / bounds.width;
+	const scaleY = (target.maxY - target.minY) / bounds.height;
+
+	return {
+		minX: target.minX + (rect.left - bounds.left) * scaleX,
+		minY: target.minY + (rect.top - bounds.top) * scaleY,
+		maxX: target.minX + (rect.left + rect.width - bounds.left) * scaleX,
+		maxY: target.minY + (rect.top + rect.height - bounds.top) * scaleY,
 	};
 }
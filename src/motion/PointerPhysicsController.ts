@@ -1,17 +1,21 @@
+import type { PointerInput } from '../core/BlobPhysics.js';
 import {
+	getPhysicsTargetCenter,
 	mapClientPointToPhysics,
 	type PhysicsPoint,
-	type PhysicsRange,
+	type PhysicsTarget,
 	type PointerBounds,
 } from './PointerMapper.js';
 
 export type PointerMoveEventName = 'pointermove' | 'mousemove';
 export type PointerExitEventName = 'pointerout' | 'mouseout';
 export type PointerCancelEventName = 'pointercancel';
+export type PointerContactEventName = 'pointerdown' | 'pointerup';
 export type PointerLifecycleEventName =
 	| PointerMoveEventName
 	| PointerExitEventName
 	| PointerCancelEventName
+	| PointerContactEventName
 	| 'blur';
 
 export interface PointerPhysicsEventTarget {
@@ -26,18 +30,30 @@ export interface PointerPhysicsEventTarget {
 export interface PointerLikeEvent {
 	clientX: number;
 	clientY: number;
+	pointerId?: number;
+	pointerType?: string;
+	pressure?: number;
 	getCoalescedEvents?: () => PointerLikeEvent[];
 }
 
 export interface PointerExitLikeEvent {
 	relatedTarget?: EventTarget | null;
+	pointerId?: number;
 }
 
 export interface PointerPhysicsControllerOptions {
 	target: PointerPhysicsEventTarget;
 	getBounds: () => PointerBounds;
-	updatePosition: (position: PhysicsPoint) => void;
-	range?: PhysicsRange;
+	/** Receives the single collapsed pointer position. Unused when updatePointers is given. */
+	updatePosition?: (position: PhysicsPoint) => void;
+	/** Called instead of updatePosition(center) when pointer input goes stale. */
+	resetPosition?: () => void;
+	/**
+	 * Opts into multi-pointer tracking: every active pointer (by pointerId)
+	 * is reported once per frame, with strength scaled by pen/touch pressure.
+	 */
+	updatePointers?: (pointers: PointerInput[]) => void;
+	range?: PhysicsTarget | (() => PhysicsTarget);
 	supportsPointerEvents?: boolean;
 	requestFrame?: (callback: FrameRequestCallback) => number;
 	cancelFrame?: (handle: number) => void;
@@ -60,6 +76,15 @@ export interface PointerPhysicsController {
 	dispose(): void;
 }
 
+// PointerEvent.pressure is 0.5 for a contact without pressure support and
+// 0 for a hovering mouse, so only pen and touch pressure scale the field,
+// with 0.5 as the neutral point.
+export function getPointerStrength(event: PointerLikeEvent): number {
+	const pressure = event.pressure ?? 0;
+	if (event.pointerType === 'mouse' || !(pressure > 0)) return 1;
+	return Math.min(pressure, 1) * 2;
+}
+
 export function getLatestPointerEvent(event: PointerLikeEvent): PointerLikeEvent {
 	const coalesced =
 		typeof event.getCoalescedEvents === 'function' ? event.getCoalescedEvents() : [];
@@ -75,11 +100,6 @@ export function detectPointerPhysicsCapability(
 	return typeof environment.MouseEvent !== 'undefined';
 }
 
-function getRangeCenter(range?: PhysicsRange): PhysicsPoint {
-	const center = range ? (range.min + range.max) / 2 : 50;
-	return { x: center, y: center };
-}
-
 export function createPointerPhysicsController(
 	options: PointerPhysicsControllerOptions,
 ): PointerPhysicsController {
@@ -93,6 +113,11 @@ export function createPointerPhysicsController(
 		? 'pointercancel'
 		: null;
 
+	// Resolved per event so a world that changes with the container's aspect
+	// ratio is picked up without recreating the controller.
+	const getRange = (): PhysicsTarget | undefined =>
+		typeof options.range === 'function' ? options.range() : options.range;
+
 	let frame: number | null = null;
 	let pendingPosition: PhysicsPoint | null = null;
 	let disposed = false;
@@ -101,7 +126,7 @@ export function createPointerPhysicsController(
 		frame = null;
 		if (disposed || !pendingPosition) return;
 
-		options.updatePosition(pendingPosition);
+		options.updatePosition?.(pendingPosition);
 		pendingPosition = null;
 	};
 
@@ -111,9 +136,92 @@ export function createPointerPhysicsController(
 			frame = null;
 		}
 		pendingPosition = null;
-		options.updatePosition(getRangeCenter(options.range));
+		if (options.resetPosition) {
+			options.resetPosition();
+		} else {
+			options.updatePosition?.(getPhysicsTargetCenter(getRange()));
+		}
+	};
+
+	// Multi-pointer mode. A mouse keeps its field while hovering, so only
+	// pen and touch contacts end on pointerup.
+	const pointers = new Map<number, PointerInput>();
+	let pointersDirty = false;
+
+	const flushPointers = () => {
+		frame = null;
+		if (disposed || !pointersDirty) return;
+
+		pointersDirty = false;
+		options.updatePointers?.([...pointers.values()].map((pointer) => ({ ...pointer })));
+	};
+
+	const schedulePointers = () => {
+		pointersDirty = true;
+		if (frame === null) {
+			frame = requestFrame(flushPointers);
+		}
+	};
+
+	const trackPointer = (event: PointerLikeEvent) => {
+		const latest = getLatestPointerEvent(event);
+		const position = mapClientPointToPhysics(
+			latest.clientX,
+			latest.clientY,
+			options.getBounds(),
+			getRange(),
+		);
+		pointers.set(event.pointerId ?? 0, {
+			id: event.pointerId ?? 0,
+			x: position.x,
+			y: position.y,
+			strength: getPointerStrength(latest),
+		});
+		schedulePointers();
+	};
+
+	const releasePointer = (pointerId = 0) => {
+		if (pointers.delete(pointerId)) schedulePointers();
+	};
+
+	const releaseAllPointers = () => {
+		if (pointers.size === 0) return;
+		pointers.clear();
+		schedulePointers();
 	};
 
+	const handlePointerMove: EventListener = (event) => {
+		if (disposed) return;
+		trackPointer(event as unknown as PointerLikeEvent);
+	};
+
+	const handlePointerUp: EventListener = (event) => {
+		if (disposed) return;
+		const pointerEvent = event as unknown as PointerLikeEvent;
+		if (pointerEvent.pointerType === 'mouse') return;
+		releasePointer(pointerEvent.pointerId);
+	};
+
+	const handlePointerExit: EventListener = (event) => {
+		if (disposed) return;
+		const exitEvent = event as unknown as PointerExitLikeEvent;
+		if (exitEvent.relatedTarget) return;
+		releasePointer(exitEvent.pointerId);
+	};
+
+	const handlePointerCancel: EventListener = (event) => {
+		if (disposed) return;
+		releasePointer((event as unknown as PointerExitLikeEvent).pointerId);
+	};
+
+	const handlePointersBlur: EventListener = () => {
+		if (disposed) return;
+		releaseAllPointers();
+	};
+
+	const multiPointer = options.updatePointers !== undefined;
+	const listeners: [PointerLifecycleEventName, EventListener, AddEventListenerOptions?][] = [];
+
 	const handleMove: EventListener = (event) => {
 		if (disposed) return;
 
@@ -122,7 +230,7 @@ export function createPointerPhysicsController(
 			pointerEvent.clientX,
 			pointerEvent.clientY,
 			options.getBounds(),
-			options.range,
+			getRange(),
 		);
 
 		if (frame === null) {
@@ -142,32 +250,47 @@ export function createPointerPhysicsController(
 		resetPosition();
 	};
 
-	options.target.addEventListener(eventName, handleMove, { passive: true });
-	options.target.addEventListener(exitEventName, handleExit, { passive: true });
-	if (cancelEventName) {
-		options.target.addEventListener(cancelEventName, handleBlur);
+	if (multiPointer) {
+		listeners.push([eventName, handlePointerMove, { passive: true }]);
+		listeners.push([exitEventName, handlePointerExit, { passive: true }]);
+		if (supportsPointerEvents) {
+			listeners.push(['pointerdown', handlePointerMove, { passive: true }]);
+			listeners.push(['pointerup', handlePointerUp, { passive: true }]);
+		}
+		if (cancelEventName) listeners.push([cancelEventName, handlePointerCancel]);
+		listeners.push(['blur', handlePointersBlur]);
+	} else {
+		listeners.push([eventName, handleMove, { passive: true }]);
+		listeners.push([exitEventName, handleExit, { passive: true }]);
+		if (cancelEventName) listeners.push([cancelEventName, handleBlur]);
+		listeners.push(['blur', handleBlur]);
+	}
+
+	for (const [type, listener, listenerOptions] of listeners) {
+		if (listenerOptions) {
+			options.target.addEventListener(type, listener, listenerOptions);
+		} else {
+			options.target.addEventListener(type, listener);
+		}
 	}
-	options.target.addEventListener('blur', handleBlur);
 
 	return {
 		eventName,
 		exitEventName,
 		cancelEventName,
-		flush,
+		flush: multiPointer ? flushPointers : flush,
 		dispose() {
 			if (disposed) return;
 			disposed = true;
-			options.target.removeEventListener(eventName, handleMove);
-			options.target.removeEventListener(exitEventName, handleExit);
-			if (cancelEventName) {
-				options.target.removeEventListener(cancelEventName, handleBlur);
+			for (const [type, listener] of listeners) {
+				options.target.removeEventListener(type, listener);
 			}
-			options.target.removeEventListener('blur', handleBlur);
 			if (frame !== null) {
 				cancelFrame(frame);
 				frame = null;
 			}
 			pendingPosition = null;
+			pointers.clear();
 		},
 	};
 }
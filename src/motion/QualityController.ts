@@ -0,0 +1,224 @@
+// Adaptive rendering quality. Three tiers form a ladder from the full
+// scene down to a cheap one; each step down drops blobs, outline detail,
+// radius smoothing, blur filters and frame rate together. QualityController
+// watches how long each frame's work takes and walks the ladder: it steps
+// down after a stretch of slow frames and back up after a longer stretch
+// with headroom. It judges work time rather than the frame interval, so a
+// display that refreshes at 30 Hz, or a frame cap, is not taken for a slow
+// device. Each step up
+// that has to be undone soon after doubles the wait before the next try, so
+// a device on the edge of a tier settles instead of oscillating.
+
+export type QualityTier = 'high' | 'medium' | 'low';
+
+// 'auto' adapts; a tier pins it.
+export type QualityPolicy = 'auto' | QualityTier;
+
+/** Best first. */
+export const QUALITY_TIERS: readonly QualityTier[] = ['high', 'medium', 'low'];
+
+export interface QualitySettings {
+	/** Fraction of the requested blob count that is simulated. */
+	blobScale: number;
+	/** Fraction of the control points per outline (BlobPhysicsConfig.controlPoints). */
+	controlPointScale: number;
+	/** Keep BlobPhysicsConfig.useGaussianSmoothing as configured; false turns it off. */
+	gaussianSmoothing: boolean;
+	/** BlobSVG's glow and soft-edge blur filters. */
+	glowFilter: boolean;
+	softEdge: boolean;
+	/** Frame-rate cap, on top of core.fps. */
+	fps: number;
+}
+
+export const QUALITY_LADDER: Readonly<Record<QualityTier, Readonly<QualitySettings>>> = {
+	high: {
+		blobScale: 1,
+		controlPointScale: 1,
+		gaussianSmoothing: true,
+		glowFilter: true,
+		softEdge: true,
+		fps: 60,
+	},
+	medium: {
+		blobScale: 0.75,
+		controlPointScale: 0.75,
+		gaussianSmoothing: true,
+		glowFilter: true,
+		softEdge: false,
+		fps: 45,
+	},
+	low: {
+		blobScale: 0.5,
+		controlPointScale: 0.625,
+		gaussianSmoothing: false,
+		glowFilter: false,
+		softEdge: false,
+		fps: 30,
+	},
+};
+
+// The navigator fields detectQualityTier() reads. deviceMemory and
+// connection are Chromium-only, so every field is optional.
+export interface QualityEnvironment {
+	hardwareConcurrency?: number;
+	deviceMemory?: number;
+	connection?: { saveData?: boolean };
+}
+
+// Starting tier from what the device says about itself: Save-Data starts
+// low, as do two cores or 1 GB of memory; four cores or 2 GB start at
+// medium. Anything unreported is assumed capable, and frame timing takes
+// it from there.
+export function detectQualityTier(
+	environment: QualityEnvironment | undefined = typeof navigator === 'undefined'
+		? undefined
+		: (navigator as QualityEnvironment),
+): QualityTier {
+	if (!environment) return 'high';
+	const cores = environment.hardwareConcurrency ?? Infinity;
+	const memory = environment.deviceMemory ?? Infinity;
+
+	if (environment.connection?.saveData || cores <= 2 || memory <= 1) return 'low';
+	if (cores <= 4 || memory <= 2) return 'medium';
+	return 'high';
+}
+
+export interface QualityControllerOptions {
+	/** 'auto' adapts to frame times; a tier pins it. Defaults to 'auto'. */
+	policy?: QualityPolicy;
+	/** Tier 'auto' starts from. Defaults to detectQualityTier(). */
+	initialTier?: QualityTier;
+	/** Smoothed work per frame, in ms, above which frames are slow. Defaults to 12, most of a 60 Hz frame. */
+	slowFrameMs?: number;
+	/** Smoothed work per frame, in ms, below which there is headroom. Defaults to 6. */
+	fastFrameMs?: number;
+	/** Seconds of slow frames before stepping down. Defaults to 2. */
+	downgradeDelay?: number;
+	/** Seconds of headroom before stepping up. Defaults to 8, doubling each time a step up is undone, up to 120. */
+	upgradeDelay?: number;
+	/** Called whenever the tier changes. */
+	onChange?: (tier: QualityTier) => void;
+}
+
+const DEFAULT_SLOW_FRAME_MS = 12;
+const DEFAULT_FAST_FRAME_MS = 6;
+const DEFAULT_DOWNGRADE_DELAY = 2;
+const DEFAULT_UPGRADE_DELAY = 8;
+const MAX_UPGRADE_DELAY = 120;
+// Longer gaps are pauses (a background tab, a stopped loop), not slow frames.
+const MAX_FRAME_MS = 250;
+// Weight of each new frame in the smoothed frame time.
+const FRAME_SMOOTHING = 0.1;
+// Frames right after a change pay for the change itself (blobs fading,
+// filters rebuilt), so they are not held against the new tier.
+const SETTLE_SECONDS = 1;
+
+export class QualityController {
+	private policy: QualityPolicy;
+	private tier: QualityTier;
+	private frameMs: number | null = null;
+	private slowTime = 0;
+	private fastTime = 0;
+	private settleTime = SETTLE_SECONDS;
+	private clock = 0;
+	private lastUpgrade = -Infinity;
+	private upgradeDelay: number;
+	private readonly baseUpgradeDelay: number;
+	private readonly slowFrameMs: number;
+	private readonly fastFrameMs: number;
+	private readonly downgradeDelay: number;
+	private readonly onChange?: (tier: QualityTier) => void;
+
+	constructor(options: QualityControllerOptions = {}) {
+		this.policy = options.policy ?? 'auto';
+		this.slowFrameMs = options.slowFrameMs ?? DEFAULT_SLOW_FRAME_MS;
+		this.fastFrameMs = Math.min(options.fastFrameMs ?? DEFAULT_FAST_FRAME_MS, this.slowFrameMs);
+		this.downgradeDelay = options.downgradeDelay ?? DEFAULT_DOWNGRADE_DELAY;
+		this.baseUpgradeDelay = this.upgradeDelay = options.upgradeDelay ?? DEFAULT_UPGRADE_DELAY;
+		this.onChange = options.onChange;
+
+		assertPolicy(this.policy);
+		if (!(this.slowFrameMs > 0) || !(this.downgradeDelay >= 0) || !(this.baseUpgradeDelay >= 0)) {
+			throw new RangeError('QualityController: frame thresholds must be positive and delays non-negative');
+		}
+
+		this.tier =
+			this.policy === 'auto' ? (options.initialTier ?? detectQualityTier()) : this.policy;
+	}
+
+	getTier(): QualityTier {
+		return this.tier;
+	}
+
+	getSettings(): Readonly<QualitySettings> {
+		return QUALITY_LADDER[this.tier];
+	}
+
+	getPolicy(): QualityPolicy {
+		return this.policy;
+	}
+
+	// Pinning jumps straight to the tier; going back to 'auto' adapts from
+	// wherever the pin left it.
+	setPolicy(policy: QualityPolicy): void {
+		assertPolicy(policy);
+		this.policy = policy;
+		this.resetTimers();
+		if (policy !== 'auto') this.setTier(policy);
+	}
+
+	// Feeds how long the last frame's work took and the time since the
+	// frame before it, both in ms; the elapsed time defaults to the work
+	// time. Returns the tier afterwards.
+	recordFrame(frameMs: number, elapsedMs = frameMs): QualityTier {
+		if (this.policy !== 'auto' || !(frameMs >= 0) || !(elapsedMs > 0) || elapsedMs > MAX_FRAME_MS) {
+			return this.tier;
+		}
+
+		const seconds = elapsedMs / 1000;
+		this.clock += seconds;
+		if (this.settleTime > 0) {
+			this.settleTime -= seconds;
+			return this.tier;
+		}
+
+		this.frameMs =
+			this.frameMs === null ? frameMs : this.frameMs + (frameMs - this.frameMs) * FRAME_SMOOTHING;
+		this.slowTime = this.frameMs > this.slowFrameMs ? this.slowTime + seconds : 0;
+		this.fastTime = this.frameMs < this.fastFrameMs ? this.fastTime + seconds : 0;
+
+		const index = QUALITY_TIERS.indexOf(this.tier);
+		if (this.slowTime >= this.downgradeDelay && index < QUALITY_TIERS.length - 1) {
+			// Undoing a recent step up: wait longer before the next one.
+			if (this.clock - this.lastUpgrade < this.upgradeDelay) {
+				this.upgradeDelay = Math.min(this.upgradeDelay * 2, MAX_UPGRADE_DELAY);
+			}
+			this.setTier(QUALITY_TIERS[index + 1]);
+		} else if (this.fastTime >= this.upgradeDelay && index > 0) {
+			this.lastUpgrade = this.clock;
+			this.setTier(QUALITY_TIERS[index - 1]);
+		}
+		return this.tier;
+	}
+
+	private setTier(tier: QualityTier): void {
+		this.resetTimers();
+		if (tier === this.tier) return;
+		this.tier = tier;
+		this.onChange?.(tier);
+	}
+
+	private resetTimers(): void {
+		this.frameMs = null;
+		this.slowTime = 0;
+		this.fastTime = 0;
+		this.settleTime = SETTLE_SECONDS;
+	}
+}
+
+function assertPolicy(policy: QualityPolicy): void {
+	if (policy !== 'auto' && !QUALITY_TIERS.includes(policy)) {
+		throw new RangeError(`QualityController: unknown policy '${policy}'`);
+	}
+}
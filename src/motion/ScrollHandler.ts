@@ -1,12 +1,29 @@
 export interface ScrollHandlerConfig {
-	/** Per-frame decay multiplier for scroll stickiness and velocity. Defaults to 0.92. */
+	/** Fraction of scroll stickiness and velocity kept per 1/60 s of step() time. Defaults to 0.92. */
 	decayRate?: number;
 	/** Maximum retained pull-force impulses. Defaults to 8, or 10 for explosive scrolls. Use 0 to keep scroll stickiness without retained pull forces. */
 	maxForces?: number;
+	/** Runs an internal requestAnimationFrame loop that calls step() itself. Defaults to false. */
+	standalone?: boolean;
+	/** Millisecond clock for scroll timing. Defaults to Date.now. */
+	now?: ClockSource;
+	/** [0, 1) source for pull-force randomness. Defaults to Math.random. */
+	random?: RandomSource;
 }
 
 export type { PullForce } from '../core/types.js';
 import type { PullForce } from '../core/types.js';
+import type { ClockSource, RandomSource } from '../core/random.js';
+
+// Decay was tuned per 60 Hz frame; step() applies it per second of elapsed
+// time so every refresh rate (and the fixed physics step) decays alike.
+const REFERENCE_FRAME_SECONDS = 1 / 60;
+const FORCE_RETENTION = 0.98;
+const EXPLOSIVE_FORCE_RETENTION = 0.995;
+const FORCE_DURATION_SECONDS = 2.0;
+const EXPLOSIVE_FORCE_DURATION_SECONDS = 3.5;
+// Scroll input quieter than this ends the active scroll.
+const SCROLL_QUIET_MS = 200;
 
 export class ScrollHandler {
 	private stickiness = 0;
@@ -20,35 +37,48 @@ export class ScrollHandler {
 	private pullForces: PullForce[] = [];
 	private peakVelocity = 0;
 	private decayFrame: number | null = null;
-	private scrollEndTimer: ReturnType<typeof setTimeout> | null = null;
+	private lastFrameTime: number | null = null;
 	private disposed = false;
 	private maxForces: number | null = null;
+	private readonly standalone: boolean;
+	private readonly now: ClockSource;
+	private readonly random: RandomSource;
 
 	constructor(config?: ScrollHandlerConfig) {
 		if (config?.decayRate) this.decayRate = config.decayRate;
 		if (typeof config?.maxForces === 'number') {
 			this.maxForces = Math.max(0, Math.floor(config.maxForces));
 		}
+		this.standalone = config?.standalone ?? false;
+		this.now = config?.now ?? (() => Date.now());
+		this.random = config?.random ?? (() => Math.random());
 	}
 
 	public handleScroll(event: WheelEvent): void {
+		this.addScrollDelta(event.deltaY);
+	}
+
+	// Source-agnostic entry point: a vertical scroll distance in pixels,
+	// positive downward, from a wheel event or a createScrollSource()
+	// position delta.
+	public addScrollDelta(deltaY: number): void {
 		if (this.disposed) return;
 
-		const currentTime = Date.now();
+		const currentTime = this.now();
 		const deltaTime = currentTime - this.lastScrollTime;
 
-		this.scrollDirection = event.deltaY > 0 ? 1 : -1;
+		this.scrollDirection = deltaY > 0 ? 1 : -1;
 
-		if (!this.isScrolling || deltaTime > 200) {
+		if (!this.isScrolling || deltaTime > SCROLL_QUIET_MS) {
 			this.isScrolling = true;
 			this.scrollStartTime = currentTime;
 			this.totalScrollDistance = 0;
 			this.peakVelocity = 0;
 		}
 
-		this.totalScrollDistance += Math.abs(event.deltaY);
+		this.totalScrollDistance += Math.abs(deltaY);
 
-		const scrollSpeed = Math.abs(event.deltaY) / Math.max(deltaTime, 16);
+		const scrollSpeed = Math.abs(deltaY) / Math.max(deltaTime, 16);
 		this.peakVelocity = Math.max(this.peakVelocity, scrollSpeed);
 		this.scrollVelocity = this.scrollVelocity * 0.7 + scrollSpeed * 0.3;
 
@@ -71,23 +101,46 @@ export class ScrollHandler {
 		}
 
 		this.lastScrollTime = currentTime;
-		this.startDecay();
-		this.scheduleScrollEnd();
+		if (this.standalone) this.startDecay();
 	}
 
-	private scheduleScrollEnd(): void {
-		if (this.scrollEndTimer !== null) {
-			clearTimeout(this.scrollEndTimer);
+	// Advances decay by `deltaTime` seconds: stickiness, velocity and pull
+	// forces fade, expired forces drop, and a scroll quiet for 200 ms ends.
+	// Call it from the frame or physics loop; standalone handlers call it
+	// from their own requestAnimationFrame loop instead.
+	public step(deltaTime: number): void {
+		if (this.disposed || !(deltaTime > 0)) return;
+
+		const frames = deltaTime / REFERENCE_FRAME_SECONDS;
+		const retention = Math.pow(this.decayRate, frames);
+		this.stickiness *= retention;
+		this.scrollVelocity *= retention;
+
+		const forceRetention = Math.pow(FORCE_RETENTION, frames);
+		const explosiveRetention = Math.pow(EXPLOSIVE_FORCE_RETENTION, frames);
+		this.pullForces = this.pullForces
+			.filter((force) => {
+				force.time += deltaTime;
+				const maxDuration = force.explosive
+					? EXPLOSIVE_FORCE_DURATION_SECONDS
+					: FORCE_DURATION_SECONDS;
+				return force.time < maxDuration;
+			})
+			.map((force) => ({
+				...force,
+				strength: force.strength * (force.explosive ? explosiveRetention : forceRetention),
+			}));
+
+		if (this.stickiness <= 0.01 && this.pullForces.length === 0) {
+			this.stickiness = 0;
+			this.scrollVelocity = 0;
 		}
 
-		this.scrollEndTimer = setTimeout(() => {
-			this.scrollEndTimer = null;
-			if (Date.now() - this.lastScrollTime >= 200) {
-				this.isScrolling = false;
-				this.totalScrollDistance = 0;
-				this.peakVelocity = 0;
-			}
-		}, 200);
+		if (this.isScrolling && this.now() - this.lastScrollTime >= SCROLL_QUIET_MS) {
+			this.isScrolling = false;
+			this.totalScrollDistance = 0;
+			this.peakVelocity = 0;
+		}
 	}
 
 	private generatePullForce(
@@ -106,8 +159,8 @@ export class ScrollHandler {
 			}
 
 			const randomnessFactor = explosive
-				? 0.6 + Math.random() * 0.4
-				: 0.4 + Math.random() * 0.5;
+				? 0.6 + this.random() * 0.4
+				: 0.4 + this.random() * 0.5;
 
 			this.pullForces.push({
 				strength: pullStrength,
@@ -126,29 +179,21 @@ export class ScrollHandler {
 	private startDecay(): void {
 		if (this.decayFrame !== null) return;
 
-		const decay = () => {
+		const decay = (timestamp: number) => {
 			this.decayFrame = null;
 			if (this.disposed) return;
 
-			this.stickiness *= this.decayRate;
-			this.scrollVelocity *= this.decayRate;
-
-			this.pullForces = this.pullForces
-				.filter((force) => {
-					force.time += 0.016;
-					const maxDuration = force.explosive ? 3.5 : 2.0;
-					return force.time < maxDuration;
-				})
-				.map((force) => ({
-					...force,
-					strength: force.strength * (force.explosive ? 0.995 : 0.98),
-				}));
-
-			if (this.stickiness > 0.01 || this.pullForces.length > 0) {
+			const deltaTime =
+				this.lastFrameTime === null
+					? REFERENCE_FRAME_SECONDS
+					: (timestamp - this.lastFrameTime) / 1000;
+			this.lastFrameTime = timestamp;
+			this.step(deltaTime);
+
+			if (this.stickiness > 0 || this.pullForces.length > 0 || this.isScrolling) {
 				this.decayFrame = requestAnimationFrame(decay);
 			} else {
-				this.stickiness = 0;
-				this.scrollVelocity = 0;
+				this.lastFrameTime = null;
 			}
 		};
 		this.decayFrame = requestAnimationFrame(decay);
@@ -189,11 +234,7 @@ export class ScrollHandler {
 			cancelAnimationFrame(this.decayFrame);
 			this.decayFrame = null;
 		}
-
-		if (this.scrollEndTimer !== null) {
-			clearTimeout(this.scrollEndTimer);
-			this.scrollEndTimer = null;
-		}
+		this.lastFrameTime = null;
 
 		this.stickiness = 0;
 		this.scrollVelocity = 0;
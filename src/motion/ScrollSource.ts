@@ -0,0 +1,104 @@
+// Turns scrolling into vertical deltas for ScrollHandler.addScrollDelta().
+// The `scroll` source follows the scroll position of a container (the
+// document by default), so touch flicks, keyboard PageDown/Space,
+// scrollbar drags and programmatic scrolls all count, not just the wheel.
+// The `wheel` source still reports wheel deltas, which is what makes a page
+// that does not scroll at all respond. With both on, a wheel gesture is
+// reported once: position changes that follow a wheel event are folded
+// into it rather than counted again.
+
+export type ScrollSourceKind = 'scroll' | 'wheel';
+
+export const DEFAULT_SCROLL_SOURCES: readonly ScrollSourceKind[] = ['scroll', 'wheel'];
+
+export type ScrollSourceEventName = 'scroll' | 'wheel';
+
+export interface ScrollSourceEventTarget {
+	addEventListener(
+		type: ScrollSourceEventName,
+		listener: EventListener,
+		options?: AddEventListenerOptions,
+	): void;
+	removeEventListener(type: ScrollSourceEventName, listener: EventListener): void;
+}
+
+export interface ScrollSourceElement extends ScrollSourceEventTarget {
+	scrollTop: number;
+}
+
+export interface ScrollSourceWindow extends ScrollSourceEventTarget {
+	scrollY: number;
+}
+
+export interface ScrollSourceOptions {
+	/** Receives each vertical scroll distance in pixels, positive downward. */
+	onScroll: (deltaY: number) => void;
+	/** Scroll container to follow. Defaults to the document. */
+	element?: ScrollSourceElement | null;
+	/** Defaults to DEFAULT_SCROLL_SOURCES. */
+	sources?: readonly ScrollSourceKind[];
+	/** Document scroll position and events when no element is given. Defaults to `window`. */
+	window?: ScrollSourceWindow;
+	/** Millisecond clock used to pair wheel events with the scrolls they cause. */
+	now?: () => number;
+}
+
+export interface ScrollSource {
+	dispose(): void;
+}
+
+// A wheel-driven scroll lands within a frame or two of its wheel event,
+// smooth scrolling a little later.
+const WHEEL_SCROLL_WINDOW_MS = 150;
+
+export function createScrollSource(options: ScrollSourceOptions): ScrollSource {
+	const sources = options.sources ?? DEFAULT_SCROLL_SOURCES;
+	const view = options.window ?? (typeof window !== 'undefined' ? window : null);
+	const element = options.element ?? null;
+	const target: ScrollSourceEventTarget | null = element ?? view;
+	const now = options.now ?? (() => Date.now());
+
+	const getPosition = (): number => (element ? element.scrollTop : (view?.scrollY ?? 0));
+
+	let lastPosition = getPosition();
+	let lastWheelTime = -Infinity;
+	let disposed = false;
+
+	const handleScroll: EventListener = () => {
+		if (disposed) return;
+
+		const position = getPosition();
+		const delta = position - lastPosition;
+		lastPosition = position;
+		if (delta === 0 || now() - lastWheelTime < WHEEL_SCROLL_WINDOW_MS) return;
+
+		options.onScroll(delta);
+	};
+
+	const handleWheel: EventListener = (event) => {
+		if (disposed) return;
+
+		const { deltaY } = event as WheelEvent;
+		if (!deltaY) return;
+		lastWheelTime = now();
+		options.onScroll(deltaY);
+	};
+
+	const listeners: [ScrollSourceEventName, EventListener][] = [];
+	if (sources.includes('scroll')) listeners.push(['scroll', handleScroll]);
+	if (sources.includes('wheel')) listeners.push(['wheel', handleWheel]);
+
+	for (const [type, listener] of listeners) {
+		target?.addEventListener(type, listener, { passive: true });
+	}
+
+	return {
+		dispose() {
+			if (disposed) return;
+			disposed = true;
+			for (const [type, listener] of listeners) {
+				target?.removeEventListener(type, listener);
+			}
+		},
+	};
+}
@@ -0,0 +1,91 @@
+// Decides when a background at rest can drop to a low update rate. The
+// scene counts as at rest while BlobPhysics.getMotionEnergy() stays at or
+// below `restEnergy`; after `sleepDelay` seconds of rest without input the
+// policy sleeps, and TinyVectors caps its frame loop at `sleepFps`. Input
+// (pointer, scroll, tilt) wakes it on the spot through wake(), and energy
+// climbing past `wakeEnergy` wakes it on the next update, so a fling that
+// started while asleep still runs at full rate.
+
+export interface SleepPolicyOptions {
+	/** Update rate while asleep, in frames per second. Defaults to 18. */
+	sleepFps?: number;
+	/** Motion energy at or below which the scene is at rest. Defaults to a settling blob's (0.5 × 0.15²). */
+	restEnergy?: number;
+	/** Motion energy that wakes a sleeping scene by itself. Defaults to a waking blob's (0.5 × 0.3²). */
+	wakeEnergy?: number;
+	/** Seconds at rest without input before sleeping. Defaults to 2. */
+	sleepDelay?: number;
+	/** Called whenever the policy falls asleep or wakes. */
+	onChange?: (asleep: boolean) => void;
+}
+
+export const DEFAULT_SLEEP_FPS = 18;
+// BlobPhysics settles a blob under 0.15 units per step and wakes it over
+// 0.3; the energies below are those speeds held by every blob.
+const DEFAULT_REST_ENERGY = 0.5 * 0.15 * 0.15;
+const DEFAULT_WAKE_ENERGY = 0.5 * 0.3 * 0.3;
+const DEFAULT_SLEEP_DELAY = 2;
+
+export class SleepPolicy {
+	private asleep = false;
+	private restTime = 0;
+	private readonly sleepFps: number;
+	private readonly restEnergy: number;
+	private readonly wakeEnergy: number;
+	private readonly sleepDelay: number;
+	private readonly onChange?: (asleep: boolean) => void;
+
+	constructor(options: SleepPolicyOptions = {}) {
+		this.sleepFps = options.sleepFps ?? DEFAULT_SLEEP_FPS;
+		this.restEnergy = options.restEnergy ?? DEFAULT_REST_ENERGY;
+		this.wakeEnergy = Math.max(options.wakeEnergy ?? DEFAULT_WAKE_ENERGY, this.restEnergy);
+		this.sleepDelay = options.sleepDelay ?? DEFAULT_SLEEP_DELAY;
+		this.onChange = options.onChange;
+
+		if (!(this.sleepFps > 0) || !Number.isFinite(this.sleepFps)) {
+			throw new RangeError('SleepPolicy: sleepFps must be a positive, finite rate');
+		}
+		if (!(this.restEnergy >= 0) || !(this.sleepDelay >= 0)) {
+			throw new RangeError('SleepPolicy: restEnergy and sleepDelay must not be negative');
+		}
+	}
+
+	// Feeds one rendered frame: `deltaTime` seconds elapsed and the motion
+	// energy after it. Returns whether the policy is asleep afterwards.
+	update(deltaTime: number, energy: number): boolean {
+		if (this.asleep) {
+			if (energy > this.wakeEnergy) this.wake();
+			return this.asleep;
+		}
+
+		if (energy > this.restEnergy || !Number.isFinite(energy)) {
+			this.restTime = 0;
+			return false;
+		}
+
+		this.restTime += Number.isFinite(deltaTime) ? Math.max(deltaTime, 0) : 0;
+		if (this.restTime >= this.sleepDelay) this.setAsleep(true);
+		return this.asleep;
+	}
+
+	// Input arrived: run at full rate now and restart the rest countdown.
+	wake(): void {
+		this.restTime = 0;
+		this.setAsleep(false);
+	}
+
+	isAsleep(): boolean {
+		return this.asleep;
+	}
+
+	// Milliseconds between frames while asleep; 0 (no cap) while awake.
+	getFrameInterval(): number {
+		return this.asleep ? 1000 / this.sleepFps : 0;
+	}
+
+	private setAsleep(asleep: boolean): void {
+		if (this.asleep === asleep) return;
+		this.asleep = asleep;
+		this.onChange?.(asleep);
+	}
+}
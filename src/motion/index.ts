@@ -10,17 +10,22 @@ export {
 	type MotionVector,
 } from './DeviceMotion.js';
 export {
+	getPhysicsTargetCenter,
 	mapClientPointToPhysics,
+	mapClientRectToPhysics,
 	type PhysicsPoint,
 	type PhysicsRange,
+	type PhysicsTarget,
 	type PointerBounds,
 } from './PointerMapper.js';
 export {
 	createPointerPhysicsController,
 	detectPointerPhysicsCapability,
 	getLatestPointerEvent,
+	getPointerStrength,
 	type PointerCapabilityEnvironment,
 	type PointerCancelEventName,
+	type PointerContactEventName,
 	type PointerExitEventName,
 	type PointerExitLikeEvent,
 	type PointerLifecycleEventName,
@@ -30,6 +35,49 @@ export {
 	type PointerPhysicsControllerOptions,
 	type PointerPhysicsEventTarget,
 } from './PointerPhysicsController.js';
+export {
+	DEFAULT_FOCUS_ANCHOR,
+	createAnchorTracker,
+	type AnchorElement,
+	type AnchorFieldOptions,
+	type AnchorTracker,
+	type AnchorTrackerEventName,
+	type AnchorTrackerEventTarget,
+	type AnchorTrackerOptions,
+} from './AnchorTracker.js';
+export {
+	AVOID_ATTRIBUTE,
+	DEFAULT_AVOID_SELECTOR,
+	createExclusionZoneTracker,
+	type ExclusionZoneElement,
+	type ExclusionZoneEventTarget,
+	type ExclusionZoneRoot,
+	type ExclusionZoneTracker,
+	type ExclusionZoneTrackerOptions,
+} from './ExclusionZoneTracker.js';
 export { ScrollHandler, type ScrollHandlerConfig, type PullForce } from './ScrollHandler.js';
+export {
+	DEFAULT_SCROLL_SOURCES,
+	createScrollSource,
+	type ScrollSource,
+	type ScrollSourceElement,
+	type ScrollSourceEventName,
+	type ScrollSourceEventTarget,
+	type ScrollSourceKind,
+	type ScrollSourceOptions,
+	type ScrollSourceWindow,
+} from './ScrollSource.js';
 export { prefersReducedMotion, watchReducedMotion } from './reduced-motion.js';
+export {
+	QUALITY_LADDER,
+	QUALITY_TIERS,
+	QualityController,
+	detectQualityTier,
+	type QualityControllerOptions,
+	type QualityEnvironment,
+	type QualityPolicy,
+	type QualitySettings,
+	type QualityTier,
+} from './QualityController.js';
+export { DEFAULT_SLEEP_FPS, SleepPolicy, type SleepPolicyOptions } from './SleepPolicy.js';
 export { VisibilityGate, type VisibilityGateOptions } from './VisibilityGate.js';
@@ -1,12 +1,32 @@
 import type { Component } from 'svelte';
 import type { BlobPhysics } from '../core/BlobPhysics.js';
+import type { RenderingConfig } from '../core/schema.js';
+import type { BlendMode } from '../core/theme-presets.js';
 import type { ConvexBlob } from '../core/types.js';
+import type { DepthLayersConfig, ParallaxInput } from '../core/depth-layers.js';
+import type { PhysicsWorld } from '../core/world.js';
 
 export interface BlobSVGProps {
 	blobs?: ConvexBlob[];
-	physics?: BlobPhysics | null;
+	physics?: Pick<BlobPhysics, 'generateSmoothBlobPath'> | null;
 	/** Explicit dark override; null auto-detects from the document. */
 	isDark?: boolean | null;
+	/** Physics world shared with BlobPhysics; the viewBox frames its visible area. */
+	world?: PhysicsWorld;
+	/** Layer count, filter radii, glow opacity, particles and viewBox framing. */
+	rendering?: RenderingConfig;
+	/** Blend mode of the body and core layers in light mode. */
+	blendModeLight?: BlendMode;
+	/** Blend mode of the body and core layers in dark mode. */
+	blendModeDark?: BlendMode;
+	/** Draws blobs in their depth layers, back to front; null draws one plane. */
+	depthLayers?: DepthLayersConfig | null;
+	/** Pointer, tilt and scroll position driving each depth layer's parallax offset. */
+	parallax?: ParallaxInput;
+	/** Blur the glow halo through the glowFilter filter; off draws the halo unfiltered. */
+	glowFilter?: boolean;
+	/** Blur the body and particle layers through the softEdge filter. */
+	softEdge?: boolean;
 }
 
 declare const BlobSVG: Component<BlobSVGProps, {}, ''>;
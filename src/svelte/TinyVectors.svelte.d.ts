@@ -1,14 +1,27 @@
 import type { Component } from 'svelte';
-import type { BlobPhysicsConfig } from '../core/BlobPhysics.js';
-import type { ThemePresetName } from '../core/theme-presets.js';
+import type {
+	BlobPhysicsConfig,
+	BlobPhysicsEvent,
+	BlobPhysicsSnapshot,
+	PointerFieldConfig,
+} from '../core/BlobPhysics.js';
+import type { DepthLayersOverride } from '../core/depth-layers.js';
+import type { TinyVectorsConfigOverride } from '../core/schema.js';
+import type { ThemeColor, ThemePresetName } from '../core/theme-presets.js';
+import type { PhysicsWorld } from '../core/world.js';
 import type { MotionVector } from '../motion/DeviceMotion.js';
-import type { TinyVectorsDeviceMotionStatus } from './types.js';
+import type { AnchorFieldOptions } from '../motion/AnchorTracker.js';
+import type { QualityPolicy, QualityTier } from '../motion/QualityController.js';
+import type { ScrollSourceKind } from '../motion/ScrollSource.js';
+import type { TinyVectorsAnchor, TinyVectorsDeviceMotionStatus } from './types.js';
 
 export interface TinyVectorsProps {
+	/** Full TinyVectorsConfig override, merged through mergeConfig(); individual props win over it. */
+	config?: TinyVectorsConfigOverride;
 	/** Theme preset name */
 	theme?: ThemePresetName;
-	/** Custom colors (overrides theme preset) */
-	colors?: string[];
+	/** Custom colors (overrides theme preset); ThemeColor entries also set each blob's behaviour and depth layer. */
+	colors?: (string | ThemeColor)[];
 	/** Whether animation is enabled */
 	animated?: boolean;
 	/** Component opacity */
@@ -19,12 +32,34 @@ export interface TinyVectorsProps {
 	blobCount?: number;
 	/** Physics configuration */
 	physicsConfig?: Partial<BlobPhysicsConfig>;
+	/** Seeds the physics RNG so every mount replays the same simulation. */
+	seed?: number;
+	/** Snapshot from exportPhysicsState() to resume instead of starting from the grid. */
+	initialState?: BlobPhysicsSnapshot | null;
+	/** Physics world rectangle, or 'container' to follow the container's aspect ratio. */
+	world?: PhysicsWorld | 'container';
 	/** Enable device orientation based motion */
 	enableDeviceMotion?: boolean;
 	/** Enable scroll physics */
 	enableScrollPhysics?: boolean;
+	/** Scroll container whose scrolling drives scroll physics; defaults to the document. */
+	scrollContainer?: HTMLElement | null;
+	/** Which inputs count as scrolling. Defaults to both position changes and wheel events. */
+	scrollSources?: ScrollSourceKind[];
 	/** Enable pointer/mouse physics */
 	enablePointerPhysics?: boolean;
+	/** Track every finger/pen separately (pressure scales each field) instead of one collapsed pointer. */
+	multiPointer?: boolean;
+	/** Pointer personality: mode (attract, repel, swirl, wake), radius, strength, falloff and ignoreColors. */
+	pointerField?: Partial<PointerFieldConfig>;
+	/** Draw blobs in the depth layers their theme colours name, with parallax; true uses DEFAULT_DEPTH_LAYERS. */
+	depthLayers?: boolean | DepthLayersOverride;
+	/** Page elements blobs steer around; null turns exclusion-zone tracking off. */
+	avoidSelector?: string | null;
+	/** Named attractor (positive strength) or repeller anchors, at physics coordinates or following an element. */
+	anchors?: Record<string, TinyVectorsAnchor>;
+	/** Attract blobs toward the :focus-visible element; true uses DEFAULT_FOCUS_ANCHOR. */
+	focusAnchor?: boolean | AnchorFieldOptions;
 	/** Scales normalized screen-aligned tilt vectors before applying them to physics. */
 	deviceMotionStrength?: number;
 	/** Samples used by calibrateDeviceMotion() when no explicit count is supplied. */
@@ -33,15 +68,23 @@ export interface TinyVectorsProps {
 	deviceMotionIdleResetMs?: number;
 	/** Optional diagnostics hook for browser/dev harnesses. */
 	onDeviceMotion?: (motionData: MotionVector) => void;
+	/** Receives collision, bounce, settle and wake events from the simulation. */
+	onPhysicsEvent?: (event: BlobPhysicsEvent) => void;
 	/** Explicit dark override forwarded to BlobSVG; null auto-detects. */
 	isDark?: boolean | null;
 	/** Renders the existing static frame instead of animating when the user has requested reduced motion. */
 	respectReducedMotion?: boolean;
+	/** 'auto' steps the quality tier down and up with the measured work per frame; a tier pins it. */
+	qualityPolicy?: QualityPolicy;
+	/** Called whenever the quality tier changes. */
+	onQualityChange?: (tier: QualityTier) => void;
 }
 
 export interface TinyVectorsExports {
 	requestDeviceMotionPermission(): Promise<boolean>;
 	calibrateDeviceMotion(samples?: number): void;
+	exportPhysicsState(): BlobPhysicsSnapshot | null;
+	getQualityTier(): QualityTier;
 	getDeviceMotionStatus(): TinyVectorsDeviceMotionStatus;
 }
 
@@ -5,6 +5,7 @@
 
 export { default as TinyVectors } from './TinyVectors.svelte';
 export type {
+	TinyVectorsAnchor,
 	TinyVectorsDeviceMotionStatus,
 } from './types.js';
 
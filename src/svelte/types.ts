@@ -1,4 +1,5 @@
 import type { DeviceMotionPermissionState } from '../motion/DeviceMotion.js';
+import type { AnchorFieldOptions } from '../motion/AnchorTracker.js';
 
 export interface TinyVectorsDeviceMotionStatus {
 	enabled: boolean;
@@ -7,3 +8,9 @@ export interface TinyVectorsDeviceMotionStatus {
 	permissionState: DeviceMotionPermissionState;
 	active: boolean;
 }
+
+// A TinyVectors `anchors` entry: fixed physics coordinates, or an element
+// (or a selector resolved when the anchors are applied) whose center the
+// anchor follows.
+export type TinyVectorsAnchor = AnchorFieldOptions &
+	({ x: number; y: number } | { element: Element | string });
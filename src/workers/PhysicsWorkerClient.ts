@@ -0,0 +1,585 @@
+import {
+	BLOB_PHYSICS_EVENT_TYPES,
+	BlobPhysics,
+	type BlobCountOptions,
+	type BlobPhysicsConfig,
+	type BlobPhysicsEvent,
+	type BlobPhysicsEventHandler,
+	type BlobPhysicsEventType,
+	type BlobPhysicsOptions,
+	type BlobPhysicsSnapshot,
+	type PointerInput,
+	type ScrollFieldInput,
+	type SetConfigOptions,
+} from '../core/BlobPhysics.js';
+import type { ExclusionZone } from '../core/exclusion-zones.js';
+import type { FieldAnchor } from '../core/InteractionField.js';
+import type { ThemeColor } from '../core/theme-presets.js';
+import type { ConvexBlob, GravityVector, TiltVector } from '../core/types.js';
+import type { PhysicsWorld } from '../core/world.js';
+import {
+	PHYSICS_WORKER_PROTOCOL_VERSION,
+	createFrameRing,
+	decodeFrame,
+	getFrameLength,
+	openFrameRing,
+	type FrameRing,
+	type PhysicsWorkerCommand,
+	type WorkerInMessage,
+	type WorkerOutMessage,
+} from './protocol.js';
+
+// The parts of a Worker the client uses, so tests and hosts can supply
+// their own transport.
+export type PhysicsWorkerPort = Pick<
+	Worker,
+	'postMessage' | 'terminate' | 'onmessage' | 'onerror' | 'onmessageerror'
+>;
+
+export interface PhysicsWorkerClientOptions extends Pick<BlobPhysicsOptions, 'seed' | 'world'> {
+	/** Creates the worker; defaults to the bundled physics worker. Returning null runs physics in-thread. */
+	createWorker?: () => PhysicsWorkerPort | null;
+	/** Share frames through a SharedArrayBuffer ring. Defaults to whether the page is cross-origin isolated. */
+	sharedMemory?: boolean;
+	/** Seconds between the worker's state checkpoints, which exportState() and a fallback resume from. */
+	checkpointInterval?: number;
+	/** Milliseconds to wait for the worker to answer the handshake before running in-thread. */
+	handshakeTimeout?: number;
+	/** Called whenever a new frame is available from getBlobs(). */
+	onFrame?: () => void;
+	/** Called once if the client gives up on the worker and runs physics in-thread. */
+	onFallback?: (reason: string) => void;
+}
+
+const DEFAULT_CHECKPOINT_INTERVAL = 1;
+const DEFAULT_HANDSHAKE_TIMEOUT = 3000;
+// BlobPhysics gives every blob 8 control points; the ring grows if needed.
+const INITIAL_POINT_STRIDE = 8;
+
+type ClientMode = 'pending' | 'worker' | 'local';
+
+function createDefaultWorker(): PhysicsWorkerPort | null {
+	if (typeof Worker === 'undefined') return null;
+	return new Worker(new URL('./physics.worker.js', import.meta.url), { type: 'module' });
+}
+
+// Runs BlobPhysics in a Web Worker behind the BlobPhysics API, so the
+// simulation never competes with the page's main-thread work. Input
+// setters queue commands that reach the worker with the next tick(); each
+// tick comes back as one frame of positions and outlines, either in a
+// Float32Array that ping-pongs between the threads as a transferable or,
+// when the page is cross-origin isolated, in a SharedArrayBuffer ring.
+// getBlobs() returns the latest frame, so rendering runs one frame behind
+// the simulation.
+//
+// Every call is also applied to an idle in-thread BlobPhysics that keeps
+// the config, world, inputs and listeners. When workers are unavailable,
+// the handshake fails or times out, or the worker reports an error, that
+// instance takes over from the worker's last checkpoint and the client
+// carries on in-thread.
+export class PhysicsWorkerClient {
+	private local: BlobPhysics;
+	private worker: PhysicsWorkerPort | null = null;
+	private mode: ClientMode = 'pending';
+	private ready = false;
+	private initSent = false;
+	private initPromise: Promise<void> | null = null;
+	private resolveInit: (() => void) | null = null;
+	private handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+	private commands: PhysicsWorkerCommand[] = [];
+	private flushScheduled = false;
+	private inFlight = false;
+	// Commands reached the worker after the last tick, so the latest frame
+	// predates them; wantsFrame asks the next flush to fetch a new one.
+	private stale = false;
+	private wantsFrame = false;
+	private pendingDt = 0;
+	private lastTime = 0;
+
+	// Transferred frame buffer while it is on this side, or the shared ring.
+	private frame: Float32Array | null = null;
+	private ring: FrameRing | null = null;
+	private frameReady = false;
+	private blobs: ConvexBlob[] = [];
+	// Copies of `blobs` that frames fill with the worker's interpolated
+	// centres and radii, reused until the blob set changes.
+	private renderBlobs: ConvexBlob[] = [];
+	private mouse: { x: number; y: number };
+	private energy = 0;
+	private checkpoint: BlobPhysicsSnapshot | null = null;
+
+	private listeners = new Map<BlobPhysicsEventType, Set<BlobPhysicsEventHandler>>();
+	private forwarders = new Map<BlobPhysicsEventType, () => void>();
+
+	private numBlobs: number;
+	private config: Partial<BlobPhysicsConfig>;
+	private options: PhysicsWorkerClientOptions;
+
+	constructor(
+		numBlobs: number,
+		config: Partial<BlobPhysicsConfig> = {},
+		options: PhysicsWorkerClientOptions = {},
+	) {
+		this.numBlobs = numBlobs;
+		this.config = config;
+		this.options = options;
+		this.local = new BlobPhysics(numBlobs, config, { seed: options.seed, world: options.world });
+		this.mouse = this.local.getMousePosition();
+	}
+
+	// Resolves once the first frame from the worker (or the in-thread
+	// fallback) is available.
+	init(): Promise<void> {
+		this.initPromise ??= new Promise((resolve) => {
+			this.resolveInit = resolve;
+			this.connect();
+		});
+		return this.initPromise;
+	}
+
+	isReady(): boolean {
+		return this.mode === 'local' ? this.local.isReady() : this.ready;
+	}
+
+	// True while physics runs in the worker rather than in-thread.
+	usesWorker(): boolean {
+		return this.mode === 'worker';
+	}
+
+	dispose(): void {
+		this.clearHandshakeTimer();
+		this.worker?.terminate();
+		this.worker = null;
+		this.mode = 'local';
+		this.ready = false;
+		this.commands = [];
+		this.blobs = [];
+		this.renderBlobs = [];
+		this.listeners.clear();
+		this.forwarders.clear();
+		this.local.dispose();
+	}
+
+	tick(deltaTime: number, time: number): void {
+		if (this.mode === 'local') {
+			this.local.tick(deltaTime, time);
+			return;
+		}
+		if (!this.ready) return;
+
+		// While a tick is in flight the time banks up and goes with the
+		// next one; BlobPhysics caps the backlog it will step through.
+		this.pendingDt += Number.isFinite(deltaTime) ? Math.max(deltaTime, 0) : 0;
+		this.lastTime = time;
+		if (!this.inFlight) this.postTick();
+	}
+
+	setPalette(themeColors: readonly (string | ThemeColor)[]): void {
+		this.local.setPalette(themeColors);
+		if (themeColors.length === 0) return;
+		this.send({
+			type: 'setPalette',
+			colors: themeColors.map((color) => (typeof color === 'string' ? color : { ...color })),
+		});
+	}
+
+	// Passing theme colours is the older spelling of setPalette() first.
+	getBlobs(themeColors?: readonly (string | ThemeColor)[]): ConvexBlob[] {
+		if (themeColors) this.setPalette(themeColors);
+		if (this.mode === 'local') return this.local.getBlobs();
+		this.refresh();
+		return this.blobs.slice();
+	}
+
+	// Each frame carries the worker's interpolated state next to the
+	// stepped one, so this blends the same way in the worker and in-thread.
+	getInterpolatedBlobs(themeColors?: readonly (string | ThemeColor)[]): ConvexBlob[] {
+		if (themeColors) this.setPalette(themeColors);
+		if (this.mode === 'local') return this.local.getInterpolatedBlobs();
+		this.refresh();
+		return this.renderBlobs.slice();
+	}
+
+	getMotionEnergy(): number {
+		if (this.mode === 'local') return this.local.getMotionEnergy();
+		this.decode();
+		return this.energy;
+	}
+
+	getMousePosition(): { x: number; y: number } {
+		return this.mode === 'local' ? this.local.getMousePosition() : { ...this.mouse };
+	}
+
+	// The latest checkpoint from the worker (null before the first), or the
+	// live state once running in-thread.
+	exportState(): BlobPhysicsSnapshot | null {
+		return this.mode === 'local' ? this.local.exportState() : this.checkpoint;
+	}
+
+	importState(snapshot: BlobPhysicsSnapshot): void {
+		this.local.importState(snapshot);
+		this.checkpoint = snapshot;
+		this.send({ type: 'importState', state: snapshot });
+	}
+
+	getConfig(): BlobPhysicsConfig {
+		return this.local.getConfig();
+	}
+
+	setConfig(config: Partial<BlobPhysicsConfig>, options: SetConfigOptions = {}): void {
+		this.local.setConfig(config, options);
+		this.send({ type: 'setConfig', config, options: { ...options } });
+	}
+
+	getWorld(): PhysicsWorld {
+		return this.local.getWorld();
+	}
+
+	setWorld(world: PhysicsWorld): void {
+		this.local.setWorld(world);
+		this.send({ type: 'setWorld', world: { ...world } });
+	}
+
+	getBlobCount(): number {
+		return this.local.getBlobCount();
+	}
+
+	setBlobCount(count: number, options: BlobCountOptions = {}): void {
+		this.local.setBlobCount(count, options);
+		this.send({ type: 'setBlobCount', count, options: { ...options } });
+	}
+
+	setGravity(gravity: GravityVector): void {
+		this.local.setGravity(gravity);
+		this.send({ type: 'setGravity', gravity: { x: gravity.x, y: gravity.y } });
+	}
+
+	setTilt(tilt: TiltVector): void {
+		this.local.setTilt(tilt);
+		this.send({ type: 'setTilt', tilt: { x: tilt.x, y: tilt.y, z: tilt.z } });
+	}
+
+	setScrollStickiness(value: number): void {
+		this.local.setScrollStickiness(value);
+		this.send({ type: 'setScrollStickiness', value });
+	}
+
+	setScrollField(input: ScrollFieldInput): void {
+		this.local.setScrollField(input);
+		this.send({
+			type: 'setScrollField',
+			input: { direction: input.direction, forces: input.forces.map((force) => ({ ...force })) },
+		});
+	}
+
+	updateMousePosition(x: number, y: number): void {
+		this.local.updateMousePosition(x, y);
+		this.send({ type: 'updateMouse', x, y });
+	}
+
+	resetMousePosition(): void {
+		this.local.resetMousePosition();
+		this.send({ type: 'resetMouse' });
+	}
+
+	setPointers(pointers: readonly PointerInput[]): void {
+		this.local.setPointers(pointers);
+		this.send({ type: 'setPointers', pointers: pointers.map((pointer) => ({ ...pointer })) });
+	}
+
+	setExclusionZones(zones: readonly ExclusionZone[]): void {
+		this.local.setExclusionZones(zones);
+		this.send({ type: 'setExclusionZones', zones: zones.map((zone) => ({ ...zone })) });
+	}
+
+	getExclusionZones(): ExclusionZone[] {
+		return this.local.getExclusionZones();
+	}
+
+	setAnchor(name: string, anchor: FieldAnchor): void {
+		this.local.setAnchor(name, anchor);
+		this.send({ type: 'setAnchor', name, anchor: { ...anchor } });
+	}
+
+	removeAnchor(name: string): boolean {
+		this.send({ type: 'removeAnchor', name });
+		return this.local.removeAnchor(name);
+	}
+
+	getAnchors(): Record<string, FieldAnchor> {
+		return this.local.getAnchors();
+	}
+
+	// Events from the worker arrive with the frame of the tick that raised
+	// them, after the simulation has moved on.
+	on<K extends BlobPhysicsEventType>(
+		type: K,
+		handler: BlobPhysicsEventHandler<K>,
+	): () => void {
+		let handlers = this.listeners.get(type);
+		if (!handlers) {
+			handlers = new Set();
+			this.listeners.set(type, handlers);
+		}
+		handlers.add(handler as unknown as BlobPhysicsEventHandler);
+		this.syncListeners();
+		return () => this.off(type, handler);
+	}
+
+	off<K extends BlobPhysicsEventType>(
+		type: K,
+		handler: BlobPhysicsEventHandler<K>,
+	): void {
+		this.listeners.get(type)?.delete(handler as unknown as BlobPhysicsEventHandler);
+		this.syncListeners();
+	}
+
+	generateSmoothBlobPath(blob: ConvexBlob): string {
+		return this.local.generateSmoothBlobPath(blob);
+	}
+
+	private connect(): void {
+		let worker: PhysicsWorkerPort | null = null;
+		try {
+			worker = (this.options.createWorker ?? createDefaultWorker)();
+		} catch (error) {
+			this.fallBack(error instanceof Error ? error.message : 'could not start the physics worker');
+			return;
+		}
+		if (!worker) {
+			this.fallBack('Web Workers are unavailable');
+			return;
+		}
+
+		this.worker = worker;
+		worker.onmessage = (event: MessageEvent<WorkerOutMessage>) => this.handleMessage(event.data);
+		worker.onerror = (event) => {
+			event.preventDefault();
+			this.fallBack(event.message || 'the physics worker failed');
+		};
+		worker.onmessageerror = () => this.fallBack('a physics worker message could not be read');
+		this.handshakeTimer = setTimeout(
+			() => this.fallBack('the physics worker did not answer'),
+			this.options.handshakeTimeout ?? DEFAULT_HANDSHAKE_TIMEOUT,
+		);
+		this.post({ type: 'hello', version: PHYSICS_WORKER_PROTOCOL_VERSION });
+	}
+
+	private handleMessage(message: WorkerOutMessage): void {
+		if (this.mode === 'local') return;
+
+		switch (message.type) {
+			case 'hello': {
+				if (message.version !== PHYSICS_WORKER_PROTOCOL_VERSION) {
+					this.fallBack(
+						`the physics worker speaks protocol ${message.version}, not ${PHYSICS_WORKER_PROTOCOL_VERSION}`,
+					);
+					return;
+				}
+				this.sendInit();
+				break;
+			}
+
+			case 'frame': {
+				this.inFlight = false;
+				if (message.ring) this.ring = openFrameRing(message.ring);
+				if (message.frame) this.frame = message.frame;
+				if (message.blobs) {
+					this.blobs = message.blobs;
+					this.renderBlobs = message.blobs.map((blob) => ({
+						...blob,
+						controlPoints: blob.controlPoints?.map((point) => ({ ...point })),
+					}));
+				}
+				if (message.state) this.checkpoint = message.state;
+				this.frameReady = true;
+
+				if (!this.ready) {
+					this.ready = true;
+					this.mode = 'worker';
+					this.clearHandshakeTimer();
+					this.resolveInit?.();
+				}
+				for (const event of message.events ?? []) this.emit(event);
+				if (this.wantsFrame) this.scheduleFlush();
+				this.options.onFrame?.();
+				break;
+			}
+
+			case 'error': {
+				this.fallBack(message.message);
+				break;
+			}
+		}
+	}
+
+	private sendInit(): void {
+		const shared =
+			this.options.sharedMemory ??
+			(typeof globalThis.crossOriginIsolated === 'boolean' && globalThis.crossOriginIsolated);
+		if (shared && typeof SharedArrayBuffer !== 'undefined') {
+			this.ring = createFrameRing(getFrameLength(Math.max(this.numBlobs, 1) * 2, INITIAL_POINT_STRIDE));
+		}
+
+		this.initSent = true;
+		this.post({
+			type: 'init',
+			blobCount: this.numBlobs,
+			config: this.config,
+			seed: this.options.seed,
+			world: this.options.world,
+			commands: this.takeCommands(),
+			checkpointInterval: this.options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL,
+			ring: this.ring?.buffer,
+		});
+	}
+
+	private postTick(): void {
+		// A transferred frame is read before its buffer goes back.
+		this.decode();
+		const frame = this.frame;
+		this.frame = null;
+		this.post(
+			{
+				type: 'tick',
+				dt: this.pendingDt,
+				time: this.lastTime,
+				commands: this.takeCommands(),
+				frame: frame ?? undefined,
+			},
+			frame ? [frame.buffer] : [],
+		);
+		this.pendingDt = 0;
+		this.inFlight = true;
+		this.stale = false;
+		this.wantsFrame = false;
+	}
+
+	// Asks for a fresh frame when commands went out since the last one, and
+	// reads the latest frame in.
+	private refresh(): void {
+		if (this.commands.length > 0 || this.stale) {
+			this.wantsFrame = true;
+			this.scheduleFlush();
+		}
+		this.decode();
+	}
+
+	private decode(): void {
+		if (!this.frameReady) return;
+		this.frameReady = false;
+
+		const frame = this.ring
+			? this.ring.slots[Atomics.load(this.ring.sequence, 0) % this.ring.slots.length]
+			: this.frame;
+		const header = frame ? decodeFrame(frame, this.blobs, this.renderBlobs) : null;
+		if (header) {
+			this.mouse = header.mouse;
+			this.energy = header.energy;
+		}
+	}
+
+	private send(command: PhysicsWorkerCommand): void {
+		if (this.mode === 'local') return;
+		this.commands.push(command);
+		this.scheduleFlush();
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushScheduled) return;
+		this.flushScheduled = true;
+		queueMicrotask(() => this.flush());
+	}
+
+	// Commands issued outside a tick go out at the end of the current task;
+	// when getBlobs() is waiting on them they go as an empty tick, which
+	// answers with a frame.
+	private flush(): void {
+		this.flushScheduled = false;
+		if (!this.worker || !this.initSent) return;
+
+		if (this.wantsFrame && this.ready && !this.inFlight) {
+			this.postTick();
+		} else if (this.commands.length > 0) {
+			this.post({ type: 'commands', commands: this.takeCommands() });
+			this.stale = true;
+		}
+	}
+
+	private takeCommands(): PhysicsWorkerCommand[] {
+		const commands = this.commands;
+		this.commands = [];
+		return commands;
+	}
+
+	private post(message: WorkerInMessage, transfer: Transferable[] = []): void {
+		try {
+			this.worker?.postMessage(message, transfer);
+		} catch (error) {
+			// Typically a DataCloneError from a value that cannot cross threads.
+			this.fallBack(error instanceof Error ? error.message : 'could not message the physics worker');
+		}
+	}
+
+	// Runs the simulation in-thread from here on, resuming from the worker's
+	// last checkpoint when there is one. The idle instance already holds the
+	// current config and inputs; the checkpoint's inputs, world and blob
+	// count are put back to what the caller last set.
+	private fallBack(reason: string): void {
+		if (this.mode === 'local') return;
+		this.clearHandshakeTimer();
+		this.worker?.terminate();
+		this.worker = null;
+		this.mode = 'local';
+		this.ready = false;
+		this.commands = [];
+		this.ring = null;
+		this.frame = null;
+
+		if (this.checkpoint) {
+			const { mouse, gravity, tilt, scrollStickiness, world } = this.local.exportState();
+			const count = this.local.getBlobCount();
+			this.local.importState({ ...this.checkpoint, mouse, gravity, tilt, scrollStickiness });
+			this.local.setWorld(world);
+			this.local.setBlobCount(count, { animate: false });
+		}
+		this.syncListeners();
+
+		this.options.onFallback?.(reason);
+		void this.local.init().then(() => {
+			this.resolveInit?.();
+			this.options.onFrame?.();
+		});
+	}
+
+	private syncListeners(): void {
+		const types = BLOB_PHYSICS_EVENT_TYPES.filter((type) => (this.listeners.get(type)?.size ?? 0) > 0);
+
+		if (this.mode !== 'local') {
+			this.send({ type: 'listen', types });
+			return;
+		}
+
+		for (const type of BLOB_PHYSICS_EVENT_TYPES) {
+			const wanted = types.includes(type);
+			if (wanted && !this.forwarders.has(type)) {
+				this.forwarders.set(type, this.local.on(type, (event) => this.emit(event)));
+			} else if (!wanted) {
+				this.forwarders.get(type)?.();
+				this.forwarders.delete(type);
+			}
+		}
+	}
+
+	private emit(event: BlobPhysicsEvent): void {
+		for (const handler of this.listeners.get(event.type) ?? []) {
+			handler(event);
+		}
+	}
+
+	private clearHandshakeTimer(): void {
+		if (this.handshakeTimer !== null) clearTimeout(this.handshakeTimer);
+		this.handshakeTimer = null;
+	}
+}
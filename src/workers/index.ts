@@ -1,5 +1,12 @@
-
-
-
-
-export type { BlobRenderData, WorkerInMessage, WorkerOutMessage } from './physics.worker.js';
+export {
+	PhysicsWorkerClient,
+	type PhysicsWorkerClientOptions,
+	type PhysicsWorkerPort,
+} from './PhysicsWorkerClient.js';
+export { createPhysicsWorkerHost, type PhysicsWorkerHost, type PostWorkerMessage } from './physics-worker-host.js';
+export {
+	PHYSICS_WORKER_PROTOCOL_VERSION,
+	type PhysicsWorkerCommand,
+	type WorkerInMessage,
+	type WorkerOutMessage,
+} from './protocol.js';
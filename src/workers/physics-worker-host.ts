@@ -0,0 +1,228 @@
+import {
+	BLOB_PHYSICS_EVENT_TYPES,
+	BlobPhysics,
+	type BlobPhysicsEvent,
+	type BlobPhysicsEventType,
+} from '../core/BlobPhysics.js';
+import {
+	PHYSICS_WORKER_PROTOCOL_VERSION,
+	encodeFrame,
+	openFrameRing,
+	createFrameRing,
+	type FrameRing,
+	type PhysicsWorkerCommand,
+	type WorkerInMessage,
+	type WorkerOutMessage,
+} from './protocol.js';
+
+export type PostWorkerMessage = (message: WorkerOutMessage, transfer?: Transferable[]) => void;
+
+export interface PhysicsWorkerHost {
+	handleMessage(message: WorkerInMessage): void;
+}
+
+// The worker side of the protocol, kept apart from the worker global so it
+// runs anywhere `post` can deliver messages. Each tick applies the queued
+// commands, steps BlobPhysics with the client's dt and writes one frame
+// of stepped and interpolated state, either into the transferred buffer it
+// was handed or into the shared ring. Events raised during the tick, the full blobs when the set or its
+// colours changed, and a state checkpoint every `checkpointInterval`
+// seconds of tick time ride along on the same message.
+export function createPhysicsWorkerHost(post: PostWorkerMessage): PhysicsWorkerHost {
+	let physics: BlobPhysics | null = null;
+	let ring: FrameRing | null = null;
+	let sequence = 0;
+	let blobIds: (number | undefined)[] = [];
+	let layoutChanged = true;
+	let checkpointInterval = 1;
+	let lastCheckpoint = 0;
+	let events: BlobPhysicsEvent[] = [];
+	const unsubscribers = new Map<BlobPhysicsEventType, () => void>();
+
+	const report = (error: unknown) => {
+		const text = error instanceof Error ? error.message : 'Unknown error';
+		post({ type: 'error', message: text });
+	};
+
+	const collect = (event: BlobPhysicsEvent) => {
+		events.push(event);
+	};
+
+	// Only subscribe to what the client listens for: collision tracking is
+	// skipped entirely while nobody listens.
+	const listen = (types: readonly BlobPhysicsEventType[]) => {
+		for (const type of BLOB_PHYSICS_EVENT_TYPES) {
+			const wanted = types.includes(type);
+			if (wanted && !unsubscribers.has(type) && physics) {
+				unsubscribers.set(type, physics.on(type, collect));
+			} else if (!wanted) {
+				unsubscribers.get(type)?.();
+				unsubscribers.delete(type);
+			}
+		}
+	};
+
+	const apply = (command: PhysicsWorkerCommand) => {
+		if (!physics) return;
+		switch (command.type) {
+			case 'setGravity':
+				physics.setGravity(command.gravity);
+				break;
+			case 'setTilt':
+				physics.setTilt(command.tilt);
+				break;
+			case 'setScrollStickiness':
+				physics.setScrollStickiness(command.value);
+				break;
+			case 'setScrollField':
+				physics.setScrollField(command.input);
+				break;
+			case 'updateMouse':
+				physics.updateMousePosition(command.x, command.y);
+				break;
+			case 'resetMouse':
+				physics.resetMousePosition();
+				break;
+			case 'setPointers':
+				physics.setPointers(command.pointers);
+				break;
+			case 'setConfig':
+				physics.setConfig(command.config, command.options);
+				layoutChanged = true;
+				break;
+			case 'setWorld':
+				physics.setWorld(command.world);
+				break;
+			case 'setExclusionZones':
+				physics.setExclusionZones(command.zones);
+				break;
+			case 'setAnchor':
+				physics.setAnchor(command.name, command.anchor);
+				break;
+			case 'removeAnchor':
+				physics.removeAnchor(command.name);
+				break;
+			case 'setBlobCount':
+				physics.setBlobCount(command.count, command.options);
+				break;
+			case 'setPalette':
+				physics.setPalette(command.colors);
+				layoutChanged = true;
+				break;
+			case 'importState':
+				physics.importState(command.state);
+				layoutChanged = true;
+				break;
+			case 'listen':
+				listen(command.types);
+				break;
+		}
+	};
+
+	const sendFrame = (time: number, buffer?: Float32Array) => {
+		if (!physics) return;
+
+		const blobs = physics.getBlobs();
+		if (!layoutChanged) {
+			layoutChanged =
+				blobs.length !== blobIds.length || blobs.some((blob, i) => blob.id !== blobIds[i]);
+		}
+
+		const message: Extract<WorkerOutMessage, { type: 'frame' }> = { type: 'frame' };
+		const transfer: Transferable[] = [];
+		if (layoutChanged) {
+			message.blobs = blobs;
+			blobIds = blobs.map((blob) => blob.id);
+			layoutChanged = false;
+		}
+		if (events.length > 0) {
+			message.events = events;
+			events = [];
+		}
+		if (time - lastCheckpoint >= checkpointInterval) {
+			message.state = physics.exportState();
+			lastCheckpoint = time;
+		}
+
+		const rendered = physics.getInterpolatedBlobs();
+		const header = { mouse: physics.getMousePosition(), energy: physics.getMotionEnergy() };
+		if (ring) {
+			const slot = ring.slots[(sequence + 1) % ring.slots.length];
+			const frame = encodeFrame(blobs, rendered, header, slot);
+			if (frame !== slot) {
+				// Outgrew the ring: move to one twice the size.
+				ring = createFrameRing(frame.length * 2);
+				ring.slots[(sequence + 1) % ring.slots.length].set(frame);
+				message.ring = ring.buffer;
+			}
+			sequence++;
+			Atomics.store(ring.sequence, 0, sequence);
+		} else {
+			message.frame = encodeFrame(blobs, rendered, header, buffer ?? new Float32Array(0));
+			transfer.push(message.frame.buffer);
+		}
+
+		post(message, transfer);
+	};
+
+	return {
+		handleMessage(message) {
+			try {
+				switch (message.type) {
+					case 'hello': {
+						post({ type: 'hello', version: PHYSICS_WORKER_PROTOCOL_VERSION });
+						if (message.version !== PHYSICS_WORKER_PROTOCOL_VERSION) {
+							throw new Error(
+								`physics worker speaks protocol ${PHYSICS_WORKER_PROTOCOL_VERSION}, client ${message.version}`,
+							);
+						}
+						break;
+					}
+
+					case 'init': {
+						const current = new BlobPhysics(message.blobCount, message.config, {
+							seed: message.seed,
+							world: message.world,
+						});
+						physics = current;
+						ring = message.ring ? openFrameRing(message.ring) : null;
+						sequence = ring ? Atomics.load(ring.sequence, 0) : 0;
+						checkpointInterval = message.checkpointInterval;
+						message.commands.forEach(apply);
+						current
+							.init()
+							.then(() => {
+								if (physics !== current) return;
+								lastCheckpoint = -Infinity;
+								sendFrame(0);
+							})
+							.catch(report);
+						break;
+					}
+
+					case 'tick': {
+						message.commands.forEach(apply);
+						physics?.tick(message.dt, message.time);
+						sendFrame(message.time, message.frame);
+						break;
+					}
+
+					case 'commands': {
+						message.commands.forEach(apply);
+						break;
+					}
+
+					case 'dispose': {
+						listen([]);
+						physics?.dispose();
+						physics = null;
+						ring = null;
+						break;
+					}
+				}
+			} catch (error) {
+				report(error);
+			}
+		},
+	};
+}
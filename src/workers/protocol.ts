@@ -0,0 +1,274 @@
+import type {
+	BlobCountOptions,
+	BlobPhysicsConfig,
+	BlobPhysicsEvent,
+	BlobPhysicsEventType,
+	BlobPhysicsSnapshot,
+	PointerInput,
+	ScrollFieldInput,
+	SetConfigOptions,
+} from '../core/BlobPhysics.js';
+import type { ExclusionZone } from '../core/exclusion-zones.js';
+import type { FieldAnchor } from '../core/InteractionField.js';
+import type { ThemeColor } from '../core/theme-presets.js';
+import type { ConvexBlob, GravityVector, TiltVector } from '../core/types.js';
+import type { PhysicsWorld } from '../core/world.js';
+
+// Message protocol between PhysicsWorkerClient and the physics worker.
+// Bump the version whenever a message or the frame layout changes: the
+// client refuses a worker that answers the handshake with another version
+// (a stale cached worker script, say) and runs physics in-thread instead.
+export const PHYSICS_WORKER_PROTOCOL_VERSION = 3;
+
+// Input the client forwards to the worker's BlobPhysics, queued between
+// frames and delivered in order with the next tick.
+export type PhysicsWorkerCommand =
+	| { type: 'setGravity'; gravity: GravityVector }
+	| { type: 'setTilt'; tilt: TiltVector }
+	| { type: 'setScrollStickiness'; value: number }
+	| { type: 'setScrollField'; input: ScrollFieldInput }
+	| { type: 'updateMouse'; x: number; y: number }
+	| { type: 'resetMouse' }
+	| { type: 'setPointers'; pointers: PointerInput[] }
+	| { type: 'setConfig'; config: Partial<BlobPhysicsConfig>; options: SetConfigOptions }
+	| { type: 'setWorld'; world: PhysicsWorld }
+	| { type: 'setExclusionZones'; zones: ExclusionZone[] }
+	| { type: 'setAnchor'; name: string; anchor: FieldAnchor }
+	| { type: 'removeAnchor'; name: string }
+	| { type: 'setBlobCount'; count: number; options: BlobCountOptions }
+	| { type: 'setPalette'; colors: (string | ThemeColor)[] }
+	| { type: 'importState'; state: BlobPhysicsSnapshot }
+	| { type: 'listen'; types: BlobPhysicsEventType[] };
+
+export type WorkerInMessage =
+	| { type: 'hello'; version: number }
+	| {
+			type: 'init';
+			blobCount: number;
+			config: Partial<BlobPhysicsConfig>;
+			seed?: number;
+			world?: PhysicsWorld;
+			commands: PhysicsWorkerCommand[];
+			/** Seconds of tick time between state checkpoints. */
+			checkpointInterval: number;
+			/** Frame ring shared with the client; frames are transferred without one. */
+			ring?: SharedArrayBuffer;
+	  }
+	| {
+			type: 'tick';
+			dt: number;
+			time: number;
+			commands: PhysicsWorkerCommand[];
+			/** The client's frame buffer, transferred in to be filled and sent back. */
+			frame?: Float32Array;
+	  }
+	| { type: 'commands'; commands: PhysicsWorkerCommand[] }
+	| { type: 'dispose' };
+
+export type WorkerOutMessage =
+	| { type: 'hello'; version: number }
+	| {
+			type: 'frame';
+			/** Set when the frame was transferred rather than written to the ring. */
+			frame?: Float32Array;
+			/** Replaces the ring when a frame outgrew its slots. */
+			ring?: SharedArrayBuffer;
+			/** Full blobs, sent when the blob set or its colours change. */
+			blobs?: ConvexBlob[];
+			events?: BlobPhysicsEvent[];
+			state?: BlobPhysicsSnapshot;
+	  }
+	| { type: 'error'; message: string };
+
+// Frame layout, all Float32: a header, then one record per blob holding
+// the fields that change every step followed by `pointStride` control
+// points as (angle, radius, rendered radius) triples. The rendered centre
+// and radii are BlobPhysics.getInterpolatedBlobs() after the step, so the
+// client draws the same blend the in-thread simulation would. Everything
+// else about a blob travels in the `blobs` of a frame message only when it
+// changes.
+export const FRAME_HEADER_LENGTH = 5;
+const HEADER_BLOB_COUNT = 0;
+const HEADER_POINT_STRIDE = 1;
+const HEADER_MOUSE_X = 2;
+const HEADER_MOUSE_Y = 3;
+const HEADER_MOTION_ENERGY = 4;
+
+export const FRAME_BLOB_FIELDS = 9;
+const BLOB_ID = 0;
+const BLOB_X = 1;
+const BLOB_Y = 2;
+const BLOB_SIZE = 3;
+const BLOB_PRESENCE = 4;
+const BLOB_SCROLL_STRETCH = 5;
+const BLOB_POINT_COUNT = 6;
+const BLOB_RENDER_X = 7;
+const BLOB_RENDER_Y = 8;
+
+export const FRAME_POINT_FIELDS = 3;
+const POINT_ANGLE = 0;
+const POINT_RADIUS = 1;
+const POINT_RENDER_RADIUS = 2;
+
+// Scene-wide values carried in the frame header.
+export interface FrameHeader {
+	mouse: { x: number; y: number };
+	/** BlobPhysics.getMotionEnergy() after the step. */
+	energy: number;
+}
+
+export function getFrameLength(blobCount: number, pointStride: number): number {
+	return FRAME_HEADER_LENGTH + blobCount * (FRAME_BLOB_FIELDS + pointStride * FRAME_POINT_FIELDS);
+}
+
+// Writes `blobs`, with the centres and radii of their interpolated copies
+// in `rendered` (same order), into `frame`, or into a larger array when it
+// does not fit, and returns the array written.
+export function encodeFrame(
+	blobs: readonly ConvexBlob[],
+	rendered: readonly ConvexBlob[],
+	header: FrameHeader,
+	frame: Float32Array,
+): Float32Array {
+	let pointStride = 0;
+	for (const blob of blobs) {
+		pointStride = Math.max(pointStride, blob.controlPoints?.length ?? 0);
+	}
+
+	const length = getFrameLength(blobs.length, pointStride);
+	const target = frame.length >= length ? frame : new Float32Array(length);
+	target[HEADER_BLOB_COUNT] = blobs.length;
+	target[HEADER_POINT_STRIDE] = pointStride;
+	target[HEADER_MOUSE_X] = header.mouse.x;
+	target[HEADER_MOUSE_Y] = header.mouse.y;
+	target[HEADER_MOTION_ENERGY] = header.energy;
+
+	let offset = FRAME_HEADER_LENGTH;
+	for (let index = 0; index < blobs.length; index++) {
+		const blob = blobs[index];
+		const render = rendered[index];
+		const points = blob.controlPoints ?? [];
+		const renderPoints = render.controlPoints ?? points;
+		target[offset + BLOB_ID] = blob.id ?? -1;
+		target[offset + BLOB_X] = blob.currentX;
+		target[offset + BLOB_Y] = blob.currentY;
+		target[offset + BLOB_SIZE] = blob.size;
+		target[offset + BLOB_PRESENCE] = blob.presence ?? 1;
+		target[offset + BLOB_SCROLL_STRETCH] = blob.scrollStretch ?? 0;
+		target[offset + BLOB_POINT_COUNT] = points.length;
+		target[offset + BLOB_RENDER_X] = render.currentX;
+		target[offset + BLOB_RENDER_Y] = render.currentY;
+		offset += FRAME_BLOB_FIELDS;
+		for (let i = 0; i < points.length; i++) {
+			const point = offset + i * FRAME_POINT_FIELDS;
+			target[point + POINT_ANGLE] = points[i].angle;
+			target[point + POINT_RADIUS] = points[i].radius;
+			target[point + POINT_RENDER_RADIUS] = renderPoints[i].radius;
+		}
+		offset += pointStride * FRAME_POINT_FIELDS;
+	}
+
+	return target;
+}
+
+// Copies a frame into `blobs`, the matching blobs from the last `blobs`
+// message, and into `rendered`, copies of them that take the interpolated
+// centres and radii, and returns the header it carried. Returns null and
+// leaves both alone when the frame describes a different blob set.
+export function decodeFrame(
+	frame: Float32Array,
+	blobs: readonly ConvexBlob[],
+	rendered: readonly ConvexBlob[] = [],
+): FrameHeader | null {
+	const blobCount = frame[HEADER_BLOB_COUNT];
+	const pointStride = frame[HEADER_POINT_STRIDE];
+	if (blobCount !== blobs.length) return null;
+
+	let offset = FRAME_HEADER_LENGTH;
+	for (const blob of blobs) {
+		if (frame[offset + BLOB_ID] !== (blob.id ?? -1)) return null;
+		offset += FRAME_BLOB_FIELDS + pointStride * FRAME_POINT_FIELDS;
+	}
+
+	offset = FRAME_HEADER_LENGTH;
+	for (let index = 0; index < blobs.length; index++) {
+		const pointCount = frame[offset + BLOB_POINT_COUNT];
+		decodeBlob(frame, offset, pointCount, blobs[index], BLOB_X, BLOB_Y, POINT_RADIUS);
+		const render = rendered[index];
+		if (render) {
+			decodeBlob(frame, offset, pointCount, render, BLOB_RENDER_X, BLOB_RENDER_Y, POINT_RENDER_RADIUS);
+		}
+		offset += FRAME_BLOB_FIELDS + pointStride * FRAME_POINT_FIELDS;
+	}
+
+	return {
+		mouse: { x: frame[HEADER_MOUSE_X], y: frame[HEADER_MOUSE_Y] },
+		energy: frame[HEADER_MOTION_ENERGY],
+	};
+}
+
+// Reads one blob record into `blob`, taking its centre and radii from the
+// given fields: the stepped ones or the rendered ones.
+function decodeBlob(
+	frame: Float32Array,
+	offset: number,
+	pointCount: number,
+	blob: ConvexBlob,
+	xField: number,
+	yField: number,
+	radiusField: number,
+): void {
+	blob.currentX = frame[offset + xField];
+	blob.currentY = frame[offset + yField];
+	blob.size = frame[offset + BLOB_SIZE];
+	blob.presence = frame[offset + BLOB_PRESENCE];
+	blob.scrollStretch = frame[offset + BLOB_SCROLL_STRETCH];
+	const points = blob.controlPoints;
+	if (points && points.length === pointCount) {
+		const base = offset + FRAME_BLOB_FIELDS;
+		for (let i = 0; i < pointCount; i++) {
+			points[i].angle = frame[base + i * FRAME_POINT_FIELDS + POINT_ANGLE];
+			points[i].radius = frame[base + i * FRAME_POINT_FIELDS + radiusField];
+		}
+	}
+}
+
+// Shared frame ring: an Int32 sequence number, then FRAME_RING_SLOTS equal
+// Float32 slots. Frame n lives in slot n % FRAME_RING_SLOTS and is
+// published by storing n; with one tick in flight the worker only ever
+// writes the slot the client is not reading.
+export const FRAME_RING_SLOTS = 2;
+const RING_HEADER_BYTES = 4;
+
+export interface FrameRing {
+	buffer: SharedArrayBuffer;
+	sequence: Int32Array;
+	slots: Float32Array[];
+}
+
+export function createFrameRing(slotLength: number): FrameRing {
+	return openFrameRing(
+		new SharedArrayBuffer(
+			RING_HEADER_BYTES + FRAME_RING_SLOTS * slotLength * Float32Array.BYTES_PER_ELEMENT,
+		),
+	);
+}
+
+// Views over a ring created by the other side.
+export function openFrameRing(buffer: SharedArrayBuffer): FrameRing {
+	const slotLength =
+		(buffer.byteLength - RING_HEADER_BYTES) / FRAME_RING_SLOTS / Float32Array.BYTES_PER_ELEMENT;
+	return {
+		buffer,
+		sequence: new Int32Array(buffer, 0, 1),
+		slots: Array.from(
+			{ length: FRAME_RING_SLOTS },
+			(_, slot) =>
+				new Float32Array(
+					buffer,
+					RING_HEADER_BYTES + slot * slotLength * Float32Array.BYTES_PER_ELEMENT,
+					slotLength,
+				),
+		),
+	};
+}
@@ -0,0 +1,31 @@
+import { bench, describe } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+
+// One fixed 1/60 s step per iteration. The goal for the structure-of-arrays
+// core is 200 blobs in under 1 ms; compare the mean against it by hand, as
+// timings vary too much between machines to assert on.
+async function createPhysics(extras: boolean): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(200, {}, { seed: 21 });
+	await physics.init();
+	physics.updateMousePosition(40, 60);
+	if (extras) {
+		physics.setAnchor('cta', { x: 70, y: 30, radius: 30, strength: 2, falloff: 'smooth' });
+		physics.addField('wind', () => ({ x: 0.001, y: 0 }));
+		physics.setExclusionZones([{ shape: 'rect', minX: 10, minY: 10, maxX: 40, maxY: 30 }]);
+	}
+	return physics;
+}
+
+const plain = await createPhysics(false);
+const loaded = await createPhysics(true);
+
+describe('BlobPhysics step, 200 blobs', () => {
+	bench('default config', () => {
+		plain.tick(1 / 60, 0);
+	});
+
+	bench('with an anchor, a custom field and an exclusion zone', () => {
+		loaded.tick(1 / 60, 0);
+	});
+});
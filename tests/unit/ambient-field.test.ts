@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	BlobPhysics,
+	DEFAULT_AMBIENT_FIELD_CONFIG,
+	type AmbientFieldConfig,
+} from '../../src/core/BlobPhysics.js';
+import { createCurlNoiseField, createSimplexNoise3D } from '../../src/core/CurlNoise.js';
+
+const grid = (step: number, count: number) =>
+	Array.from({ length: count * count }, (_, i) => [(i % count) * step, Math.floor(i / count) * step]);
+
+// Mean cosine between the flow at each grid point and `offset` units away.
+function alignment(offset: number): number {
+	const flow = createCurlNoiseField(5);
+	const points = grid(0.37, 20);
+	let total = 0;
+	for (const [x, y] of points) {
+		const a = flow(x, y, 1.5);
+		const b = flow(x + offset, y, 1.5);
+		total += (a.x * b.x + a.y * b.y) / (Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y) || 1);
+	}
+	return total / points.length;
+}
+
+// Settles for ten seconds, then reports RMS speed over the next twenty and
+// how far any blob strays outside the world.
+async function idleDrift(ambientField: Partial<AmbientFieldConfig>) {
+	const physics = new BlobPhysics(8, { ambientField }, { seed: 6 });
+	await physics.init();
+	const world = physics.getWorld();
+	for (let i = 0; i < 600; i++) physics.tick(1 / 60, 0);
+
+	let sumSquares = 0;
+	let samples = 0;
+	let overshoot = 0;
+	for (let i = 0; i < 1200; i++) {
+		physics.tick(1 / 60, 0);
+		for (const blob of physics.getBlobs()) {
+			sumSquares += blob.velocityX ** 2 + blob.velocityY ** 2;
+			samples++;
+			overshoot = Math.max(
+				overshoot,
+				world.minX - blob.currentX,
+				blob.currentX - world.maxX,
+				world.minY - blob.currentY,
+				blob.currentY - world.maxY,
+			);
+		}
+	}
+	return { physics, rmsSpeed: Math.sqrt(sumSquares / samples), overshoot };
+}
+
+describe('CurlNoise', () => {
+	it('is reproducible per seed', () => {
+		expect(createSimplexNoise3D(3)(1.2, 3.4, 5.6)).toBe(createSimplexNoise3D(3)(1.2, 3.4, 5.6));
+		expect(createSimplexNoise3D(3)(1.2, 3.4, 5.6)).not.toBe(createSimplexNoise3D(4)(1.2, 3.4, 5.6));
+	});
+
+	it('produces a bounded, divergence-free flow', () => {
+		const flow = createCurlNoiseField(2);
+		const h = 1e-2;
+		let divergence = 0;
+		let vorticity = 0;
+		for (const [x, y] of grid(0.61, 16)) {
+			const vector = flow(x, y, 0.8);
+			expect(Math.hypot(vector.x, vector.y)).toBeLessThanOrEqual(1);
+
+			const [right, left, up, down] = [
+				flow(x + h, y, 0.8),
+				flow(x - h, y, 0.8),
+				flow(x, y + h, 0.8),
+				flow(x, y - h, 0.8),
+			];
+			divergence += Math.abs(right.x - left.x + up.y - down.y);
+			vorticity += Math.abs(right.y - left.y - (up.x - down.x));
+		}
+
+		// Swirl dominates: what little divergence shows is sampling error.
+		expect(divergence).toBeLessThan(vorticity * 0.05);
+	});
+
+	it('moves neighbouring points together and distant ones independently', () => {
+		expect(alignment(0.05)).toBeGreaterThan(0.9);
+		expect(Math.abs(alignment(7.3))).toBeLessThan(0.3);
+	});
+});
+
+describe('BlobPhysics ambient field', () => {
+	it('keeps the random drift by default', async () => {
+		const implicit = await idleDrift({});
+		const explicit = await idleDrift({ mode: 'random', strength: 1 });
+
+		expect(DEFAULT_AMBIENT_FIELD_CONFIG.mode).toBe('random');
+		expect(explicit.physics.exportState()).toEqual(implicit.physics.exportState());
+	});
+
+	it('keeps curl drift bounded and about as lively as the random drift', async () => {
+		const random = await idleDrift({});
+		const curl = await idleDrift({ mode: 'curl' });
+
+		expect(curl.rmsSpeed).toBeGreaterThan(random.rmsSpeed * 0.5);
+		expect(curl.rmsSpeed).toBeLessThan(random.rmsSpeed * 2);
+		expect(curl.overshoot).toBeLessThanOrEqual(Math.max(random.overshoot, 0) + 5);
+	});
+
+	it('flows reproducibly from the seed', async () => {
+		const first = await idleDrift({ mode: 'curl' });
+		const second = await idleDrift({ mode: 'curl' });
+		const reseeded = await idleDrift({ mode: 'curl', seed: 99 });
+
+		expect(second.physics.exportState()).toEqual(first.physics.exportState());
+		expect(reseeded.physics.exportState()).not.toEqual(first.physics.exportState());
+	});
+
+	it('retunes live and validates settings', async () => {
+		const physics = new BlobPhysics(2, {}, { seed: 1 });
+		await physics.init();
+		physics.setConfig({ ambientField: { mode: 'curl', scale: 25 } });
+		expect(physics.getConfig().ambientField).toEqual({ mode: 'curl', scale: 25 });
+		physics.tick(1 / 60, 0);
+
+		physics.setConfig({}, { reset: true });
+		expect(physics.getConfig().ambientField).toBeUndefined();
+
+		expect(() => physics.setConfig({ ambientField: { scale: 0 } })).toThrow(RangeError);
+		expect(() => physics.setConfig({ ambientField: { speed: Number.NaN } })).toThrow(RangeError);
+		expect(
+			() => new BlobPhysics(1, { ambientField: { mode: 'perlin' as AmbientFieldConfig['mode'] } }),
+		).toThrow(RangeError);
+	});
+});
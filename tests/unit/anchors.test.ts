@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+import {
+	isValidFieldAnchor,
+	linearDistanceFalloff,
+	pointAttractorField,
+	type FieldAnchor,
+} from '../../src/core/InteractionField.js';
+import {
+	createAnchorTracker,
+	type AnchorElement,
+	type AnchorTrackerEventTarget,
+} from '../../src/motion/AnchorTracker.js';
+import type { PointerBounds } from '../../src/motion/PointerMapper.js';
+
+async function createPhysics(): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(1, {}, { seed: 6 });
+	await physics.init();
+	const [blob] = physics.getBlobs();
+	blob.currentX = 50;
+	blob.currentY = 50;
+	blob.velocityX = 0;
+	blob.velocityY = 0;
+	return physics;
+}
+
+function run(physics: BlobPhysics, frames: number): void {
+	for (let i = 0; i < frames; i++) {
+		physics.tick(1 / 60, 0);
+	}
+}
+
+describe('anchor falloff', () => {
+	it('offers a linear falloff alongside the smooth default', () => {
+		expect(linearDistanceFalloff(25, 100)).toBe(0.75);
+		expect(linearDistanceFalloff(120, 100)).toBe(0);
+
+		const options = { origin: { x: 0, y: 0 }, target: { x: 50, y: 0 }, radius: 100, strength: 1 };
+		expect(pointAttractorField(options).x).toBeCloseTo(0.25, 10);
+		expect(pointAttractorField({ ...options, falloff: 'linear' }).x).toBeCloseTo(0.5, 10);
+	});
+});
+
+describe('BlobPhysics anchors', () => {
+	const anchor: FieldAnchor = { x: 70, y: 50, radius: 60, strength: 4 };
+
+	it('draws nearby blobs toward an attractor', async () => {
+		const baseline = await createPhysics();
+		const attracted = await createPhysics();
+		attracted.setAnchor('cta', anchor);
+
+		run(baseline, 60);
+		run(attracted, 60);
+
+		expect(attracted.getBlobs()[0].currentX).toBeGreaterThan(baseline.getBlobs()[0].currentX + 2);
+	});
+
+	it('pushes blobs away with negative strength', async () => {
+		const baseline = await createPhysics();
+		const repelled = await createPhysics();
+		repelled.setAnchor('keep-clear', { ...anchor, strength: -4 });
+
+		run(baseline, 60);
+		run(repelled, 60);
+
+		expect(repelled.getBlobs()[0].currentX).toBeLessThan(baseline.getBlobs()[0].currentX - 2);
+	});
+
+	it('ignores blobs beyond the radius and stops after removeAnchor', async () => {
+		const baseline = await createPhysics();
+		const distant = await createPhysics();
+		distant.setAnchor('far', { ...anchor, x: 130, radius: 20 });
+		const removed = await createPhysics();
+		removed.setAnchor('cta', anchor);
+		expect(removed.removeAnchor('cta')).toBe(true);
+
+		run(baseline, 60);
+		run(distant, 60);
+		run(removed, 60);
+
+		expect(distant.exportState().blobs).toEqual(baseline.exportState().blobs);
+		expect(removed.exportState().blobs).toEqual(baseline.exportState().blobs);
+	});
+
+	it('validates anchors and returns copies', async () => {
+		const physics = await createPhysics();
+
+		expect(() => physics.setAnchor('bad', { ...anchor, radius: 0 })).toThrow(RangeError);
+		expect(() => physics.setAnchor('bad', { ...anchor, x: Number.NaN })).toThrow(RangeError);
+
+		physics.setAnchor('cta', anchor);
+		physics.getAnchors().cta.strength = 100;
+		expect(physics.getAnchors()).toEqual({ cta: anchor });
+	});
+
+	it('exposes the same check for callers that drop bad specs', () => {
+		expect(isValidFieldAnchor(anchor)).toBe(true);
+		expect(isValidFieldAnchor({ ...anchor, strength: Number.POSITIVE_INFINITY })).toBe(false);
+		expect(isValidFieldAnchor({ ...anchor, radius: Number.NaN })).toBe(false);
+		expect(isValidFieldAnchor({ ...anchor, radius: -5 })).toBe(false);
+	});
+});
+
+describe('createAnchorTracker', () => {
+	const BOUNDS: PointerBounds = { left: 0, top: 0, width: 100, height: 100 };
+
+	function element(rect: PointerBounds, focusVisible = true): AnchorElement & { rect: PointerBounds } {
+		return {
+			rect,
+			getBoundingClientRect() {
+				return this.rect;
+			},
+			matches: (selector) => selector === ':focus-visible' && focusVisible,
+		};
+	}
+
+	function harness() {
+		const listeners = new Map<string, EventListener>();
+		const frames: FrameRequestCallback[] = [];
+		const changes: [string, FieldAnchor | null][] = [];
+		const target: AnchorTrackerEventTarget = {
+			addEventListener: (type, listener) => listeners.set(type, listener),
+			removeEventListener: (type) => listeners.delete(type),
+		};
+		const tracker = createAnchorTracker({
+			target,
+			getBounds: () => BOUNDS,
+			onChange: (name, anchor) => changes.push([name, anchor]),
+			requestFrame: (callback) => frames.push(callback),
+			cancelFrame: () => {},
+		});
+		const dispatch = (type: string, eventTarget: unknown = null) => {
+			listeners.get(type)!({ target: eventTarget } as unknown as Event);
+			for (const callback of frames.splice(0)) callback(0);
+		};
+		return { listeners, changes, tracker, dispatch };
+	}
+
+	it('follows an element center and drops it once scrolled away', () => {
+		const { changes, tracker, dispatch } = harness();
+		const cta = element({ left: 10, top: 20, width: 20, height: 10 });
+
+		const unbind = tracker.bindElement('cta', cta, { radius: 30, strength: 2 });
+		expect(changes).toEqual([['cta', { radius: 30, strength: 2, x: 20, y: 25 }]]);
+
+		cta.rect = { ...cta.rect, top: -50 };
+		dispatch('scroll');
+		expect(changes[1]).toEqual(['cta', null]);
+
+		cta.rect = { ...cta.rect, top: 40 };
+		dispatch('scroll');
+		unbind();
+		expect(changes.slice(2)).toEqual([
+			['cta', { radius: 30, strength: 2, x: 20, y: 45 }],
+			['cta', null],
+		]);
+	});
+
+	it('follows keyboard focus but not pointer focus', () => {
+		const { changes, tracker, dispatch } = harness();
+		tracker.bindFocus('@focus', { radius: 40, strength: 1 });
+		expect(changes).toEqual([]);
+
+		dispatch('focusin', element({ left: 60, top: 60, width: 20, height: 20 }));
+		expect(changes).toEqual([['@focus', { radius: 40, strength: 1, x: 70, y: 70 }]]);
+
+		dispatch('focusout');
+		dispatch('focusin', element({ left: 0, top: 0, width: 10, height: 10 }, false));
+		expect(changes.slice(1)).toEqual([['@focus', null]]);
+	});
+
+	it('removes its listeners on dispose', () => {
+		const { listeners, tracker } = harness();
+
+		tracker.dispose();
+
+		expect(listeners.size).toBe(0);
+	});
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+
+async function createPhysics(count: number): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(count, {}, { seed: 21 });
+	await physics.init();
+	return physics;
+}
+
+function stepSeconds(physics: BlobPhysics, seconds: number): void {
+	const frames = Math.round(seconds * 60);
+	for (let i = 0; i < frames; i++) {
+		physics.tick(1 / 60, 0);
+	}
+}
+
+describe('BlobPhysics runtime blob add/remove', () => {
+	it('assigns stable ids and keeps mount-time blobs fully present', async () => {
+		const physics = await createPhysics(3);
+		const blobs = physics.getBlobs();
+
+		expect(blobs.map((blob) => blob.id)).toEqual([0, 1, 2]);
+		expect(blobs.every((blob) => blob.presence === undefined)).toBe(true);
+	});
+
+	it('grows a new blob in from zero presence', async () => {
+		const physics = await createPhysics(2);
+		const id = physics.addBlob();
+		const added = () => physics.getBlobs().find((blob) => blob.id === id)!;
+
+		expect(id).toBe(2);
+		expect(physics.getBlobCount()).toBe(3);
+		expect(added().lifecycle).toBe('entering');
+		expect(added().presence).toBe(0);
+
+		stepSeconds(physics, 0.3);
+		expect(added().presence).toBeGreaterThan(0);
+		expect(added().presence).toBeLessThan(1);
+
+		stepSeconds(physics, 1);
+		expect(added().lifecycle).toBeUndefined();
+		expect(added().presence).toBeUndefined();
+	});
+
+	it('spawns away from existing blobs when space is available', async () => {
+		const physics = await createPhysics(1);
+		const [existing] = physics.getBlobs();
+		const id = physics.addBlob();
+		const added = physics.getBlobs().find((blob) => blob.id === id)!;
+
+		const distance = Math.hypot(added.currentX - existing.currentX, added.currentY - existing.currentY);
+		expect(distance).toBeGreaterThanOrEqual(
+			Math.max(existing.personalSpace ?? 50, added.personalSpace ?? 50),
+		);
+		expect(added.territoryX).toBe(added.currentX);
+		expect(added.territoryY).toBe(added.currentY);
+	});
+
+	it('honours an explicit spawn position', async () => {
+		const physics = await createPhysics(1);
+		const id = physics.addBlob({ x: 10, y: 90, animate: false });
+		const added = physics.getBlobs().find((blob) => blob.id === id)!;
+
+		expect(added.currentX).toBe(10);
+		expect(added.currentY).toBe(90);
+		expect(added.presence).toBeUndefined();
+	});
+
+	it('fades a removed blob out before it leaves the array', async () => {
+		const physics = await createPhysics(3);
+
+		expect(physics.removeBlob(1)).toBe(true);
+		expect(physics.removeBlob(1)).toBe(false);
+		expect(physics.removeBlob(99)).toBe(false);
+		expect(physics.getBlobCount()).toBe(2);
+		expect(physics.getBlobs()).toHaveLength(3);
+
+		stepSeconds(physics, 0.3);
+		const fading = physics.getBlobs().find((blob) => blob.id === 1)!;
+		expect(fading.lifecycle).toBe('exiting');
+		expect(fading.presence).toBeLessThan(1);
+
+		stepSeconds(physics, 1);
+		expect(physics.getBlobs().map((blob) => blob.id)).toEqual([0, 2]);
+	});
+
+	it('converges setBlobCount on the target without resetting existing blobs', async () => {
+		const physics = await createPhysics(4);
+		const survivors = physics.getBlobs().slice(0, 2);
+
+		physics.setBlobCount(2);
+		stepSeconds(physics, 1);
+		expect(physics.getBlobs()).toHaveLength(2);
+		expect(physics.getBlobs()[0]).toBe(survivors[0]);
+		expect(physics.getBlobs()[1]).toBe(survivors[1]);
+
+		physics.setBlobCount(5, { animate: false });
+		expect(physics.getBlobCount()).toBe(5);
+		expect(physics.getBlobs()).toHaveLength(5);
+		expect(new Set(physics.getBlobs().map((blob) => blob.id)).size).toBe(5);
+	});
+
+	it('revives fading blobs before spawning new ones', async () => {
+		const physics = await createPhysics(3);
+
+		physics.setBlobCount(1);
+		stepSeconds(physics, 0.2);
+		physics.setBlobCount(3);
+
+		expect(physics.getBlobs().map((blob) => blob.id)).toEqual([0, 1, 2]);
+		expect(physics.getBlobs().every((blob) => blob.lifecycle !== 'exiting')).toBe(true);
+	});
+
+	it('keeps colours keyed to blob ids after a removal', async () => {
+		const physics = await createPhysics(3);
+		const colors = ['red', 'green', 'blue'];
+
+		physics.setPalette(colors);
+		physics.removeBlob(0, { animate: false });
+		const blobs = physics.getBlobs();
+
+		expect(blobs.map((blob) => blob.color)).toEqual(['green', 'blue']);
+	});
+
+	it('only records the target count before init', async () => {
+		const physics = new BlobPhysics(2, {}, { seed: 1 });
+		physics.setBlobCount(4);
+		expect(() => physics.addBlob()).toThrow(/requires init/);
+
+		await physics.init();
+		expect(physics.getBlobs()).toHaveLength(4);
+	});
+
+	it('round-trips lifecycle state and id allocation through snapshots', async () => {
+		const physics = await createPhysics(2);
+		physics.addBlob();
+		physics.removeBlob(0);
+		stepSeconds(physics, 0.2);
+
+		const restored = new BlobPhysics(0, {}, { seed: 21 });
+		restored.importState(physics.exportState());
+
+		expect(restored.getBlobCount()).toBe(2);
+		expect(restored.addBlob({ animate: false })).toBe(3);
+	});
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+	BlobPhysics,
+	DEFAULT_BLOB_PHYSICS_CONFIG,
+	type BlobPhysicsConfig,
+} from '../../src/core/BlobPhysics.js';
+import { DEFAULT_SPRING_CONFIG, type SpringSystem } from '../../src/core/SpringSystem.js';
+import type { SpatialHash } from '../../src/core/SpatialHash.js';
+
+async function createPhysics(config: Partial<BlobPhysicsConfig> = {}): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(4, config, { seed: 17 });
+	await physics.init();
+	return physics;
+}
+
+function internals(physics: BlobPhysics) {
+	return physics as unknown as { springSystem: SpringSystem; spatialHash: SpatialHash };
+}
+
+function run(physics: BlobPhysics, frames: number): void {
+	for (let i = 0; i < frames; i++) {
+		physics.tick(1 / 60, 0);
+	}
+}
+
+describe('BlobPhysics.setConfig', () => {
+	it('retunes coefficients without re-laying out the blobs', async () => {
+		const physics = await createPhysics();
+		run(physics, 30);
+		const before = physics.exportState().blobs;
+
+		physics.setConfig({ bounceDamping: 0.4, viscosity: 0.5 });
+
+		expect(physics.getConfig()).toMatchObject({ bounceDamping: 0.4, viscosity: 0.5 });
+		expect(physics.getConfig().antiClusteringStrength).toBe(
+			DEFAULT_BLOB_PHYSICS_CONFIG.antiClusteringStrength,
+		);
+		expect(physics.exportState().blobs).toEqual(before);
+	});
+
+	it('matches an instance constructed with the same config', async () => {
+		const config = { antiClusteringStrength: 0.3, territoryStrength: 0.2, useGaussianSmoothing: false };
+		const constructed = await createPhysics(config);
+		const retuned = await createPhysics();
+		retuned.setConfig(config);
+
+		run(constructed, 120);
+		run(retuned, 120);
+
+		expect(retuned.exportState()).toEqual(constructed.exportState());
+	});
+
+	it('forwards springConfig to the live SpringSystem, merging partials', async () => {
+		const physics = await createPhysics();
+
+		physics.setConfig({ springConfig: { springConstant: 0.4 } });
+		physics.setConfig({ springConfig: { dampingCoeff: 0.8 } });
+
+		const spring = internals(physics).springSystem.getConfig();
+		expect(spring.springConstant).toBe(0.4);
+		expect(spring.dampingCoeff).toBe(0.8);
+		expect(physics.getConfig().springConfig).toEqual({ springConstant: 0.4, dampingCoeff: 0.8 });
+	});
+
+	it('reverts omitted keys to their defaults with reset', async () => {
+		const physics = await createPhysics({ viscosity: 0.9, springConfig: { springConstant: 0.4 } });
+
+		physics.setConfig({ bounceDamping: 0.5 }, { reset: true });
+
+		expect(physics.getConfig()).toEqual({ ...DEFAULT_BLOB_PHYSICS_CONFIG, bounceDamping: 0.5 });
+		expect(internals(physics).springSystem.getConfig()).toEqual(DEFAULT_SPRING_CONFIG);
+	});
+
+	it('applies toggles from the next step', async () => {
+		const physics = await createPhysics();
+		const rebuild = vi.spyOn(internals(physics).spatialHash, 'rebuild');
+
+		run(physics, 1);
+		expect(rebuild).toHaveBeenCalledTimes(1);
+
+		physics.setConfig({ useSpatialHash: false });
+		run(physics, 3);
+		expect(rebuild).toHaveBeenCalledTimes(1);
+	});
+
+	it('rejects inverted topology bounds without changing anything', async () => {
+		const physics = await createPhysics();
+		const before = physics.getConfig();
+
+		expect(() =>
+			physics.setConfig({ viscosity: 0.1, topology: { minBlobs: 8, maxBlobs: 2 } }),
+		).toThrow(RangeError);
+		expect(physics.getConfig()).toEqual(before);
+	});
+
+	it('returns a copy from getConfig', async () => {
+		const physics = await createPhysics({ springConfig: { springConstant: 0.4 } });
+
+		physics.getConfig().springConfig.springConstant = 1;
+
+		expect(physics.getConfig().springConfig.springConstant).toBe(0.4);
+	});
+
+	it('resamples every outline when controlPoints changes', async () => {
+		const physics = await createPhysics();
+		run(physics, 30);
+		const before = physics.getBlobs().map((blob) => blob.currentX);
+
+		physics.setConfig({ controlPoints: 5 });
+
+		for (const blob of physics.getBlobs()) {
+			expect(blob.controlPoints).toHaveLength(5);
+			expect(blob.controlVelocities).toHaveLength(5);
+			for (const point of blob.controlPoints!) expect(Number.isFinite(point.radius)).toBe(true);
+		}
+		expect(physics.getBlobs().map((blob) => blob.currentX)).toEqual(before);
+
+		run(physics, 30);
+		physics.setConfig({}, { reset: true });
+		expect(physics.getBlobs()[0].controlPoints).toHaveLength(8);
+		expect(physics.getBlobs().every((blob) => blob.controlPoints!.every((p) => p.radius > 0))).toBe(
+			true,
+		);
+	});
+
+	it('builds new blobs with the configured controlPoints', async () => {
+		const physics = await createPhysics({ controlPoints: 12 });
+
+		expect(physics.getBlobs().every((blob) => blob.controlPoints?.length === 12)).toBe(true);
+	});
+
+	it('rejects controlPoints outside 3..64', () => {
+		expect(() => new BlobPhysics(2, { controlPoints: 2 })).toThrow(RangeError);
+		expect(() => new BlobPhysics(2, { controlPoints: 6.5 })).toThrow(RangeError);
+		expect(() => new BlobPhysics(2, { controlPoints: 65 })).toThrow(RangeError);
+	});
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	BlobPhysics,
+	type BlobPhysicsConfig,
+	type BlobPhysicsEvent,
+} from '../../src/core/BlobPhysics.js';
+
+async function createPhysics(config: Partial<BlobPhysicsConfig> = {}): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(3, config, { seed: 4 });
+	await physics.init();
+	return physics;
+}
+
+function record(physics: BlobPhysics): BlobPhysicsEvent[] {
+	const events: BlobPhysicsEvent[] = [];
+	physics.on('collision', (event) => events.push(event));
+	physics.on('bounce', (event) => events.push(event));
+	physics.on('settle', (event) => events.push(event));
+	physics.on('wake', (event) => events.push(event));
+	return events;
+}
+
+function pinPair(physics: BlobPhysics, distance: number): void {
+	const [first, second] = physics.getBlobs();
+	second.currentX = first.currentX + distance;
+	second.currentY = first.currentY;
+}
+
+describe('BlobPhysics events', () => {
+	for (const useSpatialHash of [true, false]) {
+		it(`fires one collision per contact (useSpatialHash: ${useSpatialHash})`, async () => {
+			const physics = await createPhysics({ useSpatialHash });
+			const collisions: BlobPhysicsEvent[] = [];
+			physics.on('collision', (event) => collisions.push(event));
+
+			for (let i = 0; i < 10; i++) {
+				pinPair(physics, 10);
+				physics.tick(1 / 60, 0);
+			}
+			expect(collisions).toHaveLength(1);
+
+			const [event] = collisions;
+			expect(event.type).toBe('collision');
+			expect(event.data).toMatchObject({ blobA: 0, blobB: 1 });
+			expect(event.data.depth).toBeGreaterThan(0);
+
+			pinPair(physics, 200);
+			physics.tick(1 / 60, 0);
+			pinPair(physics, 10);
+			physics.tick(1 / 60, 0);
+			expect(collisions).toHaveLength(2);
+		});
+	}
+
+	it('reports the contact midpoint and stamps events with simulation time', async () => {
+		const physics = await createPhysics();
+		const collisions: BlobPhysicsEvent[] = [];
+		physics.on('collision', (event) => collisions.push(event));
+
+		pinPair(physics, 10);
+		const [first] = physics.getBlobs();
+		const expectedX = first.currentX + 5;
+		const expectedY = first.currentY;
+		physics.tick(1 / 60, 0);
+
+		const { data, timestamp } = collisions[0];
+		expect(data).toMatchObject({ x: expectedX, y: expectedY });
+		expect(timestamp).toBe(physics.exportState().simulationClock);
+	});
+
+	it('fires bounce with the wall and impact speed', async () => {
+		const physics = await createPhysics();
+		const events = record(physics);
+		const [blob] = physics.getBlobs();
+		blob.currentX = -100;
+		blob.velocityX = -0.5;
+
+		physics.tick(1 / 60, 0);
+
+		const bounce = events.find((event) => event.type === 'bounce');
+		expect(bounce?.data).toMatchObject({ blobId: 0, wall: 'left' });
+		// Drift forces land before the wall pass, so the impact speed is only
+		// approximately the velocity we set.
+		expect((bounce!.data as { speed: number }).speed).toBeCloseTo(0.5, 1);
+	});
+
+	it('wakes a flung blob and settles it once it calms down', async () => {
+		const physics = await createPhysics();
+		const events = record(physics);
+		physics.getBlobs()[2].velocityX = 1;
+
+		physics.tick(1 / 60, 0);
+		expect(events.filter((event) => event.type === 'wake').map((event) => event.data)).toEqual([
+			expect.objectContaining({ blobId: 2 }),
+		]);
+
+		for (let i = 0; i < 480; i++) {
+			physics.tick(1 / 60, 0);
+		}
+		const settle = events.find((event) => event.type === 'settle');
+		expect(settle?.data).toMatchObject({ blobId: 2 });
+		expect(settle!.timestamp).toBeGreaterThan(events.find((event) => event.type === 'wake')!.timestamp);
+	});
+
+	it('stays quiet through ambient drift', async () => {
+		const physics = new BlobPhysics(5, {}, { seed: 9 });
+		await physics.init();
+		const events = record(physics);
+
+		for (let i = 0; i < 600; i++) {
+			physics.tick(1 / 60, 0);
+		}
+
+		expect(events.filter((event) => event.type === 'wake' || event.type === 'settle')).toEqual([]);
+	});
+
+	it('stops delivering after off() or the returned unsubscribe', async () => {
+		const physics = await createPhysics();
+		let viaOff = 0;
+		let viaUnsubscribe = 0;
+		const handler = () => viaOff++;
+		physics.on('bounce', handler);
+		const unsubscribe = physics.on('bounce', () => {
+			viaUnsubscribe++;
+			unsubscribe();
+		});
+		physics.off('bounce', handler);
+
+		for (let i = 0; i < 3; i++) {
+			physics.getBlobs()[0].currentX = -100;
+			physics.tick(1 / 60, 0);
+		}
+
+		expect(viaOff).toBe(0);
+		expect(viaUnsubscribe).toBe(1);
+	});
+
+	it('does not perturb the simulation', async () => {
+		const quiet = new BlobPhysics(5, {}, { seed: 13 });
+		const observed = new BlobPhysics(5, {}, { seed: 13 });
+		await quiet.init();
+		await observed.init();
+		record(observed);
+
+		for (let i = 0; i < 240; i++) {
+			quiet.tick(1 / 60, 0);
+			observed.tick(1 / 60, 0);
+		}
+
+		expect(observed.exportState()).toEqual(quiet.exportState());
+	});
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	BLOB_PHYSICS_SNAPSHOT_VERSION,
+	BlobPhysics,
+	type BlobPhysicsSnapshot,
+} from '../../src/core/BlobPhysics.js';
+
+async function createWarmPhysics(seed = 11): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(4, {}, { seed });
+	await physics.init();
+	physics.updateMousePosition(30, 70);
+	physics.setGravity({ x: 0.4, y: 0.2 });
+	physics.setTilt({ x: 0.4, y: 0.2, z: 0.9 });
+	physics.setScrollStickiness(0.05);
+	for (let i = 0; i < 90; i++) {
+		physics.tick(1 / 144, 0);
+	}
+	return physics;
+}
+
+describe('BlobPhysics snapshots', () => {
+	it('exports a versioned, JSON-safe snapshot', async () => {
+		const physics = await createWarmPhysics();
+		const snapshot = physics.exportState();
+
+		expect(snapshot.version).toBe(BLOB_PHYSICS_SNAPSHOT_VERSION);
+		expect(snapshot.blobs).toHaveLength(4);
+		expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+	});
+
+	it('does not alias live blob state', async () => {
+		const physics = await createWarmPhysics();
+		const snapshot = physics.exportState();
+		const before = snapshot.blobs[0].currentX;
+
+		physics.tick(1 / 60, 0);
+		snapshot.blobs[1].controlPoints![0].radius = -1;
+
+		expect(snapshot.blobs[0].currentX).toBe(before);
+		expect(physics.getBlobs()[1].controlPoints![0].radius).not.toBe(-1);
+	});
+
+	it('restores blobs, accumulator, clock and inputs into a fresh instance', async () => {
+		const source = await createWarmPhysics();
+		const snapshot = JSON.parse(JSON.stringify(source.exportState())) as BlobPhysicsSnapshot;
+
+		const restored = new BlobPhysics(12, {}, { seed: 11 });
+		restored.importState(snapshot);
+
+		expect(restored.isReady()).toBe(true);
+		expect(restored.exportState()).toEqual(snapshot);
+
+		// init() after a restore must not re-lay the blobs out on the grid.
+		await restored.init();
+		expect(restored.getBlobs()).toEqual(snapshot.blobs);
+	});
+
+	it('continues the same trajectory as the source after a restore', async () => {
+		const source = await createWarmPhysics(3);
+		const snapshot = JSON.parse(JSON.stringify(source.exportState())) as BlobPhysicsSnapshot;
+		expect(snapshot.randomState).toEqual(expect.any(Number));
+
+		const restored = new BlobPhysics(0, {}, { seed: 3 });
+		restored.importState(snapshot);
+
+		for (let i = 0; i < 60; i++) {
+			source.tick(1 / 60, 0);
+			restored.tick(1 / 60, 0);
+		}
+
+		expect(restored.exportState()).toEqual(source.exportState());
+	});
+
+	it('leaves unseeded RNG sources out of the snapshot', async () => {
+		const physics = new BlobPhysics(2, {}, { random: () => 0.5, now: () => 0 });
+		await physics.init();
+
+		expect(physics.exportState()).not.toHaveProperty('randomState');
+	});
+
+	it('rejects snapshots from an incompatible version with a clear error', async () => {
+		const physics = await createWarmPhysics();
+		const snapshot = { ...physics.exportState(), version: 99 } as unknown as BlobPhysicsSnapshot;
+		const target = new BlobPhysics(2, {}, { seed: 1 });
+		await target.init();
+		const before = target.exportState();
+
+		expect(() => target.importState(snapshot)).toThrow(/unsupported snapshot version 99/);
+		expect(target.exportState()).toEqual(before);
+	});
+
+	it('rejects snapshots from before the world was stored as a version mismatch', async () => {
+		const physics = await createWarmPhysics();
+		const { world: _world, ...rest } = physics.exportState();
+		const snapshot = { ...rest, version: 1 } as unknown as BlobPhysicsSnapshot;
+		const target = new BlobPhysics(2, {}, { seed: 1 });
+
+		expect(() => target.importState(snapshot)).toThrow(/unsupported snapshot version 1 \(expected/);
+	});
+
+	it('rejects snapshots from before blob ids were stored as a version mismatch', async () => {
+		const physics = await createWarmPhysics();
+		const { nextBlobId: _nextBlobId, ...rest } = physics.exportState();
+		const snapshot = { ...rest, version: 2 } as unknown as BlobPhysicsSnapshot;
+		const target = new BlobPhysics(2, {}, { seed: 1 });
+
+		expect(() => target.importState(snapshot)).toThrow(/unsupported snapshot version 2 \(expected/);
+	});
+
+	it('rejects malformed snapshots without touching current state', async () => {
+		const physics = await createWarmPhysics();
+		const snapshot = physics.exportState();
+		const target = new BlobPhysics(2, {}, { seed: 1 });
+
+		expect(() => target.importState(null as unknown as BlobPhysicsSnapshot)).toThrow(TypeError);
+		expect(() =>
+			target.importState({ ...snapshot, accumulatedTime: Number.NaN }),
+		).toThrow(/malformed/);
+		expect(() => target.importState({ ...snapshot, randomState: -1 })).toThrow(/malformed/);
+		expect(() =>
+			target.importState({
+				...snapshot,
+				blobs: [{ ...snapshot.blobs[0], currentX: 'left' as unknown as number }],
+			}),
+		).toThrow(/malformed/);
+		expect(target.isReady()).toBe(false);
+	});
+});
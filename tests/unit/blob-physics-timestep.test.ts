@@ -147,3 +147,91 @@ describe('BlobPhysics fixed-timestep accumulator (TIN-853)', () => {
 		expect(calls).toBe(60);
 	});
 });
+
+describe('BlobPhysics render interpolation', () => {
+	async function createPhysics(): Promise<BlobPhysics> {
+		const physics = new BlobPhysics(3, {}, { seed: 7 });
+		await physics.init();
+		for (let i = 0; i < 30; i++) physics.tick(1 / 60, i / 60);
+		return physics;
+	}
+
+	it('blends the last two steps by the banked fraction of a step', async () => {
+		const physics = await createPhysics();
+		const before = physics.getBlobs().map((blob) => ({
+			x: blob.currentX,
+			radius: blob.controlPoints![2].radius,
+		}));
+
+		physics.tick(1 / 60, 0);
+		const after = physics.getBlobs();
+		expect(physics.getInterpolationAlpha()).toBeCloseTo(0, 9);
+		physics.getInterpolatedBlobs().forEach((blob, i) => {
+			expect(blob.currentX).toBeCloseTo(before[i].x, 9);
+		});
+
+		physics.tick(1 / 120, 0);
+		expect(physics.getInterpolationAlpha()).toBeCloseTo(0.5, 9);
+		physics.getInterpolatedBlobs().forEach((blob, i) => {
+			expect(blob.currentX).toBeCloseTo((before[i].x + after[i].currentX) / 2, 9);
+			expect(blob.controlPoints![2].radius).toBeCloseTo(
+				(before[i].radius + after[i].controlPoints![2].radius) / 2,
+				9,
+			);
+		});
+	});
+
+	it('moves on every 120 Hz frame while the stepped state repeats', async () => {
+		const physics = await createPhysics();
+		physics.tick(1 / 120, 0);
+		const stepped = physics.getBlobs()[0].currentX;
+		const first = physics.getInterpolatedBlobs()[0].currentX;
+
+		physics.tick(1 / 120 - 1e-6, 0);
+
+		expect(physics.getBlobs()[0].currentX).toBe(stepped);
+		expect(physics.getInterpolatedBlobs()[0].currentX).not.toBe(first);
+	});
+
+	it('leaves the simulation untouched', async () => {
+		const plain = await createPhysics();
+		const rendered = await createPhysics();
+
+		for (let i = 0; i < 40; i++) {
+			plain.tick(1 / 144, 0);
+			rendered.tick(1 / 144, 0);
+			const copy = rendered.getInterpolatedBlobs()[0];
+			copy.currentX = 1000;
+			copy.controlPoints![0].radius = 1000;
+		}
+
+		expect(rendered.exportState()).toEqual(plain.exportState());
+	});
+
+	it('refreshes the same render copies every frame', async () => {
+		const physics = await createPhysics();
+		const first = physics.getInterpolatedBlobs();
+		const firstX = first[0].currentX;
+
+		physics.tick(1 / 120, 0);
+		const second = physics.getInterpolatedBlobs();
+
+		expect(second).not.toBe(first);
+		expect(second[0]).toBe(first[0]);
+		expect(second[0].controlPoints).toBe(first[0].controlPoints);
+		expect(second[0].currentX).not.toBe(firstX);
+		expect(second[0]).not.toBe(physics.getBlobs()[0]);
+	});
+
+	it('drops fields from a render copy once the blob loses them', async () => {
+		const physics = await createPhysics();
+		physics.setBlobCount(4);
+		physics.tick(1 / 60, 0);
+		expect(physics.getInterpolatedBlobs()[3].presence).toBeLessThan(1);
+
+		for (let i = 0; i < 600; i++) physics.tick(1 / 60, 0);
+
+		expect(physics.getBlobs()[3]).not.toHaveProperty('presence');
+		expect(physics.getInterpolatedBlobs()[3]).not.toHaveProperty('presence');
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics, type BlobPhysicsConfig } from '../../src/core/BlobPhysics.js';
+import type { ConvexBlob } from '../../src/core/types.js';
+
+async function createPhysics(config: Partial<BlobPhysicsConfig> = {}): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(3, config, { seed: 11 });
+	await physics.init();
+	return physics;
+}
+
+function run(physics: BlobPhysics, frames: number): void {
+	for (let i = 0; i < frames; i++) {
+		physics.tick(1 / 60, 0);
+	}
+}
+
+function speed(blob: ConvexBlob): number {
+	return Math.hypot(blob.velocityX, blob.velocityY);
+}
+
+// Centers blob 0 with the given velocity, well clear of the walls.
+function launch(physics: BlobPhysics, velocityX: number, velocityY = 0): ConvexBlob {
+	const [blob] = physics.getBlobs();
+	blob.currentX = 50;
+	blob.currentY = 50;
+	blob.velocityX = velocityX;
+	blob.velocityY = velocityY;
+	return blob;
+}
+
+describe('BlobPhysics tuning knobs', () => {
+	it('matches the historical defaults when the knobs are spelled out', async () => {
+		const implicit = await createPhysics();
+		const explicit = await createPhysics({ viscosity: 0.3, deformationSpeed: 0.5, gravity: 0 });
+
+		run(implicit, 240);
+		run(explicit, 240);
+
+		expect(explicit.exportState()).toEqual(implicit.exportState());
+	});
+
+	it('damps velocity in proportion to viscosity', async () => {
+		const retained: number[] = [];
+		for (const viscosity of [0, 0.3, 0.8]) {
+			const physics = await createPhysics({ viscosity });
+			const blob = launch(physics, 1);
+			run(physics, 30);
+			retained.push(speed(blob));
+		}
+
+		expect(retained[0]).toBeCloseTo(1, 1);
+		expect(retained[1]).toBeCloseTo(0.992 ** 30, 1);
+		expect(retained[2]).toBeCloseTo(0.992 ** (30 * 0.8 / 0.3), 1);
+	});
+
+	it('caps speed at maxVelocity', async () => {
+		const physics = await createPhysics({ maxVelocity: 0.4 });
+		const blob = launch(physics, 3, -3);
+
+		run(physics, 1);
+
+		expect(speed(blob)).toBeCloseTo(0.4, 10);
+		expect(blob.velocityX).toBeGreaterThan(0);
+		expect(blob.velocityY).toBeLessThan(0);
+	});
+
+	it('pulls blobs toward maxY with constant gravity', async () => {
+		const still = await createPhysics();
+		const falling = await createPhysics({ gravity: 120 });
+		const stillBlob = launch(still, 0);
+		const fallingBlob = launch(falling, 0);
+
+		run(still, 20);
+		run(falling, 20);
+
+		// 120 units/s² over 1/3 s is ~6.7 units before drag.
+		expect(fallingBlob.currentY - stillBlob.currentY).toBeGreaterThan(5);
+		expect(fallingBlob.velocityY).toBeGreaterThan(stillBlob.velocityY);
+	});
+
+	it('speeds up spring deformation with deformationSpeed', async () => {
+		const displacement = async (deformationSpeed: number) => {
+			const physics = await createPhysics({ deformationSpeed });
+			const blob = launch(physics, 0.8);
+			run(physics, 10);
+			return blob.controlPoints!.reduce(
+				(sum, point) => sum + Math.abs(point.radius - point.baseRadius),
+				0,
+			);
+		};
+
+		expect(await displacement(2)).toBeGreaterThan(await displacement(0.5));
+	});
+
+	it('rejects out-of-range knobs', () => {
+		expect(() => new BlobPhysics(3, { viscosity: -0.1 })).toThrow(RangeError);
+		expect(() => new BlobPhysics(3, { maxVelocity: 0 })).toThrow(RangeError);
+		expect(() => new BlobPhysics(3, { gravity: Number.NaN })).toThrow(RangeError);
+	});
+});
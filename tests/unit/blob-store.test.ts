@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+import { BlobStore } from '../../src/core/BlobStore.js';
+import { GaussianKernel } from '../../src/core/GaussianKernel.js';
+import { SpatialHash } from '../../src/core/SpatialHash.js';
+import { SpringSystem, createControlPointVelocities } from '../../src/core/SpringSystem.js';
+import { createSeededRandom } from '../../src/core/random.js';
+import type { ControlPoint, ConvexBlob } from '../../src/core/types.js';
+
+function makeBlob(x: number, y: number, points = 4): ConvexBlob {
+	const controlPoints: ControlPoint[] = Array.from({ length: points }, (_, i) => ({
+		angle: (i / points) * Math.PI * 2,
+		radius: 10 + i,
+		baseRadius: 10,
+	}));
+	return {
+		gooeyness: 0.5,
+		currentX: x,
+		currentY: y,
+		velocityX: 0.1,
+		velocityY: -0.2,
+		size: 20,
+		color: 'red',
+		elasticity: 0.5,
+		viscosity: 0.3,
+		phase: 0,
+		speed: 1,
+		controlPoints,
+		controlVelocities: createControlPointVelocities(points),
+	} as ConvexBlob;
+}
+
+async function createPhysics(count: number): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(count, {}, { seed: 4 });
+	await physics.init();
+	return physics;
+}
+
+describe('BlobStore', () => {
+	it('backs view fields with its arrays', () => {
+		const store = new BlobStore();
+		const [first, second] = store.bind([makeBlob(1, 2), makeBlob(3, 4, 6)]);
+
+		expect(store.pointStride).toBe(6);
+		expect(store.slotOf(second)).toBe(1);
+		expect(store.positionX[1]).toBe(3);
+
+		second.currentY = 9;
+		second.controlPoints![5].radius = 42;
+		second.controlVelocities![2].angularVelocity = 0.5;
+		expect(store.positionY[1]).toBe(9);
+		expect(store.radius[1 * store.pointStride + 5]).toBe(42);
+		expect(store.angularVelocity[1 * store.pointStride + 2]).toBe(0.5);
+
+		store.velocityX[0] = 7;
+		store.angle[1] = 3;
+		expect(first.velocityX).toBe(7);
+		expect(first.controlPoints![1].angle).toBe(3);
+		expect(store.slotOf(makeBlob(0, 0))).toBe(-1);
+	});
+
+	it('keeps view identity and values across rebinds', () => {
+		const store = new BlobStore();
+		const [a, b, c] = store.bind([makeBlob(1, 1), makeBlob(2, 2), makeBlob(3, 3)]);
+		a.controlPoints![0].radius = 11.5;
+
+		const rebound = store.bind([a, c, makeBlob(4, 4, 8)]);
+
+		expect(rebound[0]).toBe(a);
+		expect(rebound[1]).toBe(c);
+		expect(store.slotOf(c)).toBe(1);
+		expect(store.slotOf(b)).toBe(-1);
+		// A dropped view keeps its values and no longer writes into the store.
+		b.currentX = 99;
+		expect(b.currentX).toBe(99);
+		expect(Array.from(store.positionX)).toEqual([1, 3, 4]);
+		expect(c.currentX).toBe(3);
+		expect(a.controlPoints![0].radius).toBe(11.5);
+		expect(store.pointStride).toBe(8);
+	});
+
+	it('keeps the previous state of surviving views across rebinds', () => {
+		const store = new BlobStore();
+		const [a, b] = store.bind([makeBlob(1, 1), makeBlob(2, 2)]);
+		store.savePrevious();
+		a.currentX = 5;
+		a.controlPoints![1].radius = 30;
+
+		store.bind([makeBlob(9, 9, 8), a]);
+
+		expect(Array.from(store.previousX)).toEqual([9, 1]);
+		expect(store.previousRadius[1 * store.pointStride + 1]).toBe(11);
+		expect(store.slotOf(b)).toBe(-1);
+	});
+
+	it('copies replaced outlines in and grows the stride when needed', () => {
+		const store = new BlobStore();
+		const [blob, other] = store.bind([makeBlob(0, 0), makeBlob(5, 5)]);
+		const outline = makeBlob(0, 0, 7);
+
+		blob.controlPoints = outline.controlPoints;
+		blob.controlVelocities = outline.controlVelocities;
+
+		expect(store.pointStride).toBe(7);
+		expect(store.pointCount[0]).toBe(7);
+		expect(blob.controlPoints![6].radius).toBe(16);
+		expect(blob.controlPoints![6]).not.toBe(outline.controlPoints![6]);
+		expect(other.currentX).toBe(5);
+		expect(other.controlPoints![3].radius).toBe(13);
+	});
+
+	it('looks like a plain blob to copies and serialisers', () => {
+		const store = new BlobStore();
+		const source = makeBlob(1, 2);
+		const [view] = store.bind([structuredClone(source)]);
+
+		expect(structuredClone(view)).toEqual(source);
+		expect({ ...view }.currentX).toBe(1);
+		expect(JSON.parse(JSON.stringify(view))).toEqual(JSON.parse(JSON.stringify(source)));
+		expect(Object.keys(view).sort()).toEqual(Object.keys(source).sort());
+	});
+});
+
+describe('SpatialHash index queries', () => {
+	it('match a brute-force scan, including negative cells', () => {
+		const random = createSeededRandom(9);
+		const blobs = Array.from({ length: 120 }, () =>
+			makeBlob(random() * 400 - 200, random() * 400 - 200),
+		);
+		const hash = new SpatialHash(60);
+		hash.rebuild(blobs);
+		const out = new Int32Array(blobs.length);
+
+		for (let i = 0; i < blobs.length; i += 7) {
+			const { currentX: x, currentY: y } = blobs[i];
+			const found = Array.from(out.subarray(0, hash.queryIndices(x, y, 75, i, out)));
+			const expected = blobs.flatMap((blob, j) =>
+				j !== i && (blob.currentX - x) ** 2 + (blob.currentY - y) ** 2 < 75 * 75 ? [j] : [],
+			);
+			expect(found.sort((p, q) => p - q)).toEqual(expected);
+		}
+	});
+
+	it('returns every close pair once', () => {
+		const random = createSeededRandom(3);
+		const blobs = Array.from({ length: 80 }, () => makeBlob(random() * 300 - 150, random() * 300));
+		const hash = new SpatialHash(50);
+		hash.rebuild(blobs);
+
+		const pairs = hash
+			.getAllPairs(50)
+			.map(([a, b]) => [blobs.indexOf(a), blobs.indexOf(b)].sort((p, q) => p - q).join('-'));
+		const expected: string[] = [];
+		for (let i = 0; i < blobs.length; i++) {
+			for (let j = i + 1; j < blobs.length; j++) {
+				const dx = blobs[j].currentX - blobs[i].currentX;
+				const dy = blobs[j].currentY - blobs[i].currentY;
+				if (dx * dx + dy * dy < 50 * 50) expected.push(`${i}-${j}`);
+			}
+		}
+
+		expect(new Set(pairs).size).toBe(pairs.length);
+		expect(pairs.sort()).toEqual(expected.sort());
+	});
+});
+
+describe('structure-of-arrays kernels', () => {
+	it('integrate springs exactly like the object path', () => {
+		const springs = new SpringSystem();
+		const store = new BlobStore();
+		const plain = makeBlob(0, 0, 8);
+		const [view] = store.bind([makeBlob(0, 0, 2), structuredClone(plain)]).slice(1);
+		const forces = [0.3, -0.2, 0, 0.1, 0.5, -0.4, 0.2, 0];
+		const offset = store.slotOf(view) * store.pointStride;
+
+		for (let step = 0; step < 20; step++) {
+			springs.updateAllControlPoints(plain.controlPoints!, plain.controlVelocities!, forces, 1 / 60);
+			springs.updateRadii(store.radius, store.baseRadius, store.radialVelocity, forces, offset, 8, 1 / 60);
+		}
+
+		expect(view.controlPoints).toEqual(plain.controlPoints);
+		expect(view.controlVelocities).toEqual(plain.controlVelocities);
+	});
+
+	it('smooth radii exactly like the object path', () => {
+		const kernel = new GaussianKernel();
+		const radii = new Float64Array([0, 0, 12, 9, 14, 11, 10, 13]);
+		const points = Array.from(radii.subarray(2), (radius) => ({ angle: 0, radius, baseRadius: 10 }));
+
+		kernel.convolve(points);
+		kernel.convolveRange(radii, 2, 6);
+
+		expect(Array.from(radii.subarray(2))).toEqual(points.map((point) => point.radius));
+		expect(radii[0]).toBe(0);
+	});
+});
+
+describe('BlobPhysics on the store', () => {
+	it('hands out stable views that the simulation writes through', async () => {
+		const physics = await createPhysics(6);
+		const blobs = physics.getBlobs();
+		const before = blobs.map((blob) => blob.currentX);
+
+		for (let i = 0; i < 30; i++) physics.tick(1 / 60, 0);
+
+		const after = physics.getBlobs();
+		after.forEach((blob, i) => expect(blob).toBe(blobs[i]));
+		expect(after.some((blob, i) => blob.currentX !== before[i])).toBe(true);
+	});
+
+	it('keeps surviving views through add and remove', async () => {
+		const physics = await createPhysics(4);
+		const [first, second] = physics.getBlobs();
+
+		physics.addBlob();
+		physics.removeBlob(second.id!);
+		for (let i = 0; i < 120; i++) physics.tick(1 / 60, 0);
+
+		const blobs = physics.getBlobs();
+		expect(blobs).toContain(first);
+		expect(blobs).not.toContain(second);
+		expect(blobs).toHaveLength(4);
+		expect(blobs.every((blob) => Number.isFinite(blob.currentX))).toBe(true);
+	});
+
+	it('exports plain snapshots and restores them into views', async () => {
+		const physics = await createPhysics(10);
+		for (let i = 0; i < 40; i++) physics.tick(1 / 60, 0);
+		const snapshot = physics.exportState();
+		const copy = new BlobPhysics(10, {}, { seed: 4 });
+		copy.importState(JSON.parse(JSON.stringify(snapshot)));
+
+		expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+		expect(copy.exportState()).toEqual(snapshot);
+		expect(copy.getBlobs()[3].controlPoints).toEqual(physics.getBlobs()[3].controlPoints);
+	});
+
+	it('steps hundreds of blobs with finite state', async () => {
+		const physics = await createPhysics(200);
+		for (let i = 0; i < 20; i++) physics.tick(1 / 60, 0);
+
+		const blobs = physics.getBlobs();
+		expect(blobs).toHaveLength(200);
+		expect(
+			blobs.every(
+				(blob) =>
+					Number.isFinite(blob.currentX) &&
+					Number.isFinite(blob.currentY) &&
+					blob.controlPoints!.every((point) => Number.isFinite(point.radius)),
+			),
+		).toBe(true);
+	});
+});
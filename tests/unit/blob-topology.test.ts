@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics, type BlobTopologyConfig } from '../../src/core/BlobPhysics.js';
+import { computePolygonArea } from '../../src/core/SpringSystem.js';
+import type { ConvexBlob } from '../../src/core/types.js';
+
+async function createPhysics(
+	count: number,
+	topology: Partial<BlobTopologyConfig> = { enabled: true },
+): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(count, { topology }, { seed: 8 });
+	await physics.init();
+	return physics;
+}
+
+function area(blob: ConvexBlob): number {
+	return computePolygonArea(blob.controlPoints!);
+}
+
+// Pins blob 1 on top of blob 0 so anti-clustering cannot pull them apart,
+// stepping until the count changes or `seconds` of simulation pass.
+function holdOverlapped(physics: BlobPhysics, seconds: number): void {
+	const startCount = physics.getBlobCount();
+	for (let i = 0; i < seconds * 60 && physics.getBlobCount() === startCount; i++) {
+		const [first, second] = physics.getBlobs();
+		second.currentX = first.currentX + 2;
+		second.currentY = first.currentY;
+		physics.tick(1 / 60, 0);
+	}
+}
+
+function fling(blob: ConvexBlob, speed: number): void {
+	blob.velocityX = speed;
+	blob.velocityY = 0;
+}
+
+describe('BlobPhysics topology', () => {
+	it('never merges or splits unless enabled', async () => {
+		const physics = await createPhysics(4, {});
+
+		holdOverlapped(physics, 2);
+		fling(physics.getBlobs()[2], 1.5);
+		physics.tick(1 / 60, 0);
+
+		expect(physics.getBlobCount()).toBe(4);
+		expect(physics.getBlobs()).toHaveLength(4);
+	});
+
+	it('coalesces blobs that stay overlapped, conserving area', async () => {
+		const physics = await createPhysics(4);
+		const [first, second] = physics.getBlobs();
+		const combinedArea = area(first) + area(second);
+
+		holdOverlapped(physics, 0.5);
+		expect(physics.getBlobCount()).toBe(4);
+
+		holdOverlapped(physics, 1);
+		expect(physics.getBlobCount()).toBe(3);
+		expect(physics.getBlobs()).toHaveLength(3);
+
+		const survivor = physics.getBlobs().find((blob) => blob === first || blob === second)!;
+		expect(area(survivor) / combinedArea).toBeCloseTo(1, 1);
+	});
+
+	it('blends the merged blob colour from both palette slots', async () => {
+		const physics = await createPhysics(4);
+		holdOverlapped(physics, 2);
+
+		physics.setPalette(['red', 'blue', 'green', 'gold']);
+		const colors = physics.getBlobs().map((blob) => blob.color);
+
+		expect(colors).toHaveLength(3);
+		const merged = colors.find((color) => color.startsWith('color-mix(in srgb'));
+		expect(merged).toMatch(/red/);
+		expect(merged).toMatch(/blue/);
+		expect(colors).toContain('green');
+		expect(colors).toContain('gold');
+	});
+
+	it('stops merging at minBlobs', async () => {
+		const physics = await createPhysics(3, { enabled: true, minBlobs: 3 });
+
+		holdOverlapped(physics, 2);
+
+		expect(physics.getBlobCount()).toBe(3);
+	});
+
+	it('pinches a blob stretched past its split threshold into two halves', async () => {
+		const physics = await createPhysics(3);
+		const parent = physics.getBlobs()[0];
+		const parentArea = area(parent);
+		physics.setPalette(['red', 'blue', 'green']);
+		const colorsBefore = physics.getBlobs().map((blob) => blob.color);
+
+		fling(parent, 1.5);
+		physics.tick(1 / 60, 0);
+
+		expect(physics.getBlobCount()).toBe(4);
+		const half = physics.getBlobs().find((blob) => blob.id === 3)!;
+		expect(area(parent) / (parentArea / 2)).toBeCloseTo(1, 1);
+		expect(area(half) / (parentArea / 2)).toBeCloseTo(1, 1);
+		expect(half.gradientId).toBe('blob-gradient-3');
+		expect(parent.currentX).toBeGreaterThan(half.currentX);
+
+		const colorsAfter = physics.getBlobs().map((blob) => blob.color);
+		expect(colorsAfter).toEqual([...colorsBefore, colorsBefore[0]]);
+	});
+
+	it('leaves ambient drift alone', async () => {
+		const physics = await createPhysics(6);
+
+		for (let i = 0; i < 600; i++) {
+			physics.tick(1 / 60, 0);
+		}
+
+		expect(physics.getBlobCount()).toBe(6);
+	});
+
+	it('stops splitting at maxBlobs and during the cooldown', async () => {
+		const capped = await createPhysics(3, { enabled: true, maxBlobs: 3 });
+		fling(capped.getBlobs()[0], 1.5);
+		capped.tick(1 / 60, 0);
+		expect(capped.getBlobCount()).toBe(3);
+
+		const cooling = await createPhysics(3);
+		const parent = cooling.getBlobs()[0];
+		fling(parent, 1.5);
+		cooling.tick(1 / 60, 0);
+		fling(parent, 1.5);
+		cooling.tick(1 / 60, 0);
+		expect(cooling.getBlobCount()).toBe(4);
+	});
+
+	it('rejects inverted count bounds', () => {
+		expect(
+			() => new BlobPhysics(3, { topology: { enabled: true, minBlobs: 6, maxBlobs: 4 } }),
+		).toThrow(RangeError);
+	});
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+import { TRANS_THEME, type ThemeColor } from '../../src/core/theme-presets.js';
+
+const calm: ThemeColor = {
+	id: 'calm',
+	color: 'grey',
+	attractive: false,
+	scrollAffinity: 0.2,
+	layer: 'background',
+};
+const eager: ThemeColor = {
+	id: 'eager',
+	color: 'gold',
+	attractive: true,
+	scrollAffinity: 0.9,
+	layer: 'foreground',
+};
+
+async function createPhysics(count = 1): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(count, {}, { seed: 8 });
+	await physics.init();
+	return physics;
+}
+
+// Velocity the pointer adds to a lone blob at (50, 50) over one step, with
+// the pointer at (40, 50), when the blob wears `palette`'s first colour.
+async function pointerKick(palette: (string | ThemeColor)[]): Promise<number> {
+	const run = async (pointer: boolean) => {
+		const physics = await createPhysics();
+		physics.setPalette(palette);
+		const [blob] = physics.getBlobs();
+		Object.assign(blob, { currentX: 50, currentY: 50, velocityX: 0, velocityY: 0 });
+		if (pointer) physics.updateMousePosition(40, 50);
+		physics.tick(1 / 60, 0);
+		return physics.getBlobs()[0].velocityX;
+	};
+	return (await run(true)) - (await run(false));
+}
+
+describe('ThemeColor behaviour', () => {
+	it('binds attraction and scroll affinity to each blob from its colour', async () => {
+		const physics = await createPhysics(4);
+		physics.setPalette([calm, eager]);
+		const blobs = physics.getBlobs();
+
+		for (const blob of blobs) {
+			const entry = (blob.id ?? 0) % 2 === 0 ? calm : eager;
+			expect(blob.color).toBe(entry.color);
+			expect(blob.isAttractive).toBe(entry.attractive);
+			expect(blob.scrollAffinity).toBe(entry.scrollAffinity);
+		}
+	});
+
+	it('moves behaviour with the colour when the palette changes', async () => {
+		const physics = await createPhysics(2);
+		physics.setPalette([calm, eager]);
+		physics.setPalette([eager, calm]);
+		const swapped = physics.getBlobs();
+
+		const first = swapped.find((blob) => blob.id === 0)!;
+		expect(first.color).toBe(eager.color);
+		expect(first.isAttractive).toBe(true);
+		expect(first.scrollAffinity).toBe(eager.scrollAffinity);
+	});
+
+	it('lets only attractive colours feel the pointer', async () => {
+		const attracted = await pointerKick([eager]);
+		const ignored = await pointerKick([calm]);
+		const plain = await pointerKick(['gold']);
+
+		expect(attracted).toBeLessThan(0);
+		expect(ignored).toBe(0);
+		expect(plain).toBe(attracted);
+	});
+
+	it('keeps every blob attractive for plain colour strings', async () => {
+		const physics = await createPhysics(6);
+		physics.setPalette([calm]);
+		physics.setPalette(['red', 'blue']);
+
+		expect(physics.getBlobs().every((blob) => blob.isAttractive)).toBe(true);
+	});
+
+	it('blends scroll affinity by weight on merged blobs', async () => {
+		const physics = await createPhysics();
+		const [blob] = physics.getBlobs();
+		blob.colorSources = [
+			{ id: 1, weight: 0.75 },
+			{ id: 0, weight: 0.25 },
+		];
+
+		physics.setPalette([calm, eager]);
+
+		expect(blob.isAttractive).toBe(true);
+		expect(blob.layer).toBe('foreground');
+		expect(blob.scrollAffinity).toBeCloseTo(0.75 * 0.9 + 0.25 * 0.2, 12);
+	});
+
+	it('applies the values designers picked for the presets', async () => {
+		const physics = await createPhysics(TRANS_THEME.colors.length);
+		physics.setPalette(TRANS_THEME.colors);
+		const blobs = physics.getBlobs();
+
+		expect(blobs.map((blob) => [blob.isAttractive, blob.scrollAffinity])).toEqual(
+			TRANS_THEME.colors.map((color) => [color.attractive, color.scrollAffinity]),
+		);
+	});
+
+	it('binds blobs added after the palette was set', async () => {
+		const physics = await createPhysics(1);
+		physics.setPalette([calm, eager]);
+
+		const id = physics.addBlob({ animate: false });
+		const added = physics.getBlobs().find((blob) => blob.id === id)!;
+
+		expect(added.color).toBe(eager.color);
+		expect(added.isAttractive).toBe(true);
+	});
+
+	it('simulates the same whether or not anything reads the blobs', async () => {
+		const read = new BlobPhysics(4, {}, { seed: 8 });
+		const unread = new BlobPhysics(4, {}, { seed: 8 });
+		await Promise.all([read.init(), unread.init()]);
+		read.setPalette([calm, eager]);
+		unread.setPalette([calm, eager]);
+		read.updateMousePosition(30, 40);
+		unread.updateMousePosition(30, 40);
+
+		for (let i = 0; i < 60; i++) {
+			read.tick(1 / 60, 0);
+			read.getBlobs();
+			unread.tick(1 / 60, 0);
+		}
+
+		expect(read.exportState()).toEqual(unread.exportState());
+	});
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+import {
+	DEFAULT_DEPTH_LAYERS,
+	NEUTRAL_PARALLAX_INPUT,
+	getDepthScale,
+	getParallaxOffset,
+	resolveDepthLayers,
+} from '../../src/core/depth-layers.js';
+import { TINYLAND_THEME, type ThemeColor } from '../../src/core/theme-presets.js';
+
+const palette: ThemeColor[] = [
+	{ id: 'back', color: 'blue', attractive: false, scrollAffinity: 0.5, layer: 'background' },
+	{ id: 'front', color: 'red', attractive: true, scrollAffinity: 0.5, layer: 'foreground' },
+];
+
+async function createPhysics(depthLayers = true): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(4, depthLayers ? { depthLayers: {} } : {}, { seed: 2 });
+	await physics.init();
+	return physics;
+}
+
+describe('depth layers', () => {
+	it('resolves overrides over the defaults without sharing arrays', () => {
+		const layers = resolveDepthLayers({ foreground: { speed: 2 } });
+
+		expect(layers.foreground).toEqual({ ...DEFAULT_DEPTH_LAYERS.foreground, speed: 2 });
+		expect(layers.background).toEqual(DEFAULT_DEPTH_LAYERS.background);
+		expect(layers.mid.sizeRange).not.toBe(DEFAULT_DEPTH_LAYERS.mid.sizeRange);
+	});
+
+	it('shifts nearer layers further, against the pointer and tilt', () => {
+		const input = { ...NEUTRAL_PARALLAX_INPUT, pointer: { x: 0.5, y: 0 }, tilt: { x: 0, y: 0.5 } };
+		const back = getParallaxOffset(DEFAULT_DEPTH_LAYERS.background, input);
+		const front = getParallaxOffset(DEFAULT_DEPTH_LAYERS.foreground, input);
+
+		expect(front.x).toBeLessThan(back.x);
+		expect(back.x).toBeLessThan(0);
+		expect(front.y).toBeLessThan(0);
+		expect(front.x / back.x).toBeCloseTo(6 / 1.5, 12);
+
+		const neutral = getParallaxOffset(DEFAULT_DEPTH_LAYERS.foreground, NEUTRAL_PARALLAX_INPUT);
+		expect(Math.hypot(neutral.x, neutral.y)).toBe(0);
+	});
+
+	it('caps pointer plus tilt lean and follows scroll progress', () => {
+		const layer = DEFAULT_DEPTH_LAYERS.foreground;
+		const leaning = getParallaxOffset(layer, {
+			pointer: { x: 1, y: 0 },
+			tilt: { x: 1, y: 0 },
+			scroll: 0,
+		});
+		const scrolled = getParallaxOffset(layer, { ...NEUTRAL_PARALLAX_INPUT, scroll: 1 });
+		const overscrolled = getParallaxOffset(layer, { ...NEUTRAL_PARALLAX_INPUT, scroll: 3 });
+
+		expect(leaning.x).toBeCloseTo(-layer.parallax, 12);
+		expect(scrolled.y).toBeLessThan(-layer.parallax);
+		expect(overscrolled.y).toBe(scrolled.y);
+	});
+
+	it('picks a stable size inside the layer range', () => {
+		const { sizeRange } = DEFAULT_DEPTH_LAYERS.foreground;
+
+		for (const phase of [0, 1, 3, 6.2, -2, 40]) {
+			const scale = getDepthScale(DEFAULT_DEPTH_LAYERS.foreground, phase);
+			expect(scale).toBeGreaterThanOrEqual(sizeRange[0]);
+			expect(scale).toBeLessThanOrEqual(sizeRange[1]);
+		}
+		expect(getDepthScale(DEFAULT_DEPTH_LAYERS.mid, 2)).toBe(1);
+	});
+
+	it('assigns layers from theme colour metadata', async () => {
+		const physics = await createPhysics(false);
+		physics.setPalette(palette);
+		const blobs = physics.getBlobs();
+
+		expect(blobs.map((blob) => blob.color)).toEqual(
+			blobs.map((blob) => palette[(blob.id ?? 0) % 2].color),
+		);
+		expect(blobs.map((blob) => blob.layer)).toEqual(
+			blobs.map((blob) => palette[(blob.id ?? 0) % 2].layer),
+		);
+		// One plane without depthLayers: no size change.
+		expect(blobs.every((blob) => blob.depthScale === undefined)).toBe(true);
+
+		physics.setPalette(['green']);
+		const plain = physics.getBlobs();
+		expect(plain.every((blob) => blob.layer === undefined && blob.color === 'green')).toBe(true);
+	});
+
+	it('scales drawn size and travel per layer', async () => {
+		const physics = await createPhysics();
+		physics.setPalette(palette);
+		const blobs = physics.getBlobs();
+		const back = blobs.find((blob) => blob.layer === 'background')!;
+		const front = blobs.find((blob) => blob.layer === 'foreground')!;
+
+		expect(back.depthScale).toBeLessThan(1);
+		expect(front.depthScale).toBeGreaterThan(1);
+
+		const start = blobs.map((blob) => ({ x: blob.currentX, y: blob.currentY }));
+		for (const blob of blobs) {
+			blob.velocityX = 0.5;
+			blob.velocityY = 0;
+		}
+		physics.tick(1 / 60, 0);
+		const travel = (blob: typeof back) => blob.currentX - start[blobs.indexOf(blob)].x;
+
+		expect(travel(front)).toBeGreaterThan(travel(back) * 1.5);
+	});
+
+	it('tags preset blobs with the layers designers picked', async () => {
+		const physics = await createPhysics(false);
+		physics.setPalette(TINYLAND_THEME.colors);
+		const layers = new Set(physics.getBlobs().map((blob) => blob.layer));
+
+		expect([...layers].sort()).toEqual(['foreground', 'mid', 'background'].sort());
+	});
+
+	it('retunes live and validates settings', async () => {
+		const physics = await createPhysics();
+		physics.setConfig({ depthLayers: { background: { speed: 0.2 } } });
+		expect(physics.getConfig().depthLayers).toEqual({ background: { speed: 0.2 } });
+
+		physics.setPalette(palette);
+		physics.setConfig({}, { reset: true });
+		expect(physics.getConfig().depthLayers).toBeUndefined();
+		expect(physics.getBlobs().every((blob) => blob.depthScale === undefined)).toBe(true);
+
+		expect(() => physics.setConfig({ depthLayers: { mid: { opacity: 2 } } })).toThrow(RangeError);
+		expect(() => physics.setConfig({ depthLayers: { mid: { sizeRange: [1.2, 1] } } })).toThrow(
+			RangeError,
+		);
+	});
+});
@@ -0,0 +1,329 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+import {
+	getZoneDistance,
+	isValidExclusionZone,
+	type ExclusionZone,
+} from '../../src/core/exclusion-zones.js';
+import {
+	DEFAULT_AVOID_SELECTOR,
+	createExclusionZoneTracker,
+	type ExclusionZoneElement,
+	type ExclusionZoneEventTarget,
+} from '../../src/motion/ExclusionZoneTracker.js';
+import { mapClientRectToPhysics, type PointerBounds } from '../../src/motion/PointerMapper.js';
+
+const HEADLINE: ExclusionZone = { shape: 'rect', minX: 20, minY: 40, maxX: 80, maxY: 60 };
+
+function clearance(zone: ExclusionZone, x: number, y: number, size: number): number {
+	return getZoneDistance(zone, x, y).distance - size * 0.8;
+}
+
+describe('exclusion zone geometry', () => {
+	it('measures signed distance and outward normals', () => {
+		expect(getZoneDistance(HEADLINE, 50, 30)).toEqual({ distance: 10, normalX: 0, normalY: -1 });
+		expect(getZoneDistance(HEADLINE, 75, 50)).toEqual({ distance: -5, normalX: 1, normalY: 0 });
+
+		const corner = getZoneDistance(HEADLINE, 83, 64);
+		expect(corner.distance).toBeCloseTo(5, 10);
+		expect(corner.normalX).toBeCloseTo(0.6, 10);
+		expect(corner.normalY).toBeCloseTo(0.8, 10);
+
+		const circle: ExclusionZone = { shape: 'circle', x: 0, y: 0, radius: 10 };
+		expect(getZoneDistance(circle, 0, 20)).toEqual({ distance: 10, normalX: 0, normalY: 1 });
+	});
+
+	it('rounds rect corners by the clamped radius', () => {
+		const rounded: ExclusionZone = { ...HEADLINE, shape: 'roundedRect', radius: 50 };
+		// Clamped to half the 20-unit height, so the corner arc is centred at (30, 50).
+		expect(getZoneDistance(rounded, 20, 40).distance).toBeCloseTo(Math.SQRT2 * 10 - 10, 10);
+		expect(getZoneDistance(rounded, 50, 30).distance).toBeCloseTo(10, 10);
+	});
+
+	it('rejects non-finite or inverted geometry', () => {
+		expect(isValidExclusionZone(HEADLINE)).toBe(true);
+		expect(isValidExclusionZone({ ...HEADLINE, maxX: 10 })).toBe(false);
+		expect(isValidExclusionZone({ shape: 'circle', x: 0, y: Number.NaN, radius: 1 })).toBe(false);
+		expect(isValidExclusionZone({ ...HEADLINE, padding: -1 })).toBe(false);
+	});
+});
+
+describe('BlobPhysics exclusion zones', () => {
+	async function createPhysics(count: number, seed = 5): Promise<BlobPhysics> {
+		const physics = new BlobPhysics(count, {}, { seed });
+		await physics.init();
+		return physics;
+	}
+
+	it('turns a blob heading into a zone before its edge reaches it', async () => {
+		const launch = async (zones: ExclusionZone[]) => {
+			const physics = await createPhysics(1);
+			physics.setExclusionZones(zones);
+			const [blob] = physics.getBlobs();
+			blob.currentX = 50;
+			blob.currentY = 0;
+			blob.velocityX = 0.1;
+			blob.velocityY = 0.5;
+
+			let closest = Infinity;
+			for (let i = 0; i < 120; i++) {
+				physics.tick(1 / 60, 0);
+				closest = Math.min(closest, clearance(HEADLINE, blob.currentX, blob.currentY, blob.size));
+			}
+			return { closest, x: blob.currentX };
+		};
+
+		const free = await launch([]);
+		const avoiding = await launch([HEADLINE]);
+
+		expect(free.closest).toBeLessThan(0);
+		expect(avoiding.closest).toBeGreaterThan(0);
+		// Only the inward component is pushed back; the sideways drift
+		// survives, so the blob slides along the zone instead of stopping.
+		expect(avoiding.x).toBeCloseTo(free.x, 0);
+	});
+
+	it('eases a blob out of a zone registered on top of it', async () => {
+		const physics = await createPhysics(1);
+		const [blob] = physics.getBlobs();
+		blob.currentX = 45;
+		blob.currentY = 50;
+		blob.velocityX = 0;
+		blob.velocityY = 0;
+		physics.setExclusionZones([HEADLINE]);
+
+		let peak = 0;
+		for (let i = 0; i < 240; i++) {
+			physics.tick(1 / 60, 0);
+			peak = Math.max(peak, Math.hypot(blob.velocityX, blob.velocityY));
+		}
+
+		expect(clearance(HEADLINE, blob.currentX, blob.currentY, blob.size)).toBeGreaterThan(0);
+		expect(peak).toBeLessThan(1);
+	});
+
+	it('keeps ambient drift alive and out of the zone', async () => {
+		const physics = await createPhysics(8, 2);
+		physics.setExclusionZones([HEADLINE]);
+
+		let inside = 0;
+		let travelled = 0;
+		for (let i = 0; i < 1800; i++) {
+			physics.tick(1 / 60, 0);
+			for (const blob of physics.getBlobs()) {
+				travelled += Math.hypot(blob.velocityX, blob.velocityY);
+				if (i > 600 && getZoneDistance(HEADLINE, blob.currentX, blob.currentY).distance < 0) inside++;
+			}
+		}
+
+		expect(inside).toBe(0);
+		expect(travelled / (1800 * 8)).toBeGreaterThan(0.02);
+	});
+
+	it('leaves the simulation untouched without zones', async () => {
+		const plain = await createPhysics(5);
+		const cleared = await createPhysics(5);
+		cleared.setExclusionZones([HEADLINE]);
+		cleared.setExclusionZones([]);
+
+		for (let i = 0; i < 240; i++) {
+			plain.tick(1 / 60, 0);
+			cleared.tick(1 / 60, 0);
+		}
+
+		expect(cleared.exportState()).toEqual(plain.exportState());
+	});
+
+	it('rejects invalid zones without replacing the current set', async () => {
+		const physics = await createPhysics(2);
+		physics.setExclusionZones([HEADLINE]);
+
+		expect(() =>
+			physics.setExclusionZones([{ shape: 'circle', x: 0, y: 0, radius: -1 }]),
+		).toThrow(RangeError);
+		expect(physics.getExclusionZones()).toEqual([HEADLINE]);
+	});
+});
+
+describe('mapClientRectToPhysics', () => {
+	it('maps like pointer input without clamping to the container', () => {
+		const bounds: PointerBounds = { left: 100, top: 0, width: 200, height: 100 };
+		const range = { minX: 0, minY: 0, maxX: 100, maxY: 50 };
+
+		expect(mapClientRectToPhysics({ left: 50, top: 25, width: 100, height: 50 }, bounds, range)).toEqual({
+			minX: -25,
+			minY: 12.5,
+			maxX: 25,
+			maxY: 37.5,
+		});
+		expect(mapClientRectToPhysics({ left: 0, top: 0, width: 1, height: 1 }, { ...bounds, width: 0 })).toBeNull();
+	});
+});
+
+describe('createExclusionZoneTracker', () => {
+	function element(rect: PointerBounds, shape = ''): ExclusionZoneElement & { rect: PointerBounds } {
+		return {
+			rect,
+			getBoundingClientRect() {
+				return this.rect;
+			},
+			getAttribute: () => shape,
+		};
+	}
+
+	function harness(elements: ExclusionZoneElement[]) {
+		const listeners = new Map<string, EventListener>();
+		const frames: FrameRequestCallback[] = [];
+		const changes: ExclusionZone[][] = [];
+		const target: ExclusionZoneEventTarget = {
+			addEventListener: (type, listener) => listeners.set(type, listener),
+			removeEventListener: (type) => listeners.delete(type),
+		};
+		const tracker = createExclusionZoneTracker({
+			root: { querySelectorAll: () => elements },
+			target,
+			getBounds: () => ({ left: 0, top: 0, width: 100, height: 100 }),
+			getCornerRadius: () => 10,
+			onChange: (zones) => changes.push(zones),
+			requestFrame: (callback) => frames.push(callback),
+			cancelFrame: () => {},
+		});
+		const runFrames = () => {
+			for (const callback of frames.splice(0)) callback(0);
+		};
+		return { listeners, frames, changes, tracker, runFrames };
+	}
+
+	it('maps marked elements into zones by shape', () => {
+		const { changes } = harness([
+			element({ left: 10, top: 10, width: 20, height: 10 }, 'rect'),
+			element({ left: 50, top: 50, width: 20, height: 30 }, 'circle'),
+			element({ left: 0, top: 80, width: 40, height: 20 }),
+		]);
+
+		expect(changes).toHaveLength(1);
+		expect(changes[0]).toEqual([
+			{ shape: 'rect', minX: 10, minY: 10, maxX: 30, maxY: 20 },
+			{ shape: 'circle', x: 60, y: 65, radius: 10 },
+			{ shape: 'roundedRect', minX: 0, minY: 80, maxX: 40, maxY: 100, radius: 10 },
+		]);
+	});
+
+	it('coalesces scroll into one read per frame and skips unchanged sets', () => {
+		const marked = element({ left: 10, top: 10, width: 20, height: 10 }, 'rect');
+		const { listeners, frames, changes, runFrames } = harness([marked]);
+
+		const scroll = listeners.get('scroll')!;
+		scroll(new Event('scroll'));
+		scroll(new Event('scroll'));
+		expect(frames).toHaveLength(1);
+		runFrames();
+		expect(changes).toHaveLength(1);
+
+		marked.rect = { ...marked.rect, top: 0 };
+		scroll(new Event('scroll'));
+		runFrames();
+		expect(changes).toHaveLength(2);
+		expect(changes[1][0]).toMatchObject({ minY: 0, maxY: 10 });
+	});
+
+	it('removes its listeners and ignores pending frames after dispose', () => {
+		const { listeners, changes, tracker, runFrames } = harness([]);
+
+		tracker.refresh();
+		tracker.dispose();
+		runFrames();
+
+		expect(listeners.size).toBe(0);
+		expect(changes).toHaveLength(1);
+	});
+
+	describe('mutation observer', () => {
+		afterEach(() => {
+			vi.unstubAllGlobals();
+		});
+
+		function observeOptions(selector?: string): MutationObserverInit | undefined {
+			let options: MutationObserverInit | undefined;
+			class FakeNode {
+				querySelectorAll() {
+					return [];
+				}
+			}
+			vi.stubGlobal('Node', FakeNode);
+			vi.stubGlobal(
+				'MutationObserver',
+				class {
+					observe(_target: unknown, init: MutationObserverInit) {
+						options = init;
+					}
+					disconnect() {}
+				},
+			);
+			createExclusionZoneTracker({
+				root: new FakeNode(),
+				selector,
+				getBounds: () => ({ left: 0, top: 0, width: 100, height: 100 }),
+				onChange: () => {},
+				requestFrame: () => 0,
+				cancelFrame: () => {},
+			}).dispose();
+			return options;
+		}
+
+		it('only watches the marker attribute for the default selector', () => {
+			expect(observeOptions()).toMatchObject({ attributeFilter: ['data-tinyvectors-avoid'] });
+			expect(observeOptions(DEFAULT_AVOID_SELECTOR)).toHaveProperty('attributeFilter');
+		});
+
+		it('watches every attribute for a custom selector', () => {
+			const options = observeOptions('.headline');
+
+			expect(options).toMatchObject({ attributes: true, childList: true, subtree: true });
+			expect(options).not.toHaveProperty('attributeFilter');
+		});
+
+		it('ignores mutations inside the component container', () => {
+			let notify: MutationCallback = () => {};
+			const frames: FrameRequestCallback[] = [];
+			const query = vi.fn(() => []);
+			class FakeNode {
+				querySelectorAll = query;
+			}
+			vi.stubGlobal('Node', FakeNode);
+			vi.stubGlobal(
+				'MutationObserver',
+				class {
+					constructor(callback: MutationCallback) {
+						notify = callback;
+					}
+					observe() {}
+					disconnect() {}
+				},
+			);
+			const svg = { id: 'blob-path' } as unknown as Node;
+			const heading = { id: 'headline' } as unknown as Node;
+			const tracker = createExclusionZoneTracker({
+				root: new FakeNode(),
+				selector: '.headline',
+				ignoreWithin: { contains: (node) => node === svg },
+				getBounds: () => ({ left: 0, top: 0, width: 100, height: 100 }),
+				onChange: () => {},
+				requestFrame: (callback) => frames.push(callback),
+				cancelFrame: () => {},
+			});
+			const mutate = (target: Node) =>
+				notify([{ type: 'attributes', target } as MutationRecord], {} as MutationObserver);
+			expect(query).toHaveBeenCalledTimes(1);
+
+			mutate(svg);
+			expect(frames).toHaveLength(0);
+
+			mutate(heading);
+			for (const callback of frames.splice(0)) callback(0);
+			expect(query).toHaveBeenCalledTimes(2);
+			tracker.dispose();
+		});
+	});
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	BlobPhysics,
+	type BlobPhysicsConfig,
+	type FieldContext,
+} from '../../src/core/BlobPhysics.js';
+
+async function createPhysics(config: Partial<BlobPhysicsConfig> = {}): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(3, config, { seed: 14 });
+	await physics.init();
+	return physics;
+}
+
+function run(physics: BlobPhysics, frames: number): void {
+	for (let i = 0; i < frames; i++) {
+		physics.tick(1 / 60, 0);
+	}
+}
+
+// velocityX gained over one step relative to an identical, field-free twin.
+async function oneStepGain(
+	setup: (physics: BlobPhysics) => void,
+	config: Partial<BlobPhysicsConfig> = {},
+): Promise<number> {
+	const baseline = await createPhysics(config);
+	const withField = await createPhysics(config);
+	setup(withField);
+
+	baseline.tick(1 / 60, 0);
+	withField.tick(1 / 60, 0);
+
+	return withField.getBlobs()[0].velocityX - baseline.getBlobs()[0].velocityX;
+}
+
+describe('BlobPhysics force fields', () => {
+	it('applies a custom field to every blob each step', async () => {
+		const baseline = await createPhysics();
+		const windy = await createPhysics();
+		windy.addField('wind', () => ({ x: 0.002, y: 0 }));
+
+		run(baseline, 60);
+		run(windy, 60);
+
+		const windyBlobs = windy.getBlobs();
+		baseline.getBlobs().forEach((blob, i) => {
+			expect(windyBlobs[i].currentX).toBeGreaterThan(blob.currentX + 1);
+		});
+	});
+
+	it('clamps the summed fields so they cannot swamp ambient drift', async () => {
+		const gain = await oneStepGain((physics) => {
+			physics.addField('gale', () => ({ x: 5, y: 0 }));
+			physics.addField('second-gale', () => ({ x: 5, y: 0 }));
+		});
+
+		// The default ceiling, then one step of the default drag.
+		expect(gain).toBeCloseTo(0.003 * 0.992, 10);
+	});
+
+	it('honours per-field and configured clamps', async () => {
+		const perField = await oneStepGain((physics) =>
+			physics.addField('breeze', () => ({ x: 5, y: 0 }), { maxMagnitude: 0.001 }),
+		);
+		const configured = await oneStepGain(
+			(physics) => physics.addField('gale', () => ({ x: 5, y: 0 })),
+			{ maxFieldForce: 0.01 },
+		);
+
+		expect(perField).toBeCloseTo(0.001 * 0.992, 10);
+		expect(configured).toBeCloseTo(0.01 * 0.992, 10);
+	});
+
+	it('passes blob state, simulation time and inputs to fields', async () => {
+		const physics = await createPhysics();
+		physics.updateMousePosition(30, 70);
+		const seen: FieldContext[] = [];
+		physics.addField('probe', (blob, context) => {
+			if (blob.id === 0) seen.push(structuredClone(context));
+			return { x: 0, y: 0 };
+		});
+
+		run(physics, 2);
+
+		expect(seen).toHaveLength(2);
+		expect(seen[1].time).toBe(physics.exportState().simulationClock);
+		expect(seen[1].deltaTime).toBeCloseTo(1 / 60, 12);
+		expect(seen[1].pointer).toMatchObject({ x: 30, y: 70 });
+		expect(seen[1].world).toEqual(physics.exportState().world);
+	});
+
+	it('leaves the simulation untouched after removeField or on non-finite output', async () => {
+		const baseline = await createPhysics();
+		const removed = await createPhysics();
+		removed.addField('wind', () => ({ x: 0.002, y: 0 }));
+		expect(removed.removeField('wind')).toBe(true);
+		const broken = await createPhysics();
+		broken.addField('broken', () => ({ x: Number.NaN, y: 0 }));
+
+		run(baseline, 120);
+		run(removed, 120);
+		run(broken, 120);
+
+		expect(removed.exportState()).toEqual(baseline.exportState());
+		expect(broken.exportState()).toEqual(baseline.exportState());
+	});
+
+	it('rejects negative clamps', async () => {
+		const physics = await createPhysics();
+
+		expect(() => physics.addField('bad', () => ({ x: 0, y: 0 }), { maxMagnitude: -1 })).toThrow(
+			RangeError,
+		);
+		expect(() => new BlobPhysics(3, { maxFieldForce: -1 })).toThrow(RangeError);
+	});
+});
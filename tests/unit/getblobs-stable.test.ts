@@ -6,8 +6,9 @@ describe('BlobPhysics.getBlobs reference stability', () => {
 		const physics = new BlobPhysics(5, {});
 		await physics.init();
 		const colors = ['red', 'green', 'blue', 'yellow', 'purple'];
-		const a = physics.getBlobs(colors);
-		const b = physics.getBlobs(colors);
+		physics.setPalette(colors);
+		const a = physics.getBlobs();
+		const b = physics.getBlobs();
 		expect(a).not.toBe(b);
 		expect(a).toEqual(b);
 	});
@@ -16,18 +17,20 @@ describe('BlobPhysics.getBlobs reference stability', () => {
 		const physics = new BlobPhysics(3, {});
 		await physics.init();
 		const colors = ['red', 'green', 'blue'];
-		const a = physics.getBlobs(colors);
-		const b = physics.getBlobs(colors);
+		physics.setPalette(colors);
+		const a = physics.getBlobs();
+		const b = physics.getBlobs();
 		for (let i = 0; i < a.length; i++) {
 			expect(a[i]).toBe(b[i]);
 		}
 	});
 
-	it('applies themeColors via in-place mutation, cycling when shorter than blob count', async () => {
+	it('applies the palette via in-place mutation, cycling when shorter than blob count', async () => {
 		const physics = new BlobPhysics(5, {});
 		await physics.init();
 		const colors = ['red', 'green'];
-		const blobs = physics.getBlobs(colors);
+		physics.setPalette(colors);
+		const blobs = physics.getBlobs();
 		expect(blobs[0].color).toBe('red');
 		expect(blobs[1].color).toBe('green');
 		expect(blobs[2].color).toBe('red');
@@ -35,15 +38,26 @@ describe('BlobPhysics.getBlobs reference stability', () => {
 		expect(blobs[4].color).toBe('red');
 	});
 
-	it('without themeColors still returns a fresh array of the same blobs', async () => {
+	it('keeps the palette across reads and returns a fresh array of the same blobs', async () => {
 		const physics = new BlobPhysics(2, {});
 		await physics.init();
-		const blobs1 = physics.getBlobs(['#aaa', '#bbb']);
+		physics.setPalette(['#aaa', '#bbb']);
+		const blobs1 = physics.getBlobs();
 		expect(blobs1[0].color).toBe('#aaa');
-		// Calling without colors does not reset; previous theming remains.
+		// Reading does not reset; previous theming remains.
 		const blobs2 = physics.getBlobs();
 		expect(blobs2).not.toBe(blobs1);
 		expect(blobs2[0]).toBe(blobs1[0]);
 		expect(blobs2[0].color).toBe('#aaa');
 	});
+
+	it('still accepts theme colours and forwards them to setPalette()', async () => {
+		const physics = new BlobPhysics(3, {});
+		await physics.init();
+		const blobs = physics.getBlobs(['#111', '#222']);
+		expect(blobs.map((blob) => blob.color)).toEqual(['#111', '#222', '#111']);
+
+		physics.getInterpolatedBlobs(['#333']);
+		expect(physics.getBlobs().every((blob) => blob.color === '#333')).toBe(true);
+	});
 });
@@ -2,9 +2,12 @@ import { describe, expect, it } from 'vitest';
 
 import {
 	clampFieldVector,
+	clampFieldVectorInto,
 	combineFieldVectors,
 	directionalBiasField,
+	directionalBiasFieldInto,
 	pointAttractorField,
+	pointAttractorFieldInto,
 	smoothDistanceFalloff,
 } from '../../src/core/InteractionField.js';
 
@@ -112,4 +115,15 @@ describe('InteractionField', () => {
 		expect(vectorMagnitude(farther)).toBeLessThanOrEqual(strength);
 		expect(vectorMagnitude(close)).toBeGreaterThan(vectorMagnitude(farther));
 	});
+
+	it('writes the same vectors into a caller-owned target', () => {
+		const out = { x: 0, y: 0 };
+		const options = { origin: { x: 30, y: 50 }, target: { x: 50, y: 50 }, radius: 40, strength: 0.4 };
+
+		expect(pointAttractorFieldInto(out, 30, 50, 50, 50, 40, 0.4)).toBe(out);
+		expect(out).toEqual(pointAttractorField(options));
+		expect(directionalBiasFieldInto(out, 3, 4, 1, 1)).toEqual(directionalBiasField({ x: 3, y: 4 }, 1, 1));
+		expect(clampFieldVectorInto(out, 3, 4, 2)).toEqual(clampFieldVector({ x: 3, y: 4 }, 2));
+		expect(clampFieldVectorInto(out, 1, 1, 0)).toEqual({ x: 0, y: 0 });
+	});
 });
@@ -0,0 +1,369 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+import type { ConvexBlob } from '../../src/core/types.js';
+import {
+	PhysicsWorkerClient,
+	type PhysicsWorkerClientOptions,
+	type PhysicsWorkerPort,
+} from '../../src/workers/PhysicsWorkerClient.js';
+import { createPhysicsWorkerHost } from '../../src/workers/physics-worker-host.js';
+import {
+	PHYSICS_WORKER_PROTOCOL_VERSION,
+	decodeFrame,
+	encodeFrame,
+	type WorkerInMessage,
+	type WorkerOutMessage,
+} from '../../src/workers/protocol.js';
+
+// Runs the real worker host in-process. Messages cross by structured clone
+// with their transfer lists on a later macrotask, like a real worker.
+class LoopbackWorker {
+	onmessage: ((event: { data: WorkerOutMessage }) => void) | null = null;
+	onerror: ((event: { message: string; preventDefault(): void }) => void) | null = null;
+	onmessageerror: (() => void) | null = null;
+	received: WorkerInMessage[] = [];
+	terminated = false;
+
+	private host = createPhysicsWorkerHost((message, transfer = []) => {
+		const data = this.reply(structuredClone(message, { transfer }));
+		setTimeout(() => {
+			if (data && !this.terminated) this.onmessage?.({ data });
+		}, 0);
+	});
+
+	postMessage(message: WorkerInMessage, transfer: Transferable[] = []): void {
+		const data = structuredClone(message, { transfer });
+		this.received.push(data);
+		setTimeout(() => {
+			if (!this.terminated) this.host.handleMessage(data);
+		}, 0);
+	}
+
+	terminate(): void {
+		this.terminated = true;
+	}
+
+	// Lets a test rewrite or drop what the host sends back.
+	protected reply(message: WorkerOutMessage): WorkerOutMessage | null {
+		return message;
+	}
+}
+
+const settle = async () => {
+	for (let i = 0; i < 4; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+};
+
+function createClient(
+	worker: LoopbackWorker | null,
+	options: PhysicsWorkerClientOptions = {},
+	count = 6,
+): PhysicsWorkerClient {
+	return new PhysicsWorkerClient(
+		count,
+		{},
+		{ seed: 5, createWorker: () => worker as unknown as PhysicsWorkerPort, ...options },
+	);
+}
+
+async function tickBoth(client: PhysicsWorkerClient, reference: BlobPhysics, ticks: number) {
+	for (let i = 0; i < ticks; i++) {
+		client.tick(1 / 60, i / 60);
+		reference.tick(1 / 60, i / 60);
+		await settle();
+	}
+}
+
+function expectSameBlobs(actual: ConvexBlob[], expected: ConvexBlob[]) {
+	expect(actual.map((blob) => blob.id)).toEqual(expected.map((blob) => blob.id));
+	actual.forEach((blob, i) => {
+		expect(blob.currentX).toBeCloseTo(expected[i].currentX, 3);
+		expect(blob.currentY).toBeCloseTo(expected[i].currentY, 3);
+		expect(blob.controlPoints![3].radius).toBeCloseTo(expected[i].controlPoints![3].radius, 3);
+	});
+}
+
+async function createReference(count = 6): Promise<BlobPhysics> {
+	const reference = new BlobPhysics(count, {}, { seed: 5 });
+	await reference.init();
+	return reference;
+}
+
+describe('physics worker frames', () => {
+	it('round-trip blob state through the Float32 layout', async () => {
+		const reference = await createReference();
+		reference.tick(0.5, 0);
+		const blobs = reference.getBlobs();
+		const mirror = structuredClone(blobs);
+		mirror.forEach((blob) => (blob.currentX = 0));
+
+		const rendered = reference.getInterpolatedBlobs();
+		const renderMirror = structuredClone(blobs);
+
+		const frame = encodeFrame(
+			blobs,
+			rendered,
+			{ mouse: { x: 12, y: 34 }, energy: 0.5 },
+			new Float32Array(0),
+		);
+
+		expect(decodeFrame(frame, mirror, renderMirror)).toEqual({ mouse: { x: 12, y: 34 }, energy: 0.5 });
+		expectSameBlobs(mirror, blobs);
+		expectSameBlobs(renderMirror, rendered);
+		expect(decodeFrame(frame, mirror.slice(1))).toBeNull();
+	});
+
+	it('fill the buffer they were handed when it fits', () => {
+		const posted: WorkerOutMessage[] = [];
+		const host = createPhysicsWorkerHost((message) => posted.push(message));
+		const buffer = new Float32Array(1024);
+
+		host.handleMessage({ type: 'init', blobCount: 3, config: {}, commands: [], checkpointInterval: 1 });
+		host.handleMessage({ type: 'tick', dt: 1 / 60, time: 0, commands: [], frame: buffer });
+
+		const frame = posted.find((message) => message.type === 'frame' && message.frame === buffer);
+		expect(frame).toBeDefined();
+	});
+});
+
+describe('PhysicsWorkerClient', () => {
+	it('steps the worker in lockstep with an in-thread simulation', async () => {
+		const worker = new LoopbackWorker();
+		const client = createClient(worker);
+		const reference = await createReference();
+
+		await client.init();
+		expect(client.usesWorker()).toBe(true);
+		expect(worker.received[0]).toEqual({ type: 'hello', version: PHYSICS_WORKER_PROTOCOL_VERSION });
+
+		await tickBoth(client, reference, 30);
+		expectSameBlobs(client.getBlobs(), reference.getBlobs());
+		expect(client.getMotionEnergy()).toBeCloseTo(reference.getMotionEnergy(), 6);
+
+		// After the first tick the same buffer ping-pongs back and forth.
+		const ticks = worker.received.filter((message) => message.type === 'tick');
+		expect(ticks.slice(1).every((message) => message.frame instanceof Float32Array)).toBe(true);
+		client.dispose();
+	});
+
+	it('renders the worker\'s interpolated state between fixed steps', async () => {
+		const worker = new LoopbackWorker();
+		const client = createClient(worker);
+		const reference = await createReference();
+		await client.init();
+		client.updateMousePosition(20, 30);
+		reference.updateMousePosition(20, 30);
+
+		for (let i = 0; i < 25; i++) {
+			client.tick(1 / 144, i / 144);
+			reference.tick(1 / 144, i / 144);
+			await settle();
+		}
+
+		expect(reference.getInterpolationAlpha()).toBeCloseTo(0.42, 2);
+		const rendered = client.getInterpolatedBlobs();
+		expectSameBlobs(rendered, reference.getInterpolatedBlobs());
+		expectSameBlobs(client.getBlobs(), reference.getBlobs());
+		const stepped = client.getBlobs();
+		expect(
+			rendered.some((blob, i) => Math.abs(blob.currentX - stepped[i].currentX) > 1e-4),
+		).toBe(true);
+		client.dispose();
+	});
+
+	it('shares frames through a ring when shared memory is on', async () => {
+		const worker = new LoopbackWorker();
+		const client = createClient(worker, { sharedMemory: true });
+		const reference = await createReference();
+
+		await client.init();
+		await tickBoth(client, reference, 20);
+
+		const init = worker.received.find((message) => message.type === 'init');
+		expect(init?.type === 'init' && init.ring).toBeInstanceOf(SharedArrayBuffer);
+		expect(worker.received.some((message) => message.type === 'tick' && message.frame)).toBe(false);
+		expectSameBlobs(client.getBlobs(), reference.getBlobs());
+		client.dispose();
+	});
+
+	it('forwards input and theme colours with the next tick', async () => {
+		const worker = new LoopbackWorker();
+		const client = createClient(worker);
+		const reference = await createReference();
+		await client.init();
+
+		client.updateMousePosition(20, 30);
+		client.setGravity({ x: 0.2, y: 0.1 });
+		reference.updateMousePosition(20, 30);
+		reference.setGravity({ x: 0.2, y: 0.1 });
+		client.setPalette(['red', 'blue']);
+		reference.setPalette(['red', 'blue']);
+		await tickBoth(client, reference, 10);
+
+		expect(client.getMousePosition()).toEqual(reference.getMousePosition());
+		expectSameBlobs(client.getBlobs(), reference.getBlobs());
+		expect(client.getBlobs().map((blob) => blob.color)).toEqual(
+			reference.getBlobs().map((blob) => blob.color),
+		);
+		client.dispose();
+	});
+
+	it('validates config on the calling thread', async () => {
+		const client = createClient(new LoopbackWorker());
+		await client.init();
+
+		expect(() => client.setConfig({ viscosity: -1 })).toThrow(RangeError);
+		expect(client.getConfig().viscosity).toBe(new BlobPhysics(1).getConfig().viscosity);
+		client.dispose();
+	});
+
+	it('fetches a fresh frame for changes made between ticks', async () => {
+		const onFrame = vi.fn();
+		const client = createClient(new LoopbackWorker(), { onFrame });
+		await client.init();
+		onFrame.mockClear();
+
+		client.setBlobCount(3, { animate: false });
+		expect(client.getBlobs()).toHaveLength(6);
+		await settle();
+
+		expect(onFrame).toHaveBeenCalled();
+		expect(client.getBlobs()).toHaveLength(3);
+		client.dispose();
+	});
+
+	it('delivers simulation events raised in the worker', async () => {
+		const client = createClient(new LoopbackWorker(), {}, 12);
+		const bounces: number[] = [];
+		client.on('bounce', (event) => bounces.push(event.data.blobId));
+		await client.init();
+
+		client.setGravity({ x: 0, y: 1 });
+		for (let i = 0; i < 90; i++) {
+			client.tick(1 / 20, i / 20);
+			await settle();
+		}
+
+		expect(bounces.length).toBeGreaterThan(0);
+		client.dispose();
+	});
+
+	it('checkpoints state for exportState()', async () => {
+		const client = createClient(new LoopbackWorker(), { checkpointInterval: 0 });
+		await client.init();
+		const start = client.exportState()!.simulationClock;
+		for (let i = 0; i < 5; i++) {
+			client.tick(1 / 60, i / 60);
+			await settle();
+		}
+
+		const state = client.exportState();
+		expect(state!.simulationClock - start).toBeCloseTo(5 / 60, 9);
+		expectSameBlobs(client.getBlobs(), state!.blobs);
+		client.dispose();
+	});
+
+	describe('falls back to in-thread physics', () => {
+		it('when workers are unavailable', async () => {
+			const onFallback = vi.fn();
+			const client = createClient(null, { onFallback });
+			const reference = await createReference();
+
+			await client.init();
+			client.tick(0.5, 0);
+			reference.tick(0.5, 0);
+
+			expect(onFallback).toHaveBeenCalledWith('Web Workers are unavailable');
+			expect(client.usesWorker()).toBe(false);
+			expect(client.isReady()).toBe(true);
+			expect(client.getBlobs()).toEqual(reference.getBlobs());
+		});
+
+		it('when the worker speaks another protocol version', async () => {
+			class OldWorker extends LoopbackWorker {
+				protected reply(message: WorkerOutMessage): WorkerOutMessage {
+					return message.type === 'hello' ? { type: 'hello', version: 0 } : message;
+				}
+			}
+			const worker = new OldWorker();
+			const onFallback = vi.fn();
+			const client = createClient(worker, { onFallback });
+
+			await client.init();
+
+			expect(onFallback.mock.calls[0][0]).toMatch(/protocol 0/);
+			expect(worker.terminated).toBe(true);
+			expect(client.getBlobs()).toHaveLength(6);
+		});
+
+		it('when the worker never answers', async () => {
+			class SilentWorker extends LoopbackWorker {
+				protected reply(): null {
+					return null;
+				}
+			}
+			const onFallback = vi.fn();
+			const client = createClient(new SilentWorker(), { onFallback, handshakeTimeout: 5 });
+
+			await client.init();
+
+			expect(onFallback).toHaveBeenCalledWith('the physics worker did not answer');
+			expect(client.isReady()).toBe(true);
+		});
+
+		it('from the last checkpoint when the worker fails', async () => {
+			const worker = new LoopbackWorker();
+			const onFallback = vi.fn();
+			const client = createClient(worker, { checkpointInterval: 0, onFallback });
+			const bounces = vi.fn();
+			client.on('bounce', bounces);
+			await client.init();
+			client.setWorld({ minX: -60, minY: -40, maxX: 160, maxY: 140 });
+			for (let i = 0; i < 10; i++) {
+				client.tick(1 / 60, i / 60);
+				await settle();
+			}
+			const before = client.getBlobs().map((blob) => ({ ...blob }));
+
+			worker.onerror?.({ message: 'worker crashed', preventDefault() {} });
+			const after = client.getBlobs();
+			const restingY = after[0].currentY;
+
+			expect(onFallback).toHaveBeenCalledWith('worker crashed');
+			expect(worker.terminated).toBe(true);
+			expectSameBlobs(after, before);
+			expect(client.getWorld()).toEqual({ minX: -60, minY: -40, maxX: 160, maxY: 140 });
+
+			client.setGravity({ x: 0, y: 2 });
+			for (let i = 0; i < 200; i++) client.tick(1 / 20, i / 20);
+			expect(client.getBlobs()[0].currentY).not.toBe(restingY);
+			expect(bounces).toHaveBeenCalled();
+		});
+
+		it('keeping the inputs set since the last checkpoint', async () => {
+			const worker = new LoopbackWorker();
+			const client = createClient(worker, { checkpointInterval: 0 });
+			await client.init();
+			for (let i = 0; i < 3; i++) {
+				client.tick(1 / 60, i / 60);
+				await settle();
+			}
+			const checkpoint = client.exportState()!;
+
+			client.updateMousePosition(10, 20);
+			client.updateMousePosition(15, 28);
+			client.setGravity({ x: 0.5, y: -1 });
+			client.setTilt({ x: 0.1, y: 0.2, z: 0.3 });
+			client.setScrollStickiness(0.7);
+			worker.onerror?.({ message: 'worker crashed', preventDefault() {} });
+
+			const state = client.exportState()!;
+			expect(state.mouse).toEqual({ x: 15, y: 28, velocityX: 5, velocityY: 8 });
+			expect(state.gravity).toEqual({ x: 0.5, y: -1 });
+			expect(state.tilt).toEqual({ x: 0.1, y: 0.2, z: 0.3 });
+			expect(state.scrollStickiness).toBe(0.7);
+			expect(state.simulationClock).toBe(checkpoint.simulationClock);
+			expect(client.getMousePosition()).toEqual({ x: 15, y: 28 });
+		});
+	});
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+import type { ConvexBlob } from '../../src/core/types.js';
+import {
+	DEFAULT_PHYSICS_WORLD,
+	createPhysicsWorld,
+	getWorldCenter,
+	getWorldViewBox,
+	getWorldViewRect,
+	isValidPhysicsWorld,
+	type PhysicsWorld,
+} from '../../src/core/world.js';
+
+function spanRatio(world: PhysicsWorld): number {
+	return (world.maxX - world.minX) / (world.maxY - world.minY);
+}
+
+function blobsInside(blobs: ConvexBlob[], world: PhysicsWorld): boolean {
+	return blobs.every(
+		(blob) =>
+			blob.currentX >= world.minX &&
+			blob.currentX <= world.maxX &&
+			blob.currentY >= world.minY &&
+			blob.currentY <= world.maxY,
+	);
+}
+
+describe('physics world geometry', () => {
+	it('frames the default world with the legacy viewBox', () => {
+		expect(getWorldViewBox(DEFAULT_PHYSICS_WORLD)).toEqual({
+			x: -33,
+			y: -33,
+			width: 133,
+			height: 133,
+		});
+		expect(getWorldCenter(DEFAULT_PHYSICS_WORLD)).toEqual({ x: 50, y: 50 });
+	});
+
+	it('returns the default world for a square aspect ratio', () => {
+		expect(createPhysicsWorld(1)).toEqual(DEFAULT_PHYSICS_WORLD);
+		expect(createPhysicsWorld(Number.NaN)).toEqual(DEFAULT_PHYSICS_WORLD);
+		expect(createPhysicsWorld(-2)).toEqual(DEFAULT_PHYSICS_WORLD);
+	});
+
+	it('INVARIANT: aspect worlds match the requested ratio and keep the default area', () => {
+		const defaultArea = 180 * 180;
+		for (const aspect of [21 / 9, 16 / 9, 9 / 19.5, 0.5]) {
+			const world = createPhysicsWorld(aspect);
+			const view = getWorldViewBox(world);
+
+			expect(spanRatio(world)).toBeCloseTo(aspect, 10);
+			expect(view.width / view.height).toBeCloseTo(aspect, 10);
+			expect((world.maxX - world.minX) * (world.maxY - world.minY)).toBeCloseTo(defaultArea, 6);
+			expect(getWorldCenter(world).x).toBeCloseTo(50, 10);
+			expect(getWorldCenter(world).y).toBeCloseTo(50, 10);
+		}
+	});
+
+	it('exposes the view box as a min/max rectangle for pointer mapping', () => {
+		expect(getWorldViewRect(DEFAULT_PHYSICS_WORLD)).toEqual({
+			minX: -33,
+			minY: -33,
+			maxX: 100,
+			maxY: 100,
+		});
+	});
+
+	it('rejects degenerate worlds', () => {
+		expect(isValidPhysicsWorld(DEFAULT_PHYSICS_WORLD)).toBe(true);
+		expect(isValidPhysicsWorld({ minX: 0, minY: 0, maxX: 0, maxY: 10 })).toBe(false);
+		expect(isValidPhysicsWorld({ minX: 0, minY: 0, maxX: 10, maxY: Number.NaN })).toBe(false);
+		expect(() => new BlobPhysics(1, {}, { world: { minX: 5, minY: 0, maxX: 0, maxY: 1 } })).toThrow(
+			RangeError,
+		);
+	});
+});
+
+describe('BlobPhysics world bounds', () => {
+	it('lays out and keeps blobs inside an ultrawide world', async () => {
+		const world = createPhysicsWorld(21 / 9);
+		const physics = new BlobPhysics(8, {}, { seed: 3, world });
+		await physics.init();
+
+		const initial = physics.getBlobs();
+		const xs = initial.map((blob) => blob.currentX);
+		expect(Math.max(...xs) - Math.min(...xs)).toBeGreaterThan(180);
+
+		for (let i = 0; i < 600; i++) {
+			physics.tick(1 / 60, 0);
+		}
+
+		expect(blobsInside(physics.getBlobs(), world)).toBe(true);
+	});
+
+	it('treats the world center as the neutral pointer anchor', () => {
+		const world = { minX: 0, minY: 0, maxX: 300, maxY: 100 };
+		const physics = new BlobPhysics(0, {}, { seed: 1, world });
+		const internals = physics as unknown as {
+			mouseX: number;
+			mouseY: number;
+		};
+
+		expect(internals.mouseX).toBe(150);
+		expect(internals.mouseY).toBe(50);
+
+		physics.updateMousePosition(20, 20);
+		physics.resetMousePosition();
+		expect(internals.mouseX).toBe(150);
+		expect(internals.mouseY).toBe(50);
+	});
+
+	it('remaps blobs proportionally when the world is resized', async () => {
+		const physics = new BlobPhysics(4, {}, { seed: 9 });
+		await physics.init();
+		const before = physics.getBlobs().map((blob) => ({ x: blob.currentX, y: blob.currentY }));
+
+		const next = createPhysicsWorld(2);
+		physics.setWorld(next);
+
+		const after = physics.getBlobs();
+		expect(physics.getWorld()).toEqual(next);
+		for (let i = 0; i < after.length; i++) {
+			const u = (before[i].x - DEFAULT_PHYSICS_WORLD.minX) / 180;
+			const v = (before[i].y - DEFAULT_PHYSICS_WORLD.minY) / 180;
+			expect(after[i].currentX).toBeCloseTo(next.minX + u * (next.maxX - next.minX), 10);
+			expect(after[i].currentY).toBeCloseTo(next.minY + v * (next.maxY - next.minY), 10);
+		}
+	});
+
+	it('round-trips the world through snapshots', async () => {
+		const world = createPhysicsWorld(0.5);
+		const source = new BlobPhysics(3, {}, { seed: 2, world });
+		await source.init();
+
+		const restored = new BlobPhysics(3, {}, { seed: 2 });
+		restored.importState(source.exportState());
+
+		expect(restored.getWorld()).toEqual(world);
+	});
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	BlobPhysics,
+	DEFAULT_POINTER_FIELD_CONFIG,
+	type PointerFieldConfig,
+} from '../../src/core/BlobPhysics.js';
+
+async function createPhysics(pointerField: Partial<PointerFieldConfig> = {}): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(1, { pointerField }, { seed: 8 });
+	await physics.init();
+	const [blob] = physics.getBlobs();
+	blob.currentX = 50;
+	blob.currentY = 50;
+	blob.velocityX = 0;
+	blob.velocityY = 0;
+	return physics;
+}
+
+// Velocity the pointer field adds to a blob at (50, 50) over one step, with
+// the pointer at (40, 50): the difference from a twin whose field is off.
+async function pointerKick(
+	pointerField: Partial<PointerFieldConfig>,
+	move: (physics: BlobPhysics) => void = (physics) => physics.updateMousePosition(40, 50),
+): Promise<{ x: number; y: number }> {
+	const baseline = await createPhysics({ ...pointerField, strength: 0 });
+	const affected = await createPhysics(pointerField);
+	move(baseline);
+	move(affected);
+
+	baseline.tick(1 / 60, 0);
+	affected.tick(1 / 60, 0);
+
+	const [a] = affected.getBlobs();
+	const [b] = baseline.getBlobs();
+	return { x: a.velocityX - b.velocityX, y: a.velocityY - b.velocityY };
+}
+
+describe('BlobPhysics pointer field', () => {
+	it('attracts by default and repels on request', async () => {
+		const attract = await pointerKick({});
+		const repel = await pointerKick({ mode: 'repel' });
+
+		expect(attract.x).toBeLessThan(0);
+		expect(repel.x).toBeCloseTo(-attract.x, 12);
+		expect(Math.abs(attract.y)).toBeLessThan(1e-12);
+	});
+
+	it('scales with strength and radius and honours the falloff curve', async () => {
+		const base = await pointerKick({});
+		const doubled = await pointerKick({ strength: 2 });
+		const linear = await pointerKick({ falloff: 'linear' });
+		const outOfReach = await pointerKick({ radius: 8 });
+
+		expect(doubled.x).toBeCloseTo(base.x * 2, 12);
+		// 10 units into a 34-unit field: (24/34)² smooth versus 24/34 linear.
+		expect(linear.x / base.x).toBeCloseTo(34 / 24, 6);
+		expect(outOfReach.x).toBe(0);
+	});
+
+	it('swirls blobs around the pointer', async () => {
+		const attract = await pointerKick({});
+		const swirl = await pointerKick({ mode: 'swirl' });
+
+		expect(Math.abs(swirl.x)).toBeLessThan(1e-12);
+		// A blob to the right of the pointer is sent up the screen.
+		expect(swirl.y).toBeCloseTo(attract.x, 12);
+	});
+
+	it('pushes blobs along the pointer velocity in wake mode', async () => {
+		const resting = await pointerKick({ mode: 'wake' }, (physics) => {
+			physics.updateMousePosition(40, 50);
+			physics.updateMousePosition(40, 50);
+		});
+		const sweeping = await pointerKick({ mode: 'wake' }, (physics) => {
+			physics.updateMousePosition(40, 48);
+			physics.updateMousePosition(40, 50);
+		});
+		const flung = await pointerKick({ mode: 'wake' }, (physics) => {
+			physics.updateMousePosition(40, 0);
+			physics.updateMousePosition(40, 50);
+		});
+
+		expect(resting).toEqual({ x: 0, y: 0 });
+		expect(sweeping.y).toBeGreaterThan(0);
+		expect(Math.abs(sweeping.x)).toBeLessThan(1e-12);
+		// Fast sweeps push harder, but only up to the boost cap.
+		expect(flung.y).toBeCloseTo(sweeping.y * 1.5, 12);
+	});
+
+	it('lets listed colours ignore the pointer', async () => {
+		const colour = (await createPhysics()).getBlobs()[0].color;
+		const kick = await pointerKick({ ignoreColors: [colour] });
+
+		expect(kick).toEqual({ x: 0, y: 0 });
+	});
+
+	it('gives every active pointer its own field, scaled by its strength', async () => {
+		const single = await pointerKick({});
+		const pressed = await pointerKick({}, (physics) =>
+			physics.setPointers([{ id: 1, x: 40, y: 50, strength: 2 }]),
+		);
+		const pinch = await pointerKick({}, (physics) =>
+			physics.setPointers([
+				{ id: 1, x: 40, y: 50 },
+				{ id: 2, x: 60, y: 50 },
+			]),
+		);
+		const below = await pointerKick({}, (physics) =>
+			physics.setPointers([
+				{ id: 1, x: 40, y: 50 },
+				{ id: 2, x: 50, y: 60 },
+			]),
+		);
+
+		expect(pressed.x).toBeCloseTo(single.x * 2, 12);
+		expect(Math.abs(pinch.x)).toBeLessThan(1e-12);
+		expect(below.x).toBeCloseTo(single.x, 12);
+		expect(below.y).toBeCloseTo(-single.x, 12);
+	});
+
+	it('tracks wake velocity per pointer and returns to neutral when all lift', async () => {
+		const physics = await createPhysics({ mode: 'wake' });
+		physics.setPointers([
+			{ id: 1, x: 40, y: 48 },
+			{ id: 2, x: 60, y: 50 },
+		]);
+		physics.setPointers([
+			{ id: 1, x: 40, y: 50 },
+			{ id: 2, x: 60, y: 50 },
+		]);
+		expect(physics.exportState().mouse).toMatchObject({ x: 40, y: 50, velocityY: 2 });
+
+		physics.setPointers([]);
+		expect(physics.exportState().mouse).toEqual({ x: 50, y: 50, velocityX: 0, velocityY: 0 });
+
+		expect(() => physics.setPointers([{ id: 1, x: Number.NaN, y: 0 }])).toThrow(RangeError);
+		expect(() => physics.setPointers([{ id: 1, x: 0, y: 0, strength: -1 }])).toThrow(RangeError);
+	});
+
+	it('retunes live and validates settings', async () => {
+		const physics = await createPhysics();
+		physics.setConfig({ pointerField: { mode: 'swirl' } });
+		physics.setConfig({ pointerField: { radius: 20 } });
+		expect(physics.getConfig().pointerField).toEqual({ radius: 20 });
+
+		physics.setConfig({}, { reset: true });
+		expect(physics.getConfig().pointerField).toBeUndefined();
+
+		expect(() => physics.setConfig({ pointerField: { radius: 0 } })).toThrow(RangeError);
+		expect(
+			() => new BlobPhysics(1, { pointerField: { mode: 'orbit' as PointerFieldConfig['mode'] } }),
+		).toThrow(RangeError);
+		expect(DEFAULT_POINTER_FIELD_CONFIG.radius).toBe(34);
+	});
+});
@@ -34,6 +34,18 @@ describe('mapClientPointToPhysics', () => {
 		});
 	});
 
+	it('maps each axis independently onto a world rectangle', () => {
+		const world = { minX: -80, minY: 0, maxX: 120, maxY: 60 };
+
+		expect(mapClientPointToPhysics(10, 20, bounds, world)).toEqual({ x: -80, y: 0 });
+		expect(mapClientPointToPhysics(110, 70, bounds, world)).toEqual({ x: 20, y: 30 });
+		expect(mapClientPointToPhysics(210, 120, bounds, world)).toEqual({ x: 120, y: 60 });
+		expect(mapClientPointToPhysics(110, 70, { ...bounds, height: 0 }, world)).toEqual({
+			x: 20,
+			y: 30,
+		});
+	});
+
 	it('falls back to the center when bounds have no area', () => {
 		expect(mapClientPointToPhysics(100, 100, { ...bounds, width: 0 })).toEqual({
 			x: 50,
@@ -255,6 +255,57 @@ describe('createPointerPhysicsController', () => {
 		expect(updatePosition).toHaveBeenCalledWith({ x: 0, y: 0 });
 	});
 
+	it('maps onto a per-axis world rectangle resolved at event time', () => {
+		const target = createTarget();
+		const updatePosition = vi.fn();
+		let frameCallback: FrameRequestCallback | undefined;
+		let range = { minX: -100, minY: 0, maxX: 100, maxY: 50 };
+
+		createPointerPhysicsController({
+			target,
+			getBounds: () => bounds,
+			range: () => range,
+			supportsPointerEvents: true,
+			requestFrame(callback) {
+				frameCallback = callback;
+				return 1;
+			},
+			cancelFrame: vi.fn(),
+			updatePosition,
+		});
+
+		target.dispatch('pointermove', { clientX: 210, clientY: 120 });
+		frameCallback?.(16);
+		expect(updatePosition).toHaveBeenLastCalledWith({ x: 100, y: 50 });
+
+		range = { minX: 0, minY: 0, maxX: 10, maxY: 10 };
+		target.dispatch('pointermove', { clientX: 210, clientY: 120 });
+		frameCallback?.(32);
+		expect(updatePosition).toHaveBeenLastCalledWith({ x: 10, y: 10 });
+	});
+
+	it('delegates stale pointer resets to resetPosition when provided', () => {
+		const target = createTarget();
+		const updatePosition = vi.fn();
+		const resetPosition = vi.fn();
+		createPointerPhysicsController({
+			target,
+			getBounds: () => bounds,
+			supportsPointerEvents: true,
+			requestFrame: vi.fn(() => 7),
+			cancelFrame: vi.fn(),
+			updatePosition,
+			resetPosition,
+		});
+
+		target.dispatch('pointermove', { clientX: 110, clientY: 70 });
+		target.dispatch('pointerout', { relatedTarget: null });
+		target.dispatch('blur');
+
+		expect(resetPosition).toHaveBeenCalledTimes(2);
+		expect(updatePosition).not.toHaveBeenCalled();
+	});
+
 	it('ignores pointerout transitions that stay inside the document', () => {
 		const target = createTarget();
 		const updatePosition = vi.fn();
@@ -320,3 +371,99 @@ describe('createPointerPhysicsController', () => {
 		expect(updatePosition).not.toHaveBeenCalled();
 	});
 });
+
+describe('createPointerPhysicsController with updatePointers', () => {
+	const bounds = {
+		left: 10,
+		top: 20,
+		width: 200,
+		height: 100,
+	};
+
+	function createMultiPointer() {
+		const target = createTarget();
+		const updatePointers = vi.fn();
+		const updatePosition = vi.fn();
+		const frameCallbacks: FrameRequestCallback[] = [];
+		const controller = createPointerPhysicsController({
+			target,
+			getBounds: () => bounds,
+			supportsPointerEvents: true,
+			requestFrame(callback) {
+				frameCallbacks.push(callback);
+				return frameCallbacks.length;
+			},
+			cancelFrame: vi.fn(),
+			updatePosition,
+			updatePointers,
+		});
+		const runFrames = () => {
+			for (const callback of frameCallbacks.splice(0)) callback(16);
+		};
+		return { target, controller, updatePointers, updatePosition, runFrames };
+	}
+
+	it('reports each pointer by id once per frame', () => {
+		const { target, updatePointers, updatePosition, runFrames } = createMultiPointer();
+
+		target.dispatch('pointerdown', { pointerId: 1, pointerType: 'touch', clientX: 60, clientY: 45 });
+		target.dispatch('pointerdown', { pointerId: 2, pointerType: 'touch', clientX: 110, clientY: 70 });
+		target.dispatch('pointermove', { pointerId: 1, pointerType: 'touch', clientX: 110, clientY: 45 });
+		runFrames();
+
+		expect(updatePointers).toHaveBeenCalledOnce();
+		expect(updatePointers).toHaveBeenCalledWith([
+			{ id: 1, x: 50, y: 25, strength: 1 },
+			{ id: 2, x: 50, y: 50, strength: 1 },
+		]);
+		expect(updatePosition).not.toHaveBeenCalled();
+	});
+
+	it('scales pen and touch pressure around the 0.5 default but not mouse hover', () => {
+		const { target, updatePointers, runFrames } = createMultiPointer();
+
+		target.dispatch('pointermove', { pointerId: 1, pointerType: 'pen', pressure: 0.9, clientX: 60, clientY: 45 });
+		target.dispatch('pointermove', { pointerId: 2, pointerType: 'touch', pressure: 0.25, clientX: 60, clientY: 45 });
+		target.dispatch('pointermove', { pointerId: 3, pointerType: 'mouse', pressure: 0, clientX: 60, clientY: 45 });
+		runFrames();
+
+		const strengths = updatePointers.mock.calls[0][0].map((pointer: { strength: number }) => pointer.strength);
+		expect(strengths[0]).toBeCloseTo(1.8, 10);
+		expect(strengths.slice(1)).toEqual([0.5, 1]);
+	});
+
+	it('drops contacts on up, cancel and exit, keeps a hovering mouse, and clears on blur', () => {
+		const { target, updatePointers, runFrames } = createMultiPointer();
+		const ids = () => updatePointers.mock.lastCall![0].map((pointer: { id: number }) => pointer.id);
+
+		target.dispatch('pointerdown', { pointerId: 1, pointerType: 'mouse', clientX: 60, clientY: 45 });
+		target.dispatch('pointerdown', { pointerId: 2, pointerType: 'touch', clientX: 60, clientY: 45 });
+		target.dispatch('pointerdown', { pointerId: 3, pointerType: 'pen', clientX: 60, clientY: 45 });
+		target.dispatch('pointerdown', { pointerId: 4, pointerType: 'touch', clientX: 60, clientY: 45 });
+		runFrames();
+		expect(ids()).toEqual([1, 2, 3, 4]);
+
+		target.dispatch('pointerup', { pointerId: 1, pointerType: 'mouse' });
+		target.dispatch('pointerup', { pointerId: 2, pointerType: 'touch' });
+		target.dispatch('pointercancel', { pointerId: 3 });
+		target.dispatch('pointerout', { pointerId: 4, relatedTarget: {} as EventTarget });
+		runFrames();
+		expect(ids()).toEqual([1, 4]);
+
+		target.dispatch('pointerout', { pointerId: 4, relatedTarget: null });
+		runFrames();
+		expect(ids()).toEqual([1]);
+
+		target.dispatch('blur');
+		runFrames();
+		expect(updatePointers).toHaveBeenLastCalledWith([]);
+	});
+
+	it('removes the extra contact listeners during cleanup', () => {
+		const { target, controller } = createMultiPointer();
+
+		controller.dispose();
+
+		expect(target.listeners.size).toBe(0);
+	});
+});
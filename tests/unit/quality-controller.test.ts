@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+	QUALITY_LADDER,
+	QUALITY_TIERS,
+	QualityController,
+	detectQualityTier,
+} from '../../src/motion/QualityController.js';
+
+// Frames whose work takes `workMs`, on a 60 Hz display unless the work
+// runs longer than a refresh.
+function run(controller: QualityController, seconds: number, workMs: number, displayMs = 1000 / 60) {
+	const frameMs = Math.max(workMs, displayMs);
+	for (let t = 0; t < seconds * 1000; t += frameMs) controller.recordFrame(workMs, frameMs);
+	return controller.getTier();
+}
+
+describe('QUALITY_LADDER', () => {
+	it('only ever gets cheaper going down', () => {
+		for (let i = 1; i < QUALITY_TIERS.length; i++) {
+			const better = QUALITY_LADDER[QUALITY_TIERS[i - 1]];
+			const worse = QUALITY_LADDER[QUALITY_TIERS[i]];
+			expect(worse.blobScale).toBeLessThan(better.blobScale);
+			expect(worse.controlPointScale).toBeLessThan(better.controlPointScale);
+			expect(worse.fps).toBeLessThan(better.fps);
+			for (const key of ['gaussianSmoothing', 'glowFilter', 'softEdge'] as const) {
+				expect(!worse[key] || better[key]).toBe(true);
+			}
+		}
+		expect(QUALITY_LADDER.high).toMatchObject({
+			blobScale: 1,
+			controlPointScale: 1,
+			gaussianSmoothing: true,
+			glowFilter: true,
+			softEdge: true,
+		});
+	});
+});
+
+describe('detectQualityTier', () => {
+	it('seeds from cores, memory and Save-Data', () => {
+		expect(detectQualityTier({ hardwareConcurrency: 8, deviceMemory: 8 })).toBe('high');
+		expect(detectQualityTier({ hardwareConcurrency: 4, deviceMemory: 8 })).toBe('medium');
+		expect(detectQualityTier({ hardwareConcurrency: 8, deviceMemory: 2 })).toBe('medium');
+		expect(detectQualityTier({ hardwareConcurrency: 2 })).toBe('low');
+		expect(detectQualityTier({ deviceMemory: 0.5 })).toBe('low');
+		expect(detectQualityTier({ hardwareConcurrency: 16, connection: { saveData: true } })).toBe('low');
+	});
+
+	it('assumes a capable device when nothing is reported', () => {
+		expect(detectQualityTier({})).toBe('high');
+		expect(detectQualityTier(undefined)).toBe('high');
+	});
+});
+
+describe('QualityController', () => {
+	it('steps down one tier after sustained slow frames', () => {
+		const onChange = vi.fn();
+		const controller = new QualityController({ initialTier: 'high', onChange });
+
+		expect(run(controller, 2.5, 30)).toBe('high');
+		expect(run(controller, 1, 30)).toBe('medium');
+		expect(onChange).toHaveBeenCalledExactlyOnceWith('medium');
+		expect(controller.getSettings()).toBe(QUALITY_LADDER.medium);
+
+		expect(run(controller, 10, 30)).toBe('low');
+		expect(run(controller, 10, 30)).toBe('low');
+	});
+
+	it('ignores a brief hitch and pauses longer than a frame', () => {
+		const controller = new QualityController({ initialTier: 'high' });
+		run(controller, 2, 4);
+
+		run(controller, 0.3, 50);
+		controller.recordFrame(5, 5000);
+
+		expect(run(controller, 3, 4)).toBe('high');
+	});
+
+	it('steps up only after a longer stretch of headroom', () => {
+		const controller = new QualityController({ initialTier: 'low' });
+
+		expect(run(controller, 8, 4)).toBe('low');
+		expect(run(controller, 1.5, 4)).toBe('medium');
+		expect(run(controller, 10, 4)).toBe('high');
+	});
+
+	it('holds a tier whose frame time sits between the thresholds', () => {
+		const controller = new QualityController({ initialTier: 'medium' });
+
+		expect(run(controller, 60, 9)).toBe('medium');
+	});
+
+	it('backs off after a step up has to be undone', () => {
+		const changes: string[] = [];
+		const controller = new QualityController({
+			initialTier: 'medium',
+			onChange: (tier) => changes.push(tier),
+		});
+
+		// Medium keeps up, high does not: each failed try doubles the wait.
+		const tierWorkMs = () => (controller.getTier() === 'high' ? 30 : 4);
+		let elapsed = 0;
+		const upgrades: number[] = [];
+		while (elapsed < 120_000) {
+			const before = controller.getTier();
+			const frameMs = Math.max(tierWorkMs(), 1000 / 60);
+			controller.recordFrame(tierWorkMs(), frameMs);
+			elapsed += frameMs;
+			if (before === 'medium' && controller.getTier() === 'high') upgrades.push(elapsed);
+		}
+
+		expect(upgrades.length).toBeGreaterThan(2);
+		const gaps = upgrades.slice(1).map((time, i) => time - upgrades[i]);
+		for (let i = 1; i < gaps.length; i++) expect(gaps[i]).toBeGreaterThan(gaps[i - 1] * 1.5);
+		expect(changes.filter((tier) => tier === 'medium')).toHaveLength(upgrades.length);
+	});
+
+	it('never changes a pinned tier', () => {
+		const onChange = vi.fn();
+		const controller = new QualityController({ policy: 'low', onChange });
+
+		expect(controller.getTier()).toBe('low');
+		expect(run(controller, 30, 2)).toBe('low');
+		expect(onChange).not.toHaveBeenCalled();
+	});
+
+	it('pins and unpins through setPolicy', () => {
+		const onChange = vi.fn();
+		const controller = new QualityController({ initialTier: 'high', onChange });
+
+		controller.setPolicy('medium');
+		expect(controller.getTier()).toBe('medium');
+		expect(onChange).toHaveBeenCalledExactlyOnceWith('medium');
+		expect(run(controller, 10, 30)).toBe('medium');
+
+		controller.setPolicy('auto');
+		expect(controller.getPolicy()).toBe('auto');
+		expect(run(controller, 4, 30)).toBe('low');
+	});
+
+	it('keeps its tier on a slow display when the work is light', () => {
+		const controller = new QualityController({ initialTier: 'high' });
+
+		expect(run(controller, 30, 3, 1000 / 30)).toBe('high');
+	});
+
+	it('rejects unknown policies and non-positive thresholds', () => {
+		expect(() => new QualityController({ policy: 'ultra' as never })).toThrow(RangeError);
+		expect(() => new QualityController().setPolicy('ultra' as never)).toThrow(RangeError);
+		expect(() => new QualityController({ slowFrameMs: 0 })).toThrow(RangeError);
+		expect(() => new QualityController({ downgradeDelay: -1 })).toThrow(RangeError);
+	});
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics, type ScrollFieldInput } from '../../src/core/BlobPhysics.js';
+import type { PullForce } from '../../src/core/types.js';
+
+function forces(count: number, strength: number, explosive = false): PullForce[] {
+	return Array.from({ length: count }, () => ({ strength, time: 0, randomness: 0.7, explosive }));
+}
+
+async function createPhysics(): Promise<BlobPhysics> {
+	const physics = new BlobPhysics(8, {}, { seed: 4 });
+	await physics.init();
+	return physics;
+}
+
+// Runs three seconds with the scroll input refreshed every step, the way
+// TinyVectors feeds it from a decaying ScrollHandler.
+async function run(input: (step: number) => ScrollFieldInput | null) {
+	const physics = await createPhysics();
+	let meanVelocityY = 0;
+	let peakStretch = 0;
+	for (let i = 0; i < 180; i++) {
+		const field = input(i);
+		if (field) physics.setScrollField(field);
+		physics.tick(1 / 60, 0);
+		for (const blob of physics.getBlobs()) {
+			if (i < 60) meanVelocityY += blob.velocityY / (8 * 60);
+			peakStretch = Math.max(peakStretch, blob.scrollStretch ?? 0);
+		}
+	}
+	const spread =
+		physics.getBlobs().reduce((sum, blob) => sum + Math.hypot(blob.currentX - 50, blob.currentY - 50), 0) / 8;
+	return { physics, meanVelocityY, peakStretch, spread };
+}
+
+const fading = (strength: number, steps: number, direction: number, explosive = false) => (i: number) => ({
+	direction,
+	forces: forces(explosive ? 8 : 4, strength * Math.max(0, 1 - i / steps), explosive),
+});
+
+describe('BlobPhysics scroll field', () => {
+	it('pushes blobs against the scroll direction', async () => {
+		const idle = await run(() => null);
+		const down = await run(fading(2, 120, 1));
+		const up = await run(fading(2, 120, -1));
+
+		expect(down.meanVelocityY).toBeLessThan(idle.meanVelocityY - 0.02);
+		expect(up.meanVelocityY).toBeGreaterThan(idle.meanVelocityY + 0.02);
+	});
+
+	it('stretches the drawn outline while scrolling and relaxes afterwards', async () => {
+		const { physics, peakStretch } = await run(fading(2, 60, 1));
+		const [blob] = physics.getBlobs();
+
+		expect(peakStretch).toBeGreaterThan(0.02);
+		expect(peakStretch).toBeLessThanOrEqual(0.15);
+		expect(blob.scrollStretch).toBeUndefined();
+	});
+
+	it('scatters blobs on explosive scrolls', async () => {
+		const idle = await run(() => null);
+		const burst = await run(fading(6, 200, 1, true));
+
+		expect(burst.spread).toBeGreaterThan(idle.spread + 5);
+	});
+
+	it('fades out when the input stops being refreshed', async () => {
+		const physics = await createPhysics();
+		physics.setScrollField({ direction: 1, forces: forces(8, 6, true) });
+
+		for (let i = 0; i < 600; i++) physics.tick(1 / 60, 0);
+
+		const state = physics as unknown as { scrollLag: number; scrollBurst: number };
+		expect(state.scrollLag).toBe(0);
+		expect(state.scrollBurst).toBe(0);
+	});
+
+	it('leaves the simulation untouched without pull forces', async () => {
+		const idle = await run(() => null);
+		const neutral = await run(() => ({ direction: 1, forces: [] }));
+
+		expect(neutral.physics.exportState()).toEqual(idle.physics.exportState());
+	});
+
+	it('rejects non-finite input', async () => {
+		const physics = await createPhysics();
+
+		expect(() => physics.setScrollField({ direction: Number.NaN, forces: [] })).toThrow(RangeError);
+		expect(() =>
+			physics.setScrollField({ direction: 1, forces: forces(1, Number.POSITIVE_INFINITY) }),
+		).toThrow(RangeError);
+	});
+});
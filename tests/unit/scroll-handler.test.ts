@@ -37,20 +37,110 @@ describe('ScrollHandler', () => {
 		expect(handler.getPullForces().length).toBeGreaterThan(0);
 	});
 
+	it('accepts raw deltas from non-wheel sources', () => {
+		const handler = new ScrollHandler();
+
+		handler.addScrollDelta(-240);
+
+		expect(handler.getScrollDirection()).toBe(-1);
+		expect(handler.getTotalScrollDistance()).toBe(240);
+		expect(handler.getStickiness()).toBeGreaterThan(0);
+	});
+
 	it('resets active scroll state after the quiet window', () => {
 		const handler = new ScrollHandler();
 
 		handler.handleScroll({ deltaY: 120 } as WheelEvent);
+		vi.setSystemTime(1_199);
+		handler.step(1 / 60);
+		expect(handler.isActivelyScrolling()).toBe(true);
+
 		vi.setSystemTime(1_201);
-		vi.advanceTimersByTime(200);
+		handler.step(1 / 60);
 
 		expect(handler.isActivelyScrolling()).toBe(false);
 		expect(handler.getTotalScrollDistance()).toBe(0);
 		expect(handler.getPeakVelocity()).toBe(0);
 	});
 
-	it('keeps a single decay loop active across repeated scroll events', () => {
+	it('decays only when stepped unless running standalone', () => {
+		const handler = new ScrollHandler();
+
+		handler.handleScroll({ deltaY: 240 } as WheelEvent);
+		const stickiness = handler.getStickiness();
+
+		expect(requestAnimationFrame).not.toHaveBeenCalled();
+		expect(handler.getStickiness()).toBe(stickiness);
+
+		handler.step(1 / 60);
+
+		expect(handler.getStickiness()).toBeCloseTo(stickiness * 0.92, 12);
+		expect(handler.getPullForces()[0].time).toBeCloseTo(1 / 60, 12);
+	});
+
+	it('decays at the same rate per second at any step size', () => {
+		const at60 = new ScrollHandler();
+		const at120 = new ScrollHandler();
+		at60.handleScroll({ deltaY: 240 } as WheelEvent);
+		at120.handleScroll({ deltaY: 240 } as WheelEvent);
+
+		for (let i = 0; i < 30; i++) at60.step(1 / 60);
+		for (let i = 0; i < 60; i++) at120.step(1 / 120);
+
+		expect(at120.getStickiness()).toBeCloseTo(at60.getStickiness(), 12);
+		expect(at120.getScrollVelocity()).toBeCloseTo(at60.getScrollVelocity(), 12);
+		expect(at120.getPullForces()).toHaveLength(at60.getPullForces().length);
+		at120.getPullForces().forEach((force, i) => {
+			expect(force.strength).toBeCloseTo(at60.getPullForces()[i].strength, 12);
+			expect(force.time).toBeCloseTo(0.5, 12);
+		});
+	});
+
+	it('expires pull forces after their lifetime in seconds', () => {
+		const handler = new ScrollHandler();
+		handler.handleScroll({ deltaY: 240 } as WheelEvent);
+
+		handler.step(1.9);
+		expect(handler.getPullForces().length).toBeGreaterThan(0);
+
+		handler.step(0.2);
+		expect(handler.getPullForces()).toEqual([]);
+		expect(handler.getStickiness()).toBe(0);
+	});
+
+	it('replays identically from an injected clock and random source', () => {
+		const run = () => {
+			let time = 0;
+			let seed = 7;
+			const handler = new ScrollHandler({
+				now: () => time,
+				random: () => (seed = (seed * 16807) % 2147483647) / 2147483647,
+			});
+			for (let i = 0; i < 12; i++) {
+				time += 16;
+				handler.addScrollDelta(80 + i * 20);
+				handler.step(1 / 60);
+			}
+			return handler.getPullForces().map((force) => ({ ...force }));
+		};
+
+		expect(run()).toEqual(run());
+	});
+
+	it('ignores non-positive steps', () => {
 		const handler = new ScrollHandler();
+		handler.handleScroll({ deltaY: 240 } as WheelEvent);
+		const stickiness = handler.getStickiness();
+
+		handler.step(0);
+		handler.step(-1);
+		handler.step(Number.NaN);
+
+		expect(handler.getStickiness()).toBe(stickiness);
+	});
+
+	it('keeps a single decay loop active across repeated scroll events in standalone mode', () => {
+		const handler = new ScrollHandler({ standalone: true });
 
 		handler.handleScroll({ deltaY: 120 } as WheelEvent);
 		handler.handleScroll({ deltaY: 140 } as WheelEvent);
@@ -62,6 +152,28 @@ describe('ScrollHandler', () => {
 		expect(requestAnimationFrame).toHaveBeenCalledTimes(2);
 	});
 
+	it('steps standalone decay by elapsed frame time', () => {
+		const handler = new ScrollHandler({ standalone: true });
+
+		handler.handleScroll({ deltaY: 240 } as WheelEvent);
+		const stickiness = handler.getStickiness();
+		frameCallbacks[0](1_000);
+		frameCallbacks[1](1_000 + 1_000 / 120);
+
+		// A first frame counts as 1/60 s, then a 120 Hz frame is half of one.
+		expect(handler.getStickiness()).toBeCloseTo(stickiness * Math.pow(0.92, 1.5), 12);
+	});
+
+	it('ends a standalone scroll after the quiet window', () => {
+		const handler = new ScrollHandler({ standalone: true });
+
+		handler.handleScroll({ deltaY: 120 } as WheelEvent);
+		vi.setSystemTime(1_201);
+		frameCallbacks[0](16);
+
+		expect(handler.isActivelyScrolling()).toBe(false);
+	});
+
 	it('honors caller-configured pull-force caps', () => {
 		const handler = new ScrollHandler({ maxForces: 2 });
 
@@ -82,16 +194,14 @@ describe('ScrollHandler', () => {
 		expect(handler.getPullForces()).toEqual([]);
 	});
 
-	it('cleans up scheduled decay and scroll-end work', () => {
-		const clearTimeoutSpy = vi.spyOn(globalThis, 'clearTimeout');
-		const handler = new ScrollHandler();
+	it('cleans up scheduled standalone decay', () => {
+		const handler = new ScrollHandler({ standalone: true });
 
 		handler.handleScroll({ deltaY: 120 } as WheelEvent);
 		handler.dispose();
 		frameCallbacks[0](16);
 
 		expect(cancelAnimationFrame).toHaveBeenCalledWith(1);
-		expect(clearTimeoutSpy).toHaveBeenCalled();
 		expect(handler.getStickiness()).toBe(0);
 		expect(handler.isActivelyScrolling()).toBe(false);
 		expect(handler.getPullForces()).toEqual([]);
@@ -102,6 +212,7 @@ describe('ScrollHandler', () => {
 
 		handler.dispose();
 		handler.handleScroll({ deltaY: 120 } as WheelEvent);
+		handler.step(1 / 60);
 
 		expect(handler.getStickiness()).toBe(0);
 		expect(requestAnimationFrame).not.toHaveBeenCalled();
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+	createScrollSource,
+	type ScrollSourceEventName,
+	type ScrollSourceKind,
+} from '../../src/motion/ScrollSource.js';
+
+function createView(position = 0) {
+	const listeners = new Map<ScrollSourceEventName, EventListener>();
+	return {
+		scrollY: position,
+		scrollTop: position,
+		listeners,
+		addEventListener: (type: ScrollSourceEventName, listener: EventListener) => listeners.set(type, listener),
+		removeEventListener: (type: ScrollSourceEventName) => listeners.delete(type),
+		dispatch(type: ScrollSourceEventName, event: Partial<WheelEvent> = {}) {
+			listeners.get(type)?.(event as Event);
+		},
+	};
+}
+
+function harness(sources?: ScrollSourceKind[], element = false) {
+	const view = createView(100);
+	const container = createView(40);
+	let time = 0;
+	const deltas: number[] = [];
+	const source = createScrollSource({
+		onScroll: (delta) => deltas.push(delta),
+		window: view,
+		element: element ? container : null,
+		sources,
+		now: () => time,
+	});
+	const advance = (ms: number) => {
+		time += ms;
+	};
+	return { view, container, deltas, source, advance };
+}
+
+describe('createScrollSource', () => {
+	it('reports document position changes from any scroll input', () => {
+		const { view, deltas, advance } = harness();
+
+		view.scrollY = 160;
+		view.dispatch('scroll');
+		advance(16);
+		view.scrollY = 130;
+		view.dispatch('scroll');
+		view.dispatch('scroll');
+
+		expect(deltas).toEqual([60, -30]);
+	});
+
+	it('follows a custom scroll container instead of the document', () => {
+		const { view, container, deltas } = harness(undefined, true);
+
+		container.scrollTop = 90;
+		container.dispatch('scroll');
+		view.scrollY = 400;
+		view.dispatch('scroll');
+
+		expect(deltas).toEqual([50]);
+		expect(view.listeners.size).toBe(0);
+	});
+
+	it('counts a wheel-driven scroll once', () => {
+		const { view, deltas, advance } = harness();
+
+		view.dispatch('wheel', { deltaY: 120 });
+		view.scrollY = 220;
+		view.dispatch('scroll');
+		advance(400);
+		view.scrollY = 260;
+		view.dispatch('scroll');
+
+		expect(deltas).toEqual([120, 40]);
+	});
+
+	it('limits itself to the requested sources and cleans up', () => {
+		const { view, deltas, source } = harness(['scroll']);
+
+		view.dispatch('wheel', { deltaY: 120 });
+		expect(view.listeners.has('wheel')).toBe(false);
+
+		source.dispose();
+		view.scrollY = 300;
+		view.dispatch('scroll');
+
+		expect(deltas).toEqual([]);
+		expect(view.listeners.size).toBe(0);
+	});
+});
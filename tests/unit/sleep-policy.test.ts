@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+import { DEFAULT_SLEEP_FPS, SleepPolicy } from '../../src/motion/SleepPolicy.js';
+
+const FRAME = 1 / 60;
+
+function run(policy: SleepPolicy, seconds: number, energy: number): boolean {
+	for (let t = 0; t < seconds; t += FRAME) policy.update(FRAME, energy);
+	return policy.isAsleep();
+}
+
+describe('SleepPolicy', () => {
+	it('sleeps after the scene stays at rest for the delay', () => {
+		const onChange = vi.fn();
+		const policy = new SleepPolicy({ restEnergy: 0.01, sleepDelay: 1, onChange });
+
+		expect(run(policy, 0.9, 0.005)).toBe(false);
+		expect(policy.getFrameInterval()).toBe(0);
+		expect(run(policy, 0.2, 0.005)).toBe(true);
+		expect(policy.getFrameInterval()).toBeCloseTo(1000 / DEFAULT_SLEEP_FPS, 9);
+		expect(onChange).toHaveBeenCalledExactlyOnceWith(true);
+	});
+
+	it('restarts the countdown whenever the scene moves', () => {
+		const policy = new SleepPolicy({ restEnergy: 0.01, sleepDelay: 1 });
+
+		run(policy, 0.8, 0.005);
+		policy.update(FRAME, 0.02);
+
+		expect(run(policy, 0.8, 0.005)).toBe(false);
+	});
+
+	it('wakes on input at once and on motion past the wake energy', () => {
+		const policy = new SleepPolicy({ sleepFps: 15, restEnergy: 0.01, wakeEnergy: 0.04, sleepDelay: 0.5 });
+		run(policy, 1, 0);
+
+		policy.wake();
+		expect(policy.isAsleep()).toBe(false);
+		expect(run(policy, 0.4, 0)).toBe(false);
+
+		run(policy, 0.2, 0);
+		expect(policy.getFrameInterval()).toBeCloseTo(1000 / 15, 9);
+		// Between rest and wake energy a sleeping scene stays asleep.
+		expect(policy.update(FRAME, 0.03)).toBe(true);
+		expect(policy.update(FRAME, 0.05)).toBe(false);
+	});
+
+	it('rejects rates and thresholds it cannot honour', () => {
+		expect(() => new SleepPolicy({ sleepFps: 0 })).toThrow(RangeError);
+		expect(() => new SleepPolicy({ sleepFps: Infinity })).toThrow(RangeError);
+		expect(() => new SleepPolicy({ restEnergy: -1 })).toThrow(RangeError);
+	});
+});
+
+describe('BlobPhysics.getMotionEnergy()', () => {
+	it('reads ambient drift as rest and a fling as motion', async () => {
+		const physics = new BlobPhysics(8, {}, { seed: 3 });
+		await physics.init();
+		expect(physics.getMotionEnergy()).toBe(0);
+
+		const policy = new SleepPolicy();
+		for (let i = 0; i < 240; i++) {
+			physics.tick(FRAME, 0);
+			policy.update(FRAME, physics.getMotionEnergy());
+		}
+		expect(policy.isAsleep()).toBe(true);
+
+		for (const blob of physics.getBlobs()) {
+			blob.velocityX = 2;
+			blob.velocityY = -1.5;
+		}
+		physics.tick(FRAME, 0);
+		policy.update(FRAME, physics.getMotionEnergy());
+
+		expect(physics.getMotionEnergy()).toBeGreaterThan(0.5 * 0.3 * 0.3);
+		expect(policy.isAsleep()).toBe(false);
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+
+import { BlobPhysics } from '../../src/core/BlobPhysics.js';
+import { DEFAULT_CONFIG, mergeConfig } from '../../src/core/schema.js';
+import {
+	DEFAULT_PHYSICS_WORLD,
+	DEFAULT_WORLD_VIEW_FRAMING,
+	createPhysicsWorld,
+	getWorldViewBox,
+	getWorldViewRect,
+} from '../../src/core/world.js';
+
+async function blobSizes(config: ConstructorParameters<typeof BlobPhysics>[1]): Promise<number[]> {
+	const physics = new BlobPhysics(8, config, { seed: 21 });
+	await physics.init();
+	return physics.getBlobs().map((blob) => blob.size);
+}
+
+describe('TinyVectors config schema', () => {
+	it('defaults to what the component renders without a config', () => {
+		const config = mergeConfig({});
+
+		expect(config.core).toMatchObject({ blobCount: 8, minRadius: 15, maxRadius: 27, animated: true });
+		expect(config.rendering.layers).toBe(3);
+		expect(config.rendering.viewBox).toEqual(DEFAULT_WORLD_VIEW_FRAMING);
+		expect(config.features.lazyLoad).toBe(false);
+		expect(config.features).not.toHaveProperty('wasmAcceleration');
+		expect(config.theme.preset).toBe('tinyland');
+	});
+
+	it('merges nested overrides without dropping sibling defaults', () => {
+		const config = mergeConfig({ core: { blobCount: 4 }, rendering: { viewBox: { margin: 10 } } });
+
+		expect(config.core).toEqual({ ...DEFAULT_CONFIG.core, blobCount: 4 });
+		expect(config.rendering.viewBox).toEqual({ margin: 10, size: 100 });
+	});
+});
+
+describe('view framing', () => {
+	it('reproduces the legacy viewBox with the default framing', () => {
+		expect(getWorldViewBox(DEFAULT_PHYSICS_WORLD, DEFAULT_CONFIG.rendering.viewBox)).toEqual(
+			getWorldViewBox(DEFAULT_PHYSICS_WORLD),
+		);
+	});
+
+	it('tightens the margin and span on the default world', () => {
+		expect(getWorldViewBox(DEFAULT_PHYSICS_WORLD, { margin: 10, size: 100 })).toEqual({
+			x: -10,
+			y: -10,
+			width: 110,
+			height: 110,
+		});
+	});
+
+	it('scales the framing with a stretched world', () => {
+		const world = createPhysicsWorld(2);
+		const framing = { margin: 20, size: 80 };
+		const view = getWorldViewBox(world, framing);
+		const rect = getWorldViewRect(world, framing);
+
+		expect(view.width / view.height).toBeCloseTo(2, 5);
+		expect(rect).toEqual({
+			minX: view.x,
+			minY: view.y,
+			maxX: view.x + view.width,
+			maxY: view.y + view.height,
+		});
+	});
+});
+
+describe('BlobPhysics radius bounds', () => {
+	it('keeps the seeded default sizes when given the default bounds', async () => {
+		expect(await blobSizes({ minRadius: 15, maxRadius: 27 })).toEqual(await blobSizes({}));
+	});
+
+	it('sizes blobs within core.minRadius and core.maxRadius', async () => {
+		const sizes = await blobSizes({ minRadius: 5, maxRadius: 6 });
+
+		for (const size of sizes) {
+			expect(size).toBeGreaterThanOrEqual(5);
+			expect(size).toBeLessThanOrEqual(6);
+		}
+	});
+
+	it('rejects inverted or non-positive bounds', () => {
+		expect(() => new BlobPhysics(3, { minRadius: 20, maxRadius: 10 })).toThrow(RangeError);
+		expect(() => new BlobPhysics(3, { minRadius: 0 })).toThrow(RangeError);
+	});
+});
@@ -21,6 +21,14 @@ export default defineConfig({
 		}),
 	],
 
+	// Relative, so the physics worker asset resolves next to the module
+	// that spawns it wherever the package is served from.
+	base: './',
+
+	worker: {
+		format: 'es',
+	},
+
 	build: {
 		lib: {
 			entry: {